@@ -14,12 +14,27 @@ import { registerMapTools } from "./tools/mapTools.js";
 import { registerResourceTools } from "./tools/resourceTools.js";
 import { registerSkillTools } from "./tools/skillTools.js";
 import { registerLimitTools } from "./tools/limitTools.js";
+import { registerPatchTools } from "./tools/patchTools.js";
+import { registerValidationTools } from "./tools/validationTools.js";
 import { registerWeaponTools } from "./tools/weaponTools.js";
 import { registerStateTools } from "./tools/stateTools.js";
 import { registerEnemyTools } from "./tools/enemyTools.js";
 import { registerArmorTools } from "./tools/armorTools.js";
 import { registerActorTools } from "./tools/actorTools.js";
 import { registerClassTools } from "./tools/classTools.js";
+import { registerEventTools } from "./tools/eventTools.js";
+import { registerCommonEventTools } from "./tools/commonEventTools.js";
+import { registerTroopTools } from "./tools/troopTools.js";
+import { registerAnimationTools } from "./tools/animationTools.js";
+import { registerTileTools } from "./tools/tileTools.js";
+import { registerGeneratorTools } from "./tools/generatorTools.js";
+import { registerRenderTools } from "./tools/renderTools.js";
+import { registerTilesetTools } from "./tools/tilesetTools.js";
+import { registerSystemTools } from "./tools/systemTools.js";
+import { registerTypeTools } from "./tools/typeTools.js";
+import { registerSwitchTools } from "./tools/switchTools.js";
+import { registerTraitTools } from "./tools/traitTools.js";
+import { registerEffectTools } from "./tools/effectTools.js";
 
 // Get configuration from environment variables
 const projectPath = process.env.RPGMAKER_PROJECT_PATH;
@@ -45,15 +60,30 @@ registerDatabaseTools(server, fileHandler);
 registerItemTools(server, fileHandler, safeWriter);
 registerPluginTools(server, fileHandler, safeWriter);
 registerMapTools(server, fileHandler, safeWriter);
-registerResourceTools(server, fileHandler);
+registerResourceTools(server, fileHandler, safeWriter);
 registerSkillTools(server, fileHandler, safeWriter);
 registerLimitTools(server, fileHandler, safeWriter);
+registerPatchTools(server, fileHandler, safeWriter);
+registerValidationTools(server, fileHandler);
 registerWeaponTools(server, fileHandler, safeWriter);
 registerStateTools(server, fileHandler, safeWriter);
 registerEnemyTools(server, fileHandler, safeWriter);
 registerArmorTools(server, fileHandler, safeWriter);
 registerActorTools(server, fileHandler, safeWriter);
 registerClassTools(server, fileHandler, safeWriter);
+registerEventTools(server, fileHandler, safeWriter);
+registerCommonEventTools(server, fileHandler, safeWriter);
+registerTroopTools(server, fileHandler, safeWriter);
+registerAnimationTools(server, fileHandler, safeWriter);
+registerTileTools(server, fileHandler, safeWriter);
+registerGeneratorTools(server, fileHandler, safeWriter);
+registerRenderTools(server, fileHandler);
+registerTilesetTools(server, fileHandler, safeWriter);
+registerSystemTools(server, fileHandler, safeWriter);
+registerTypeTools(server, fileHandler, safeWriter);
+registerSwitchTools(server, fileHandler, safeWriter);
+registerTraitTools(server, fileHandler, safeWriter);
+registerEffectTools(server, fileHandler, safeWriter);
 
 // Start server with stdio transport
 async function main() {
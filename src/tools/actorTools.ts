@@ -1,12 +1,15 @@
 /**
- * Actor Tools - create_actor, get_actors, update_actor
+ * Actor Tools - create_actor, get_actors, update_actor, delete_actor, set_actor_equips, get_actor_stats
  */
 
 import { z } from "zod";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { FileHandler } from "../utils/fileHandler.js";
 import { SafeWriter } from "../utils/safeWriter.js";
-import { RPGActor } from "../utils/types.js";
+import { RPGActor, RPGClass, RPGWeapon, RPGArmor, RPGSystem } from "../utils/types.js";
+import { findReferences, formatReferences } from "../utils/references.js";
+import { WEAPON_ETYPE, actorTraits, equipSlots, equipProblem, computeActorStats } from "../utils/equipment.js";
+import { PARAM_NAMES, XPARAM_NAMES, SPARAM_NAMES } from "../utils/traits.js";
 
 const createActorSchema = z.object({
     name: z.string().describe("Actor name"),
@@ -19,6 +22,7 @@ const createActorSchema = z.object({
     characterIndex: z.number().int().min(0).default(0).describe("Character sprite index"),
     faceName: z.string().optional().default("").describe("Face image name"),
     faceIndex: z.number().int().min(0).default(0).describe("Face image index"),
+    battlerName: z.string().optional().default("").describe("Side-view battler image name (img/sv_actors)"),
 });
 
 const updateActorSchema = z.object({
@@ -30,7 +34,29 @@ const updateActorSchema = z.object({
     maxLevel: z.number().int().min(1).optional(),
     profile: z.string().optional(),
     characterName: z.string().optional(),
+    characterIndex: z.number().int().min(0).max(7).optional(),
     faceName: z.string().optional(),
+    faceIndex: z.number().int().min(0).max(7).optional(),
+    battlerName: z.string().optional(),
+});
+
+const setActorEquipsSchema = z.object({
+    actorId: z.number().int().min(1).describe("Actor ID"),
+    equips: z.array(z.object({
+        slot: z.union([z.number().int().min(1), z.string().min(1)])
+            .describe("Slot number (1 = first slot) or equip type name (e.g. \"Weapon\", \"Body\")"),
+        itemId: z.number().int().min(0).describe("Weapon ID for weapon slots, armor ID otherwise; 0 to empty the slot"),
+    })).min(1).describe("Slots to change; other slots keep their equipment"),
+});
+
+const getActorStatsSchema = z.object({
+    actorId: z.number().int().min(1).describe("Actor ID"),
+    level: z.number().int().min(1).max(99).optional().describe("Level (defaults to the actor's initial level)"),
+});
+
+const deleteActorSchema = z.object({
+    id: z.number().int().min(1).describe("Actor ID to delete"),
+    force: z.boolean().default(false).describe("Delete even if other data still references this actor"),
 });
 
 function createDefaultActor(id: number): RPGActor {
@@ -48,10 +74,26 @@ function createDefaultActor(id: number): RPGActor {
         battlerName: "",
         equips: [0, 0, 0, 0, 0], // Weapon, Shield, Head, Body, Accessory
         profile: "",
+        traits: [],
         note: "",
     };
 }
 
+/**
+ * One line per equip slot, e.g. "1 Weapon: Sword (3)"
+ */
+function describeEquips(
+    equips: number[], slots: number[], system: RPGSystem,
+    weapons: (RPGWeapon | null)[], armors: (RPGArmor | null)[],
+): string[] {
+    return slots.map((etypeId, slot) => {
+        const itemId = equips[slot] ?? 0;
+        const item = etypeId === WEAPON_ETYPE ? weapons[itemId] : armors[itemId];
+        const label = system.equipTypes?.[etypeId] || `Equip type ${etypeId}`;
+        return `${slot + 1} ${label}: ${itemId > 0 ? `${item?.name || "?"} (${itemId})` : "(none)"}`;
+    });
+}
+
 export function registerActorTools(server: McpServer, fileHandler: FileHandler, safeWriter: SafeWriter) {
     // get_actors - List all actors
     server.tool(
@@ -96,7 +138,7 @@ export function registerActorTools(server: McpServer, fileHandler: FileHandler,
             try {
                 const {
                     name, nickname, classId, initialLevel, maxLevel,
-                    profile, characterName, characterIndex, faceName, faceIndex
+                    profile, characterName, characterIndex, faceName, faceIndex, battlerName
                 } = args;
 
                 const actors = await fileHandler.readJson<(RPGActor | null)[]>("data/Actors.json");
@@ -113,6 +155,7 @@ export function registerActorTools(server: McpServer, fileHandler: FileHandler,
                 newActor.characterIndex = characterIndex;
                 newActor.faceName = faceName;
                 newActor.faceIndex = faceIndex;
+                newActor.battlerName = battlerName;
 
                 actors.push(newActor);
                 await safeWriter.writeToDatabase("Actors.json", actors);
@@ -132,11 +175,14 @@ export function registerActorTools(server: McpServer, fileHandler: FileHandler,
     // update_actor - Update an existing actor
     server.tool(
         "update_actor",
-        "Update an existing actor's properties",
+        "Update an existing actor's properties, including character, face and battler images",
         updateActorSchema.shape,
         async (args) => {
             try {
-                const { id, name, nickname, classId, initialLevel, maxLevel, profile, characterName, faceName } = args;
+                const {
+                    id, name, nickname, classId, initialLevel, maxLevel, profile,
+                    characterName, characterIndex, faceName, faceIndex, battlerName
+                } = args;
 
                 const actors = await fileHandler.readJson<(RPGActor | null)[]>("data/Actors.json");
 
@@ -156,7 +202,10 @@ export function registerActorTools(server: McpServer, fileHandler: FileHandler,
                 if (maxLevel !== undefined) actor.maxLevel = maxLevel;
                 if (profile !== undefined) actor.profile = profile;
                 if (characterName !== undefined) actor.characterName = characterName;
+                if (characterIndex !== undefined) actor.characterIndex = characterIndex;
                 if (faceName !== undefined) actor.faceName = faceName;
+                if (faceIndex !== undefined) actor.faceIndex = faceIndex;
+                if (battlerName !== undefined) actor.battlerName = battlerName;
 
                 await safeWriter.writeToDatabase("Actors.json", actors);
 
@@ -171,4 +220,212 @@ export function registerActorTools(server: McpServer, fileHandler: FileHandler,
             }
         }
     );
+
+    // delete_actor - Clear an actor entry
+    server.tool(
+        "delete_actor",
+        "Delete an actor by clearing its entry like the editor does (the ID stays in place). Refuses while other data references it unless force is set",
+        deleteActorSchema.shape,
+        async (args) => {
+            try {
+                const { id, force } = args;
+
+                const actors = await fileHandler.readJson<(RPGActor | null)[]>("data/Actors.json");
+
+                if (id >= actors.length || !actors[id]) {
+                    return {
+                        content: [{ type: "text" as const, text: `Error: Actor with ID ${id} not found` }],
+                        isError: true,
+                    };
+                }
+
+                const name = actors[id]!.name;
+                const references = await findReferences(fileHandler, "actors", id);
+                if (references.length > 0 && !force) {
+                    return {
+                        content: [{
+                            type: "text" as const,
+                            text: `Error: Actor ${id} "${name}" is referenced in ${references.length} place(s):\n${formatReferences(references)}\nRemove these references or pass force to delete anyway`,
+                        }],
+                        isError: true,
+                    };
+                }
+
+                actors[id] = createDefaultActor(id);
+                await safeWriter.writeToDatabase("Actors.json", actors);
+
+                const dangling = references.length > 0
+                    ? `\nThese references now point at an empty entry:\n${formatReferences(references)}`
+                    : "";
+                return {
+                    content: [{ type: "text" as const, text: `Deleted actor ${id} "${name}"${dangling}` }],
+                };
+            } catch (error) {
+                return {
+                    content: [{ type: "text" as const, text: `Error: ${error}` }],
+                    isError: true,
+                };
+            }
+        }
+    );
+
+    // set_actor_equips - Set initial equipment
+    server.tool(
+        "set_actor_equips",
+        "Set an actor's initial equipment by slot, checking each item against the slot's equip type and the Equip Weapon/Armor and Seal Equip traits of the actor and class",
+        setActorEquipsSchema.shape,
+        async (args) => {
+            try {
+                const { actorId, equips } = args;
+
+                const actors = await fileHandler.readJson<(RPGActor | null)[]>("data/Actors.json");
+
+                if (actorId >= actors.length || !actors[actorId]) {
+                    return {
+                        content: [{ type: "text" as const, text: `Error: Actor ID ${actorId} not found` }],
+                        isError: true,
+                    };
+                }
+
+                const actor = actors[actorId]!;
+                const [system, classes, weapons, armors] = await Promise.all([
+                    fileHandler.readJson<RPGSystem>("data/System.json"),
+                    fileHandler.readJson<(RPGClass | null)[]>("data/Classes.json"),
+                    fileHandler.readJson<(RPGWeapon | null)[]>("data/Weapons.json"),
+                    fileHandler.readJson<(RPGArmor | null)[]>("data/Armors.json"),
+                ]);
+
+                const traits = actorTraits(actor, classes[actor.classId]);
+                const slots = equipSlots(traits, system);
+                const newEquips = slots.map((_, slot) => actor.equips[slot] ?? 0);
+                const assigned = new Set<number>();
+                const problems: string[] = [];
+
+                for (const { slot, itemId } of equips) {
+                    let index: number;
+                    if (typeof slot === "number") {
+                        index = slot - 1;
+                    } else {
+                        // By equip type name: the first matching slot not yet set by this call
+                        const wanted = slot.trim().toLowerCase();
+                        const matching = slots
+                            .map((etypeId, i) => ({ i, name: system.equipTypes?.[etypeId] ?? "" }))
+                            .filter((s) => s.name.toLowerCase() === wanted)
+                            .map((s) => s.i);
+                        index = matching.find((i) => !assigned.has(i)) ?? matching[0] ?? -1;
+                    }
+                    if (index < 0 || index >= slots.length) {
+                        const available = slots.map((etypeId, i) => `${i + 1}=${system.equipTypes?.[etypeId] ?? etypeId}`).join(", ");
+                        problems.push(`Unknown slot "${slot}" (slots: ${available})`);
+                        continue;
+                    }
+                    assigned.add(index);
+
+                    if (itemId === 0) {
+                        newEquips[index] = 0;
+                        continue;
+                    }
+                    const etypeId = slots[index];
+                    const isWeapon = etypeId === WEAPON_ETYPE;
+                    const item = isWeapon ? weapons[itemId] : armors[itemId];
+                    if (!item) {
+                        problems.push(`Slot ${index + 1}: ${isWeapon ? "weapon" : "armor"} ${itemId} not found`);
+                        continue;
+                    }
+                    const problem = equipProblem(item, etypeId, traits, system);
+                    if (problem) {
+                        problems.push(`Slot ${index + 1}: cannot equip "${item.name}" (${itemId}): ${problem}`);
+                        continue;
+                    }
+                    newEquips[index] = itemId;
+                }
+
+                if (problems.length > 0) {
+                    return {
+                        content: [{ type: "text" as const, text: `Error: ${problems.join("\n")}` }],
+                        isError: true,
+                    };
+                }
+
+                actor.equips = newEquips;
+                await safeWriter.writeToDatabase("Actors.json", actors);
+
+                const summary = describeEquips(actor.equips, slots, system, weapons, armors);
+                return {
+                    content: [{ type: "text" as const, text: `Updated equipment of "${actor.name}" (ID ${actorId}):\n${summary.join("\n")}` }],
+                };
+            } catch (error) {
+                return {
+                    content: [{ type: "text" as const, text: `Error: ${error}` }],
+                    isError: true,
+                };
+            }
+        }
+    );
+
+    // get_actor_stats - Final parameters at a level
+    server.tool(
+        "get_actor_stats",
+        "Compute an actor's parameters at a level from the class curves, initial equipment and Parameter traits (no buffs or states); Ex- and Sp-Parameters in percent",
+        getActorStatsSchema.shape,
+        async (args) => {
+            try {
+                const { actorId } = args;
+
+                const actors = await fileHandler.readJson<(RPGActor | null)[]>("data/Actors.json");
+
+                if (actorId >= actors.length || !actors[actorId]) {
+                    return {
+                        content: [{ type: "text" as const, text: `Error: Actor ID ${actorId} not found` }],
+                        isError: true,
+                    };
+                }
+
+                const actor = actors[actorId]!;
+                const [system, classes, weapons, armors] = await Promise.all([
+                    fileHandler.readJson<RPGSystem>("data/System.json"),
+                    fileHandler.readJson<(RPGClass | null)[]>("data/Classes.json"),
+                    fileHandler.readJson<(RPGWeapon | null)[]>("data/Weapons.json"),
+                    fileHandler.readJson<(RPGArmor | null)[]>("data/Armors.json"),
+                ]);
+
+                const rpgClass = classes[actor.classId];
+                if (!rpgClass) {
+                    return {
+                        content: [{ type: "text" as const, text: `Error: Class ID ${actor.classId} of actor ${actorId} not found` }],
+                        isError: true,
+                    };
+                }
+
+                const level = Math.min(args.level ?? actor.initialLevel, actor.maxLevel);
+                const traits = actorTraits(actor, rpgClass);
+                const slots = equipSlots(traits, system);
+                const equipment = slots
+                    .map((etypeId, slot) => (etypeId === WEAPON_ETYPE ? weapons : armors)[actor.equips[slot] ?? 0])
+                    .filter((item): item is RPGWeapon | RPGArmor => !!item);
+
+                const stats = computeActorStats(rpgClass, level, traits, equipment);
+                const percent = (value: number) => Math.round(value * 1000) / 10;
+                const result = {
+                    actorId,
+                    name: actor.name,
+                    class: rpgClass.name,
+                    level,
+                    equipment: describeEquips(actor.equips, slots, system, weapons, armors),
+                    params: Object.fromEntries(PARAM_NAMES.map((name, i) => [name, stats.params[i]])),
+                    xparams: Object.fromEntries(XPARAM_NAMES.map((name, i) => [name, percent(stats.xparams[i])])),
+                    sparams: Object.fromEntries(SPARAM_NAMES.map((name, i) => [name, percent(stats.sparams[i])])),
+                };
+
+                return {
+                    content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
+                };
+            } catch (error) {
+                return {
+                    content: [{ type: "text" as const, text: `Error: ${error}` }],
+                    isError: true,
+                };
+            }
+        }
+    );
 }
@@ -0,0 +1,227 @@
+/**
+ * Animation Tools - get_animations, create_animation, update_animation
+ *
+ * MZ animations play an Effekseer effect (effects/<name>.efkefc) and add
+ * flash and sound timings on top of it.
+ */
+
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { FileHandler } from "../utils/fileHandler.js";
+import { SafeWriter } from "../utils/safeWriter.js";
+import type { RPGAnimation, RPGAnimationFlashTiming } from "../utils/types.js";
+
+const EFFECT_EXTENSION = ".efkefc";
+
+const displayTypes = ["each target", "center of targets", "screen center"];
+
+const colorChannel = z.number().int().min(0).max(255);
+
+const flashTimingSchema = z.object({
+    frame: z.number().int().min(0).describe("Frame the flash starts on (60 frames = 1 second)"),
+    duration: z.number().int().min(1).max(200).default(30).describe("Flash length in frames"),
+    red: colorChannel.default(255),
+    green: colorChannel.default(255),
+    blue: colorChannel.default(255),
+    intensity: colorChannel.default(170).describe("Flash strength (alpha)"),
+});
+
+const soundTimingSchema = z.object({
+    frame: z.number().int().min(0).describe("Frame the sound plays on"),
+    name: z.string().describe("Sound effect name in audio/se (without extension)"),
+    volume: z.number().int().min(0).max(100).default(90),
+    pitch: z.number().int().min(50).max(150).default(100),
+    pan: z.number().int().min(-100).max(100).default(0),
+});
+
+const createAnimationSchema = z.object({
+    name: z.string().describe("Animation name"),
+    effectName: z.string().default("").describe("Effekseer effect in effects/ (see scan_resources effects), without .efkefc; empty for flash/sound only"),
+    displayType: z.number().int().min(0).max(2).default(0).describe("Display type: 0=For each target, 1=For the center of targets, 2=Center of the screen"),
+    alignBottom: z.boolean().default(false).describe("Align to the bottom of the target instead of its center"),
+    offsetX: z.number().int().min(-9999).max(9999).default(0).describe("Horizontal offset in pixels"),
+    offsetY: z.number().int().min(-9999).max(9999).default(0).describe("Vertical offset in pixels"),
+    rotationX: z.number().int().min(-360).max(360).default(0).describe("Rotation around X in degrees"),
+    rotationY: z.number().int().min(-360).max(360).default(0).describe("Rotation around Y in degrees"),
+    rotationZ: z.number().int().min(-360).max(360).default(0).describe("Rotation around Z in degrees"),
+    scale: z.number().int().min(1).max(1000).default(100).describe("Scale in percent"),
+    speed: z.number().int().min(1).max(1000).default(100).describe("Playback speed in percent"),
+    flashTimings: z.array(flashTimingSchema).default([]).describe("Target flashes"),
+    screenFlashTimings: z.array(flashTimingSchema).default([]).describe("Screen flashes"),
+    soundTimings: z.array(soundTimingSchema).default([]).describe("Sound effects"),
+});
+
+const updateAnimationSchema = createAnimationSchema.partial().extend({
+    id: z.number().int().min(1).describe("Animation ID to update"),
+});
+
+function createDefaultAnimation(id: number): RPGAnimation {
+    return {
+        id,
+        name: "",
+        displayType: 0,
+        effectName: "",
+        alignBottom: false,
+        offsetX: 0,
+        offsetY: 0,
+        rotation: { x: 0, y: 0, z: 0 },
+        scale: 100,
+        speed: 100,
+        flashTimings: [],
+        screenFlashTimings: [],
+        soundTimings: [],
+    };
+}
+
+type AnimationFields = Partial<z.infer<typeof createAnimationSchema>>;
+
+function toFlashTiming(timing: z.infer<typeof flashTimingSchema>): RPGAnimationFlashTiming {
+    return {
+        frame: timing.frame,
+        duration: timing.duration,
+        color: [timing.red, timing.green, timing.blue, timing.intensity],
+    };
+}
+
+/**
+ * Copy the given fields onto an animation, checking that the effect and sounds exist
+ */
+async function applyAnimationFields(fileHandler: FileHandler, animation: RPGAnimation, fields: AnimationFields): Promise<void> {
+    if (fields.effectName) {
+        const effectName = fields.effectName.endsWith(EFFECT_EXTENSION)
+            ? fields.effectName.slice(0, -EFFECT_EXTENSION.length)
+            : fields.effectName;
+        if (!await fileHandler.exists(`effects/${effectName}${EFFECT_EXTENSION}`)) {
+            throw new Error(`Effect "effects/${effectName}${EFFECT_EXTENSION}" not found`);
+        }
+        fields = { ...fields, effectName };
+    }
+    for (const sound of fields.soundTimings ?? []) {
+        if (!await fileHandler.exists(`audio/se/${sound.name}.ogg`) && !await fileHandler.exists(`audio/se/${sound.name}.m4a`)) {
+            throw new Error(`Sound effect "audio/se/${sound.name}" not found`);
+        }
+    }
+
+    if (fields.name !== undefined) animation.name = fields.name;
+    if (fields.effectName !== undefined) animation.effectName = fields.effectName;
+    if (fields.displayType !== undefined) animation.displayType = fields.displayType;
+    if (fields.alignBottom !== undefined) animation.alignBottom = fields.alignBottom;
+    if (fields.offsetX !== undefined) animation.offsetX = fields.offsetX;
+    if (fields.offsetY !== undefined) animation.offsetY = fields.offsetY;
+    if (fields.rotationX !== undefined) animation.rotation.x = fields.rotationX;
+    if (fields.rotationY !== undefined) animation.rotation.y = fields.rotationY;
+    if (fields.rotationZ !== undefined) animation.rotation.z = fields.rotationZ;
+    if (fields.scale !== undefined) animation.scale = fields.scale;
+    if (fields.speed !== undefined) animation.speed = fields.speed;
+    if (fields.flashTimings !== undefined) animation.flashTimings = fields.flashTimings.map(toFlashTiming);
+    if (fields.screenFlashTimings !== undefined) animation.screenFlashTimings = fields.screenFlashTimings.map(toFlashTiming);
+    if (fields.soundTimings !== undefined) {
+        animation.soundTimings = fields.soundTimings.map(({ frame, name, volume, pitch, pan }) => ({
+            frame,
+            se: { name, volume, pitch, pan },
+        }));
+    }
+}
+
+export function registerAnimationTools(server: McpServer, fileHandler: FileHandler, safeWriter: SafeWriter) {
+    // get_animations - List all animations
+    server.tool(
+        "get_animations",
+        "Get all animations from the database with their Effekseer effect, display type, rotation and offsets",
+        {},
+        async () => {
+            try {
+                const animations = await fileHandler.readJson<(RPGAnimation | null)[]>("data/Animations.json");
+                const animationList = animations
+                    .filter((a): a is RPGAnimation => a !== null && a.name !== "")
+                    .map((a) => ({
+                        id: a.id,
+                        name: a.name,
+                        effectName: a.effectName,
+                        displayType: displayTypes[a.displayType] ?? a.displayType,
+                        // MV-format entries (frames/timings) have none of the fields below
+                        rotation: a.rotation,
+                        offset: { x: a.offsetX, y: a.offsetY },
+                        scale: a.scale,
+                        speed: a.speed,
+                        flashes: (a.flashTimings?.length ?? 0) + (a.screenFlashTimings?.length ?? 0),
+                        sounds: (a.soundTimings ?? []).map((t) => `${t.frame}: ${t.se.name}`),
+                    }));
+
+                return {
+                    content: [{ type: "text" as const, text: JSON.stringify(animationList, null, 2) }],
+                };
+            } catch (error) {
+                return {
+                    content: [{ type: "text" as const, text: `Error: ${error}` }],
+                    isError: true,
+                };
+            }
+        }
+    );
+
+    // create_animation - Create a new animation
+    server.tool(
+        "create_animation",
+        "Create a new animation bound to an Effekseer effect, with optional flash and sound timings",
+        createAnimationSchema.shape,
+        async (args) => {
+            try {
+                const animations = await fileHandler.readJson<(RPGAnimation | null)[]>("data/Animations.json");
+                const newId = animations.length;
+
+                const newAnimation = createDefaultAnimation(newId);
+                await applyAnimationFields(fileHandler, newAnimation, args);
+
+                animations.push(newAnimation);
+                await safeWriter.writeToDatabase("Animations.json", animations);
+
+                return {
+                    content: [{ type: "text" as const, text: `Created animation "${args.name}" with ID ${newId}` }],
+                };
+            } catch (error) {
+                return {
+                    content: [{ type: "text" as const, text: `Error: ${error}` }],
+                    isError: true,
+                };
+            }
+        }
+    );
+
+    // update_animation - Update an existing animation
+    server.tool(
+        "update_animation",
+        "Update an existing animation; timing lists replace the current ones when given",
+        updateAnimationSchema.shape,
+        async (args) => {
+            try {
+                const { id, ...fields } = args;
+
+                const animations = await fileHandler.readJson<(RPGAnimation | null)[]>("data/Animations.json");
+
+                if (id >= animations.length || !animations[id]) {
+                    return {
+                        content: [{ type: "text" as const, text: `Error: Animation ID ${id} not found` }],
+                        isError: true,
+                    };
+                }
+
+                // Fill in MZ fields missing from older entries before updating them
+                const animation = { ...createDefaultAnimation(id), ...animations[id]! };
+                await applyAnimationFields(fileHandler, animation, fields);
+                animations[id] = animation;
+
+                await safeWriter.writeToDatabase("Animations.json", animations);
+
+                return {
+                    content: [{ type: "text" as const, text: `Updated animation "${animation.name}" (ID ${id})` }],
+                };
+            } catch (error) {
+                return {
+                    content: [{ type: "text" as const, text: `Error: ${error}` }],
+                    isError: true,
+                };
+            }
+        }
+    );
+}
@@ -1,19 +1,21 @@
 /**
- * Armor Tools - create_armor, get_armors, update_armor
+ * Armor Tools - create_armor, get_armors, update_armor, delete_armor
  */
 
 import { z } from "zod";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { FileHandler } from "../utils/fileHandler.js";
 import { SafeWriter } from "../utils/safeWriter.js";
-import { RPGArmor, RPGTrait } from "../utils/types.js";
+import { RPGArmor, RPGTrait, RPGSystem } from "../utils/types.js";
+import { typeRefSchema, resolveTypeId } from "../utils/typeRegistry.js";
+import { findReferences, formatReferences } from "../utils/references.js";
 
 const createArmorSchema = z.object({
     name: z.string().describe("Armor name"),
     description: z.string().describe("Armor description"),
     price: z.number().int().min(0).describe("Armor price"),
-    atypeId: z.number().int().min(1).default(1).describe("Armor type ID (1=General, 2=Magic, 3=Heavy, etc.)"),
-    etypeId: z.number().int().min(2).default(2).describe("Equip type ID (2=Shield, 3=Head, 4=Body, 5=Accessory)"),
+    atypeId: typeRefSchema.default(1).describe("Armor type ID or name (see get_types armorTypes)"),
+    etypeId: typeRefSchema.default(2).describe("Equip slot ID or name (see get_types equipTypes; 1 is the weapon slot)"),
     def: z.number().int().min(0).default(0).describe("Defense (DEF)"),
     mdf: z.number().int().min(0).default(0).describe("Magic Defense (MDF)"),
     agi: z.number().int().min(0).default(0).describe("Agility (AGI)"),
@@ -30,6 +32,11 @@ const updateArmorSchema = z.object({
     iconIndex: z.number().int().min(0).optional(),
 });
 
+const deleteArmorSchema = z.object({
+    id: z.number().int().min(1).describe("Armor ID to delete"),
+    force: z.boolean().default(false).describe("Delete even if other data still references this armor"),
+});
+
 function createDefaultArmor(id: number): RPGArmor {
     return {
         id,
@@ -94,6 +101,17 @@ export function registerArmorTools(server: McpServer, fileHandler: FileHandler,
                     def, mdf, agi, iconIndex
                 } = args;
 
+                const system = await fileHandler.readJson<RPGSystem>("data/System.json");
+                const resolvedAtypeId = resolveTypeId(system, "armorTypes", atypeId);
+                const resolvedEtypeId = resolveTypeId(system, "equipTypes", etypeId);
+
+                if (resolvedEtypeId < 2) {
+                    return {
+                        content: [{ type: "text" as const, text: "Error: Armors need an equip slot from ID 2 up (ID 1 is the weapon slot)" }],
+                        isError: true,
+                    };
+                }
+
                 const armors = await fileHandler.readJson<(RPGArmor | null)[]>("data/Armors.json");
                 const newId = armors.length;
 
@@ -101,8 +119,8 @@ export function registerArmorTools(server: McpServer, fileHandler: FileHandler,
                 newArmor.name = name;
                 newArmor.description = description;
                 newArmor.price = price;
-                newArmor.atypeId = atypeId;
-                newArmor.etypeId = etypeId;
+                newArmor.atypeId = resolvedAtypeId;
+                newArmor.etypeId = resolvedEtypeId;
                 newArmor.iconIndex = iconIndex;
 
                 newArmor.params[3] = def; // DEF is index 3
@@ -164,4 +182,52 @@ export function registerArmorTools(server: McpServer, fileHandler: FileHandler,
             }
         }
     );
+
+    // delete_armor - Clear an armor entry
+    server.tool(
+        "delete_armor",
+        "Delete an armor by clearing its entry like the editor does (the ID stays in place). Refuses while other data references it unless force is set",
+        deleteArmorSchema.shape,
+        async (args) => {
+            try {
+                const { id, force } = args;
+
+                const armors = await fileHandler.readJson<(RPGArmor | null)[]>("data/Armors.json");
+
+                if (id >= armors.length || !armors[id]) {
+                    return {
+                        content: [{ type: "text" as const, text: `Error: Armor with ID ${id} not found` }],
+                        isError: true,
+                    };
+                }
+
+                const name = armors[id]!.name;
+                const references = await findReferences(fileHandler, "armors", id);
+                if (references.length > 0 && !force) {
+                    return {
+                        content: [{
+                            type: "text" as const,
+                            text: `Error: Armor ${id} "${name}" is referenced in ${references.length} place(s):\n${formatReferences(references)}\nRemove these references or pass force to delete anyway`,
+                        }],
+                        isError: true,
+                    };
+                }
+
+                armors[id] = createDefaultArmor(id);
+                await safeWriter.writeToDatabase("Armors.json", armors);
+
+                const dangling = references.length > 0
+                    ? `\nThese references now point at an empty entry:\n${formatReferences(references)}`
+                    : "";
+                return {
+                    content: [{ type: "text" as const, text: `Deleted armor ${id} "${name}"${dangling}` }],
+                };
+            } catch (error) {
+                return {
+                    content: [{ type: "text" as const, text: `Error: ${error}` }],
+                    isError: true,
+                };
+            }
+        }
+    );
 }
@@ -1,26 +1,69 @@
 /**
- * Class Tools - create_class, get_classes, update_class
+ * Class Tools - create_class, get_classes, update_class, delete_class,
+ *               add_class_learning, remove_class_learning, get_class_table
  */
 
 import { z } from "zod";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { FileHandler } from "../utils/fileHandler.js";
 import { SafeWriter } from "../utils/safeWriter.js";
-import { RPGClass } from "../utils/types.js";
+import { RPGClass, RPGSkill } from "../utils/types.js";
+import { findReferences, formatReferences } from "../utils/references.js";
+import { PARAM_NAMES } from "../utils/traits.js";
+import {
+    MAX_LEVEL, paramCurvesSchema, applyParamCurves, createParamCurves, expForLevel,
+} from "../utils/classCurves.js";
+
+// EXP curve fields map to expParams [base, extra, acceleration A, acceleration B]
+const expCurveFields = {
+    expBase: z.number().int().min(10).max(50).describe("EXP curve base value"),
+    expExtra: z.number().int().min(0).max(40).describe("EXP curve extra value"),
+    expAccel: z.number().int().min(10).max(50).describe("EXP curve acceleration A"),
+    expAccelB: z.number().int().min(10).max(50).describe("EXP curve acceleration B"),
+};
 
 const createClassSchema = z.object({
     name: z.string().describe("Class name"),
-    expBase: z.number().int().min(10).default(30).describe("EXP Base (Curve)"),
-    expAccel: z.number().int().min(10).default(30).describe("EXP Acceleration (Curve)"),
-    maxHp: z.number().int().min(1).default(450).describe("Base Max HP at Level 1"),
-    maxMp: z.number().int().min(0).default(90).describe("Base Max MP at Level 1"),
-    atk: z.number().int().min(1).default(16).describe("Base ATK at Level 1"),
-    def: z.number().int().min(1).default(16).describe("Base DEF at Level 1"),
+    expBase: expCurveFields.expBase.default(30),
+    expExtra: expCurveFields.expExtra.default(20),
+    expAccel: expCurveFields.expAccel.default(30),
+    expAccelB: expCurveFields.expAccelB.default(30),
+    ...paramCurvesSchema.shape,
 });
 
 const updateClassSchema = z.object({
     id: z.number().int().min(1).describe("Class ID to update"),
     name: z.string().optional(),
+    expBase: expCurveFields.expBase.optional(),
+    expExtra: expCurveFields.expExtra.optional(),
+    expAccel: expCurveFields.expAccel.optional(),
+    expAccelB: expCurveFields.expAccelB.optional(),
+    ...paramCurvesSchema.shape,
+});
+
+const addLearningSchema = z.object({
+    classId: z.number().int().min(1).describe("Class ID"),
+    level: z.number().int().min(1).max(MAX_LEVEL).describe("Level at which the skill is learned"),
+    skillId: z.number().int().min(1).describe("Skill ID"),
+    note: z.string().default("").describe("Learning note"),
+});
+
+const removeLearningSchema = z.object({
+    classId: z.number().int().min(1).describe("Class ID"),
+    skillId: z.number().int().min(1).describe("Skill ID"),
+    level: z.number().int().min(1).max(MAX_LEVEL).optional().describe("Only remove the learning at this level"),
+});
+
+const classTableSchema = z.object({
+    classId: z.number().int().min(1).describe("Class ID"),
+    fromLevel: z.number().int().min(1).max(MAX_LEVEL).default(1).describe("First level"),
+    toLevel: z.number().int().min(1).max(MAX_LEVEL).default(MAX_LEVEL).describe("Last level"),
+    step: z.number().int().min(1).max(MAX_LEVEL).default(1).describe("Show every Nth level (the last level is always shown)"),
+});
+
+const deleteClassSchema = z.object({
+    id: z.number().int().min(1).describe("Class ID to delete"),
+    force: z.boolean().default(false).describe("Delete even if other data still references this class"),
 });
 
 function createDefaultClass(id: number): RPGClass {
@@ -28,18 +71,8 @@ function createDefaultClass(id: number): RPGClass {
         id,
         name: "",
         expParams: [30, 20, 30, 30],
-        params: [
-            // Level 1 to 99 curves for: HP, MP, ATK, DEF, MAT, MDF, AGI, LUK
-            // We usually just set curve parameters but here we'll simplify initialization
-            new Array(100).fill(100),
-            new Array(100).fill(100),
-            new Array(100).fill(10),
-            new Array(100).fill(10),
-            new Array(100).fill(10),
-            new Array(100).fill(10),
-            new Array(100).fill(10),
-            new Array(100).fill(10)
-        ],
+        // Level 0 to 99 curves for: HP, MP, ATK, DEF, MAT, MDF, AGI, LUK
+        params: createParamCurves(),
         learnings: [],
         traits: [],
         note: "",
@@ -78,19 +111,19 @@ export function registerClassTools(server: McpServer, fileHandler: FileHandler,
     // create_class - Create a new class
     server.tool(
         "create_class",
-        "Create a new class in the database",
+        "Create a new class in the database with EXP and parameter curves (each parameter: a level 1 value, or level 1/level 99 values and a growth type)",
         createClassSchema.shape,
         async (args) => {
             try {
-                const { name, expBase, expAccel } = args;
+                const { name, expBase, expExtra, expAccel, expAccelB, ...curves } = args;
 
                 const classes = await fileHandler.readJson<(RPGClass | null)[]>("data/Classes.json");
                 const newId = classes.length;
 
                 const newClass = createDefaultClass(newId);
                 newClass.name = name;
-                newClass.expParams[0] = expBase;
-                newClass.expParams[1] = expAccel;
+                newClass.expParams = [expBase, expExtra, expAccel, expAccelB];
+                newClass.params = createParamCurves(curves);
 
                 classes.push(newClass);
                 await safeWriter.writeToDatabase("Classes.json", classes);
@@ -110,11 +143,11 @@ export function registerClassTools(server: McpServer, fileHandler: FileHandler,
     // update_class - Update an existing class
     server.tool(
         "update_class",
-        "Update an existing class's name",
+        "Update an existing class's name, EXP curve or parameter curves",
         updateClassSchema.shape,
         async (args) => {
             try {
-                const { id, name } = args;
+                const { id, name, expBase, expExtra, expAccel, expAccelB, ...curves } = args;
 
                 const classes = await fileHandler.readJson<(RPGClass | null)[]>("data/Classes.json");
 
@@ -128,6 +161,11 @@ export function registerClassTools(server: McpServer, fileHandler: FileHandler,
                 const rpgClass = classes[id]!;
 
                 if (name !== undefined) rpgClass.name = name;
+                if (expBase !== undefined) rpgClass.expParams[0] = expBase;
+                if (expExtra !== undefined) rpgClass.expParams[1] = expExtra;
+                if (expAccel !== undefined) rpgClass.expParams[2] = expAccel;
+                if (expAccelB !== undefined) rpgClass.expParams[3] = expAccelB;
+                applyParamCurves(rpgClass, curves);
 
                 await safeWriter.writeToDatabase("Classes.json", classes);
 
@@ -142,4 +180,215 @@ export function registerClassTools(server: McpServer, fileHandler: FileHandler,
             }
         }
     );
+
+    // delete_class - Clear a class entry
+    server.tool(
+        "delete_class",
+        "Delete a class by clearing its entry like the editor does (the ID stays in place). Refuses while other data references it unless force is set",
+        deleteClassSchema.shape,
+        async (args) => {
+            try {
+                const { id, force } = args;
+
+                const classes = await fileHandler.readJson<(RPGClass | null)[]>("data/Classes.json");
+
+                if (id >= classes.length || !classes[id]) {
+                    return {
+                        content: [{ type: "text" as const, text: `Error: Class with ID ${id} not found` }],
+                        isError: true,
+                    };
+                }
+
+                const name = classes[id]!.name;
+                const references = await findReferences(fileHandler, "classes", id);
+                if (references.length > 0 && !force) {
+                    return {
+                        content: [{
+                            type: "text" as const,
+                            text: `Error: Class ${id} "${name}" is referenced in ${references.length} place(s):\n${formatReferences(references)}\nRemove these references or pass force to delete anyway`,
+                        }],
+                        isError: true,
+                    };
+                }
+
+                classes[id] = createDefaultClass(id);
+                await safeWriter.writeToDatabase("Classes.json", classes);
+
+                const dangling = references.length > 0
+                    ? `\nThese references now point at an empty entry:\n${formatReferences(references)}`
+                    : "";
+                return {
+                    content: [{ type: "text" as const, text: `Deleted class ${id} "${name}"${dangling}` }],
+                };
+            } catch (error) {
+                return {
+                    content: [{ type: "text" as const, text: `Error: ${error}` }],
+                    isError: true,
+                };
+            }
+        }
+    );
+
+    // add_class_learning - Teach a skill at a level
+    server.tool(
+        "add_class_learning",
+        "Add a skill the class learns at a given level",
+        addLearningSchema.shape,
+        async (args) => {
+            try {
+                const { classId, level, skillId, note } = args;
+
+                const classes = await fileHandler.readJson<(RPGClass | null)[]>("data/Classes.json");
+
+                if (classId >= classes.length || !classes[classId]) {
+                    return {
+                        content: [{ type: "text" as const, text: `Error: Class ID ${classId} not found` }],
+                        isError: true,
+                    };
+                }
+
+                const skills = await fileHandler.readJson<(RPGSkill | null)[]>("data/Skills.json");
+                if (skillId >= skills.length || !skills[skillId]) {
+                    return {
+                        content: [{ type: "text" as const, text: `Error: Skill ID ${skillId} not found` }],
+                        isError: true,
+                    };
+                }
+
+                const rpgClass = classes[classId]!;
+                if (rpgClass.learnings.some((l) => l.skillId === skillId && l.level === level)) {
+                    return {
+                        content: [{ type: "text" as const, text: `Error: Class "${rpgClass.name}" already learns skill ${skillId} at level ${level}` }],
+                        isError: true,
+                    };
+                }
+
+                rpgClass.learnings.push({ level, skillId, note });
+                rpgClass.learnings.sort((a, b) => a.level - b.level);
+
+                await safeWriter.writeToDatabase("Classes.json", classes);
+
+                return {
+                    content: [{ type: "text" as const, text: `Class "${rpgClass.name}" now learns "${skills[skillId]!.name}" at level ${level}` }],
+                };
+            } catch (error) {
+                return {
+                    content: [{ type: "text" as const, text: `Error: ${error}` }],
+                    isError: true,
+                };
+            }
+        }
+    );
+
+    // remove_class_learning - Stop teaching a skill
+    server.tool(
+        "remove_class_learning",
+        "Remove a skill learning from a class (all levels, or only the given level)",
+        removeLearningSchema.shape,
+        async (args) => {
+            try {
+                const { classId, skillId, level } = args;
+
+                const classes = await fileHandler.readJson<(RPGClass | null)[]>("data/Classes.json");
+
+                if (classId >= classes.length || !classes[classId]) {
+                    return {
+                        content: [{ type: "text" as const, text: `Error: Class ID ${classId} not found` }],
+                        isError: true,
+                    };
+                }
+
+                const rpgClass = classes[classId]!;
+                const matches = (l: RPGClass["learnings"][number]) => l.skillId === skillId && (level === undefined || l.level === level);
+                const removed = rpgClass.learnings.filter(matches);
+
+                if (removed.length === 0) {
+                    return {
+                        content: [{ type: "text" as const, text: `Error: Class "${rpgClass.name}" does not learn skill ${skillId}${level !== undefined ? ` at level ${level}` : ""}` }],
+                        isError: true,
+                    };
+                }
+
+                rpgClass.learnings = rpgClass.learnings.filter((l) => !matches(l));
+                await safeWriter.writeToDatabase("Classes.json", classes);
+
+                return {
+                    content: [{ type: "text" as const, text: `Removed skill ${skillId} from class "${rpgClass.name}" (level ${removed.map((l) => l.level).join(", ")})` }],
+                };
+            } catch (error) {
+                return {
+                    content: [{ type: "text" as const, text: `Error: ${error}` }],
+                    isError: true,
+                };
+            }
+        }
+    );
+
+    // get_class_table - Parameters and EXP by level
+    server.tool(
+        "get_class_table",
+        "Print a level table for a class: parameters, total EXP and EXP to next level (from expParams, using the engine's formula), plus skills learned",
+        classTableSchema.shape,
+        async (args) => {
+            try {
+                const { classId, fromLevel, toLevel, step } = args;
+
+                if (fromLevel > toLevel) {
+                    return {
+                        content: [{ type: "text" as const, text: `Error: fromLevel ${fromLevel} is greater than toLevel ${toLevel}` }],
+                        isError: true,
+                    };
+                }
+
+                const classes = await fileHandler.readJson<(RPGClass | null)[]>("data/Classes.json");
+
+                if (classId >= classes.length || !classes[classId]) {
+                    return {
+                        content: [{ type: "text" as const, text: `Error: Class ID ${classId} not found` }],
+                        isError: true,
+                    };
+                }
+
+                const rpgClass = classes[classId]!;
+                const skills = await fileHandler.readJson<(RPGSkill | null)[]>("data/Skills.json");
+
+                const levels: number[] = [];
+                for (let level = fromLevel; level <= toLevel; level += step) {
+                    levels.push(level);
+                }
+                if (levels[levels.length - 1] !== toLevel) {
+                    levels.push(toLevel);
+                }
+
+                const header = ["Lv", ...PARAM_NAMES, "totalExp", "nextExp"];
+                const rows = levels.map((level) => {
+                    const total = expForLevel(rpgClass.expParams, level);
+                    const next = level < MAX_LEVEL ? expForLevel(rpgClass.expParams, level + 1) - total : 0;
+                    return [level, ...PARAM_NAMES.map((_, paramId) => rpgClass.params[paramId]?.[level] ?? 0), total, next].map(String);
+                });
+                const widths = header.map((h, col) => Math.max(h.length, ...rows.map((r) => r[col].length)));
+                const formatRow = (cells: string[]) => cells.map((cell, col) => cell.padStart(widths[col])).join("  ");
+
+                const learnings = rpgClass.learnings
+                    .filter((l) => l.level >= fromLevel && l.level <= toLevel)
+                    .map((l) => `Lv ${l.level}: ${skills[l.skillId]?.name || `#${l.skillId}`} (${l.skillId})`);
+
+                const text = [
+                    `Class ${classId} "${rpgClass.name}" (expParams ${rpgClass.expParams.join(", ")})`,
+                    formatRow(header),
+                    ...rows.map(formatRow),
+                    ...(learnings.length > 0 ? ["", "Skills learned:", ...learnings] : []),
+                ].join("\n");
+
+                return {
+                    content: [{ type: "text" as const, text }],
+                };
+            } catch (error) {
+                return {
+                    content: [{ type: "text" as const, text: `Error: ${error}` }],
+                    isError: true,
+                };
+            }
+        }
+    );
 }
@@ -0,0 +1,194 @@
+/**
+ * Common Event Tools - get_common_events, get_common_event, create_common_event, update_common_event
+ */
+
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { FileHandler } from "../utils/fileHandler.js";
+import { SafeWriter } from "../utils/safeWriter.js";
+import type { RPGCommonEvent, RPGSystem } from "../utils/types.js";
+import { typeRefSchema, resolveTypeId } from "../utils/typeRegistry.js";
+import { eventCommandSpecSchema, compileCommandList } from "../utils/eventCommands.js";
+import { eventCommandSchema, terminateCommandList } from "./eventTools.js";
+
+const getCommonEventSchema = z.object({
+    id: z.number().int().min(1).describe("Common event ID"),
+});
+
+const createCommonEventSchema = z.object({
+    name: z.string().describe("Common event name"),
+    trigger: z.number().int().min(0).max(2).default(0).describe("Trigger: 0=None (called), 1=Autorun, 2=Parallel"),
+    switchId: typeRefSchema.default(1).describe("Condition switch ID or name for Autorun/Parallel triggers"),
+    commands: z.array(eventCommandSpecSchema).optional().describe("High-level commands compiled to the command list"),
+    list: z.array(eventCommandSchema).optional().describe("Raw event commands; ignored when commands is given"),
+});
+
+const updateCommonEventSchema = z.object({
+    id: z.number().int().min(1).describe("Common event ID to update"),
+    name: z.string().optional(),
+    trigger: z.number().int().min(0).max(2).optional().describe("Trigger: 0=None (called), 1=Autorun, 2=Parallel"),
+    switchId: typeRefSchema.optional().describe("Condition switch ID or name"),
+    commands: z.array(eventCommandSpecSchema).optional().describe("Replace the command list with compiled high-level commands"),
+    list: z.array(eventCommandSchema).optional().describe("Replace the command list with raw commands; ignored when commands is given"),
+});
+
+function createDefaultCommonEvent(id: number): RPGCommonEvent {
+    return {
+        id,
+        list: [{ code: 0, indent: 0, parameters: [] }],
+        name: "",
+        switchId: 1,
+        trigger: 0,
+    };
+}
+
+export function registerCommonEventTools(server: McpServer, fileHandler: FileHandler, safeWriter: SafeWriter) {
+    // get_common_events - List all common events
+    server.tool(
+        "get_common_events",
+        "Get all common events from the database",
+        {},
+        async () => {
+            try {
+                const commonEvents = await fileHandler.readJson<(RPGCommonEvent | null)[]>("data/CommonEvents.json");
+                const triggerNames = ["none", "autorun", "parallel"];
+                const commonEventList = commonEvents
+                    .filter((c): c is RPGCommonEvent => c !== null && c.name !== "")
+                    .map((c) => ({
+                        id: c.id,
+                        name: c.name,
+                        trigger: triggerNames[c.trigger] ?? c.trigger,
+                        switchId: c.trigger > 0 ? c.switchId : undefined,
+                        commandCount: c.list.length - 1, // Exclude the terminator
+                    }));
+
+                return {
+                    content: [{ type: "text" as const, text: JSON.stringify(commonEventList, null, 2) }],
+                };
+            } catch (error) {
+                return {
+                    content: [{ type: "text" as const, text: `Error: ${error}` }],
+                    isError: true,
+                };
+            }
+        }
+    );
+
+    // get_common_event - Get a single common event with its command list
+    server.tool(
+        "get_common_event",
+        "Get a common event including its full command list",
+        getCommonEventSchema.shape,
+        async (args) => {
+            try {
+                const { id } = args;
+
+                const commonEvents = await fileHandler.readJson<(RPGCommonEvent | null)[]>("data/CommonEvents.json");
+
+                if (id >= commonEvents.length || !commonEvents[id]) {
+                    return {
+                        content: [{ type: "text" as const, text: `Error: Common event ID ${id} not found` }],
+                        isError: true,
+                    };
+                }
+
+                return {
+                    content: [{ type: "text" as const, text: JSON.stringify(commonEvents[id], null, 2) }],
+                };
+            } catch (error) {
+                return {
+                    content: [{ type: "text" as const, text: `Error: ${error}` }],
+                    isError: true,
+                };
+            }
+        }
+    );
+
+    // create_common_event - Create a new common event
+    server.tool(
+        "create_common_event",
+        "Create a new common event (callable from items, skills and events, or run automatically by switch)",
+        createCommonEventSchema.shape,
+        async (args) => {
+            try {
+                const { name, trigger, switchId, commands, list } = args;
+
+                const system = await fileHandler.readJson<RPGSystem>("data/System.json");
+                const resolvedSwitchId = resolveTypeId(system, "switches", switchId);
+
+                const commonEvents = await fileHandler.readJson<(RPGCommonEvent | null)[]>("data/CommonEvents.json");
+                const newId = commonEvents.length;
+
+                const newCommonEvent = createDefaultCommonEvent(newId);
+                newCommonEvent.name = name;
+                newCommonEvent.trigger = trigger;
+                newCommonEvent.switchId = resolvedSwitchId || 1;
+
+                if (commands) {
+                    newCommonEvent.list = compileCommandList(commands);
+                } else if (list) {
+                    newCommonEvent.list = terminateCommandList([...list]);
+                }
+
+                commonEvents.push(newCommonEvent);
+                await safeWriter.writeToDatabase("CommonEvents.json", commonEvents);
+
+                return {
+                    content: [{ type: "text" as const, text: `Created common event "${name}" with ID ${newId}` }],
+                };
+            } catch (error) {
+                return {
+                    content: [{ type: "text" as const, text: `Error: ${error}` }],
+                    isError: true,
+                };
+            }
+        }
+    );
+
+    // update_common_event - Update an existing common event
+    server.tool(
+        "update_common_event",
+        "Update an existing common event's name, trigger, switch or command list",
+        updateCommonEventSchema.shape,
+        async (args) => {
+            try {
+                const { id, name, trigger, switchId, commands, list } = args;
+
+                const commonEvents = await fileHandler.readJson<(RPGCommonEvent | null)[]>("data/CommonEvents.json");
+
+                if (id >= commonEvents.length || !commonEvents[id]) {
+                    return {
+                        content: [{ type: "text" as const, text: `Error: Common event ID ${id} not found` }],
+                        isError: true,
+                    };
+                }
+
+                const commonEvent = commonEvents[id]!;
+
+                if (name !== undefined) commonEvent.name = name;
+                if (trigger !== undefined) commonEvent.trigger = trigger;
+                if (switchId !== undefined) {
+                    const system = await fileHandler.readJson<RPGSystem>("data/System.json");
+                    commonEvent.switchId = resolveTypeId(system, "switches", switchId) || 1;
+                }
+
+                if (commands !== undefined) {
+                    commonEvent.list = compileCommandList(commands);
+                } else if (list !== undefined) {
+                    commonEvent.list = terminateCommandList([...list]);
+                }
+
+                await safeWriter.writeToDatabase("CommonEvents.json", commonEvents);
+
+                return {
+                    content: [{ type: "text" as const, text: `Updated common event "${commonEvent.name}" (ID ${id})` }],
+                };
+            } catch (error) {
+                return {
+                    content: [{ type: "text" as const, text: `Error: ${error}` }],
+                    isError: true,
+                };
+            }
+        }
+    );
+}
@@ -1,12 +1,75 @@
 /**
- * Database Tools - get_database_info
+ * Database Tools - get_database_info, get_entity, get_entities, query_database
  * 
  * Note: get_actors and get_classes have been moved to their respective tool files.
  */
 
+import { z } from "zod";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { FileHandler } from "../utils/fileHandler.js";
 import type { RPGActor, RPGClass, RPGItem, RPGSkill, RPGWeapon, RPGArmor, RPGEnemy, RPGState } from "../utils/types.js";
+import { databaseFiles, databaseNameSchema } from "./limitTools.js";
+import { pickFields } from "../utils/fieldPaths.js";
+import { filterSchema, sortSchema, matchesFilter, compareByField, filterFields } from "../utils/query.js";
+
+// Most entries a single get_entities call returns
+const MAX_BATCH = 200;
+
+const fieldsSchema = z.array(z.string().min(1)).min(1).optional()
+    .describe("Only return these fields; dotted paths reach nested values (e.g. [\"name\", \"damage.formula\", \"params.2\"])");
+
+const getEntitySchema = z.object({
+    database: databaseNameSchema.describe("Database to read"),
+    id: z.number().int().min(1).describe("Entry ID"),
+    fields: fieldsSchema,
+});
+
+const getEntitiesSchema = z.object({
+    database: databaseNameSchema.describe("Database to read"),
+    ids: z.array(z.union([
+        z.number().int().min(1),
+        z.string().regex(/^\d+-\d+$/, "Use a range like \"1-20\""),
+    ])).min(1).describe("Entry IDs and inclusive ranges, e.g. [1, 4, \"10-20\"]"),
+    fields: fieldsSchema,
+    includeEmpty: z.boolean().default(false).describe("Also return cleared entries (empty name)"),
+});
+
+const queryDatabaseSchema = z.object({
+    database: databaseNameSchema.describe("Database to search"),
+    filters: z.array(filterSchema).default([]).describe(
+        "Filters that must all match, e.g. [{ type: \"compare\", field: \"params.2\", op: \">\", value: 50 }, " +
+        "{ type: \"trait\", code: \"ElementRate\", dataId: 2 }, { type: \"noteTag\", tag: \"boss\" }]"
+    ),
+    sort: sortSchema.optional().describe("Sort order (default: by ID)"),
+    fields: fieldsSchema.describe("Fields to return (default: id, name and the fields used by filters and sort)"),
+    offset: z.number().int().min(0).default(0).describe("Number of matches to skip"),
+    limit: z.number().int().min(1).max(MAX_BATCH).default(50).describe("Most matches to return"),
+    includeEmpty: z.boolean().default(false).describe("Also search cleared entries (empty name)"),
+});
+
+/**
+ * Expand IDs and "from-to" ranges into a sorted list without duplicates
+ */
+function expandIds(ids: (number | string)[]): number[] {
+    const result = new Set<number>();
+    for (const id of ids) {
+        if (typeof id === "number") {
+            result.add(id);
+            continue;
+        }
+        const [from, to] = id.split("-").map(Number);
+        if (from < 1 || to < from) {
+            throw new Error(`Invalid ID range "${id}"`);
+        }
+        if (to - from + 1 > MAX_BATCH) {
+            throw new Error(`ID range "${id}" is larger than ${MAX_BATCH} entries`);
+        }
+        for (let n = from; n <= to; n++) {
+            result.add(n);
+        }
+    }
+    return [...result].sort((a, b) => a - b);
+}
 
 export function registerDatabaseTools(server: McpServer, fileHandler: FileHandler) {
     // get_database_info - Get summary of all database contents
@@ -52,4 +115,149 @@ export function registerDatabaseTools(server: McpServer, fileHandler: FileHandle
             }
         }
     );
+
+    // get_entity - Full record of one database entry
+    server.tool(
+        "get_entity",
+        "Get the full record of a database entry (damage, effects, traits, params, note...), or only the given fields",
+        getEntitySchema.shape,
+        async (args) => {
+            try {
+                const { database, id, fields } = args;
+                const entries = await fileHandler.readJson<(Record<string, unknown> | null)[]>(`data/${databaseFiles[database]}`);
+
+                if (id >= entries.length || !entries[id]) {
+                    return {
+                        content: [{ type: "text" as const, text: `Error: ${database} entry with ID ${id} not found` }],
+                        isError: true,
+                    };
+                }
+
+                const entry = entries[id]!;
+                if (!fields) {
+                    return {
+                        content: [{ type: "text" as const, text: JSON.stringify(entry, null, 2) }],
+                    };
+                }
+
+                const { picked, missing } = pickFields(entry, fields);
+                if (missing.length > 0) {
+                    return {
+                        content: [{
+                            type: "text" as const,
+                            text: `Error: Unknown field(s): ${missing.join(", ")}\nFields of this entry: ${Object.keys(entry).join(", ")}`,
+                        }],
+                        isError: true,
+                    };
+                }
+
+                return {
+                    content: [{ type: "text" as const, text: JSON.stringify({ id, ...picked }, null, 2) }],
+                };
+            } catch (error) {
+                return {
+                    content: [{ type: "text" as const, text: `Error: ${error}` }],
+                    isError: true,
+                };
+            }
+        }
+    );
+
+    // get_entities - Full records of several entries by ID and range
+    server.tool(
+        "get_entities",
+        `Get full records (or selected fields) of several database entries by IDs and ranges like "1-20" (up to ${MAX_BATCH} entries)`,
+        getEntitiesSchema.shape,
+        async (args) => {
+            try {
+                const { database, ids, fields, includeEmpty } = args;
+                const wanted = expandIds(ids);
+
+                if (wanted.length > MAX_BATCH) {
+                    return {
+                        content: [{ type: "text" as const, text: `Error: ${wanted.length} IDs requested; the limit is ${MAX_BATCH} per call` }],
+                        isError: true,
+                    };
+                }
+
+                const entries = await fileHandler.readJson<(Record<string, unknown> | null)[]>(`data/${databaseFiles[database]}`);
+
+                const results: Record<string, unknown>[] = [];
+                const notFound: number[] = [];
+                const unknownFields = new Set(fields ?? []);
+                for (const id of wanted) {
+                    const entry = id < entries.length ? entries[id] : null;
+                    if (!entry || (!includeEmpty && entry.name === "")) {
+                        notFound.push(id);
+                        continue;
+                    }
+                    if (!fields) {
+                        results.push(entry);
+                        continue;
+                    }
+                    const { picked, missing } = pickFields(entry, fields);
+                    for (const field of fields) {
+                        if (!missing.includes(field)) unknownFields.delete(field);
+                    }
+                    results.push({ id, ...picked });
+                }
+
+                const result: Record<string, unknown> = { database, entries: results };
+                if (notFound.length > 0) result.notFound = notFound;
+                // Only fields no returned entry has; optional fields may be absent on some entries
+                if (results.length > 0 && unknownFields.size > 0) result.unknownFields = [...unknownFields];
+
+                return {
+                    content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
+                };
+            } catch (error) {
+                return {
+                    content: [{ type: "text" as const, text: `Error: ${error}` }],
+                    isError: true,
+                };
+            }
+        }
+    );
+
+    // query_database - Search entries with filters, sorting and paging
+    server.tool(
+        "query_database",
+        "Search a database with filters (field comparisons, contains, trait/effect matchers, note tags), sorting and pagination",
+        queryDatabaseSchema.shape,
+        async (args) => {
+            try {
+                const { database, filters, sort, fields, offset, limit, includeEmpty } = args;
+                const entries = await fileHandler.readJson<(Record<string, unknown> | null)[]>(`data/${databaseFiles[database]}`);
+
+                const matches = entries
+                    .filter((e): e is Record<string, unknown> => e !== null && (includeEmpty || e.name !== ""))
+                    .filter((e) => filters.every((filter) => matchesFilter(e, filter)));
+                if (sort) {
+                    matches.sort((a, b) => compareByField(a, b, sort));
+                }
+
+                const shown = fields ?? [...new Set(["id", "name", ...filters.flatMap(filterFields), ...(sort ? [sort.field] : [])])];
+                const results = matches
+                    .slice(offset, offset + limit)
+                    .map((e) => ({ id: e.id, ...pickFields(e, shown).picked }));
+
+                const result = {
+                    database,
+                    total: matches.length,
+                    offset,
+                    results,
+                    ...(offset + limit < matches.length ? { nextOffset: offset + limit } : {}),
+                };
+
+                return {
+                    content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
+                };
+            } catch (error) {
+                return {
+                    content: [{ type: "text" as const, text: `Error: ${error}` }],
+                    isError: true,
+                };
+            }
+        }
+    );
 }
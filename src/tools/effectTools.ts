@@ -0,0 +1,159 @@
+/**
+ * Effect Tools - list_effects, add_effect, remove_effect
+ */
+
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { FileHandler } from "../utils/fileHandler.js";
+import { SafeWriter } from "../utils/safeWriter.js";
+import type { RPGEffect } from "../utils/types.js";
+import { effectSchema, encodeEffect, loadEffectNames, describeEffect } from "../utils/effects.js";
+
+const effectDatabases = {
+    items: { file: "Items.json", label: "Item" },
+    skills: { file: "Skills.json", label: "Skill" },
+} as const;
+
+const databaseSchema = z.enum(["items", "skills"]).describe("Database holding the entry");
+
+const listEffectsSchema = z.object({
+    database: databaseSchema,
+    id: z.number().int().min(1).describe("Entry ID"),
+});
+
+const addEffectSchema = z.object({
+    database: databaseSchema,
+    id: z.number().int().min(1).describe("Entry ID"),
+    effect: effectSchema.describe("Effect to add; percentages in percent (e.g. { type: \"recoverHp\", percent: 25, fixed: 50 })"),
+});
+
+const removeEffectSchema = z.object({
+    database: databaseSchema,
+    id: z.number().int().min(1).describe("Entry ID"),
+    index: z.number().int().min(0).describe("Index of the effect as shown by list_effects"),
+});
+
+interface EffectEntity {
+    id: number;
+    name: string;
+    effects: RPGEffect[];
+}
+
+export function registerEffectTools(server: McpServer, fileHandler: FileHandler, safeWriter: SafeWriter) {
+    // list_effects - Show the effects of an item or skill
+    server.tool(
+        "list_effects",
+        "List the effects of an item or skill with readable descriptions",
+        listEffectsSchema.shape,
+        async (args) => {
+            try {
+                const { database, id } = args;
+                const { file, label } = effectDatabases[database];
+                const entries = await fileHandler.readJson<(EffectEntity | null)[]>(`data/${file}`);
+
+                if (id >= entries.length || !entries[id]) {
+                    return {
+                        content: [{ type: "text" as const, text: `Error: ${label} with ID ${id} not found` }],
+                        isError: true,
+                    };
+                }
+
+                const entity = entries[id]!;
+                const names = await loadEffectNames(fileHandler);
+                const effects = entity.effects.map((effect, index) => ({
+                    index,
+                    description: describeEffect(effect, names),
+                    ...effect,
+                }));
+
+                return {
+                    content: [{ type: "text" as const, text: JSON.stringify({ id, name: entity.name, effects }, null, 2) }],
+                };
+            } catch (error) {
+                return {
+                    content: [{ type: "text" as const, text: `Error: ${error}` }],
+                    isError: true,
+                };
+            }
+        }
+    );
+
+    // add_effect - Append an effect to an item or skill
+    server.tool(
+        "add_effect",
+        "Add an effect (recover HP/MP, gain TP, add/remove state, buffs/debuffs, escape, grow, learn skill, common event) to an item or skill",
+        addEffectSchema.shape,
+        async (args) => {
+            try {
+                const { database, id, effect } = args;
+                const { file, label } = effectDatabases[database];
+                const entries = await fileHandler.readJson<(EffectEntity | null)[]>(`data/${file}`);
+
+                if (id >= entries.length || !entries[id]) {
+                    return {
+                        content: [{ type: "text" as const, text: `Error: ${label} with ID ${id} not found` }],
+                        isError: true,
+                    };
+                }
+
+                const entity = entries[id]!;
+                const newEffect = await encodeEffect(fileHandler, effect);
+                entity.effects.push(newEffect);
+
+                await safeWriter.writeToDatabase(file, entries);
+
+                const description = describeEffect(newEffect, await loadEffectNames(fileHandler));
+                return {
+                    content: [{ type: "text" as const, text: `Added effect "${description}" to ${label.toLowerCase()} ${id} "${entity.name}" at index ${entity.effects.length - 1}` }],
+                };
+            } catch (error) {
+                return {
+                    content: [{ type: "text" as const, text: `Error: ${error}` }],
+                    isError: true,
+                };
+            }
+        }
+    );
+
+    // remove_effect - Remove an effect by index
+    server.tool(
+        "remove_effect",
+        "Remove an effect from an item or skill by its index in list_effects",
+        removeEffectSchema.shape,
+        async (args) => {
+            try {
+                const { database, id, index } = args;
+                const { file, label } = effectDatabases[database];
+                const entries = await fileHandler.readJson<(EffectEntity | null)[]>(`data/${file}`);
+
+                if (id >= entries.length || !entries[id]) {
+                    return {
+                        content: [{ type: "text" as const, text: `Error: ${label} with ID ${id} not found` }],
+                        isError: true,
+                    };
+                }
+
+                const entity = entries[id]!;
+                if (index >= entity.effects.length) {
+                    return {
+                        content: [{ type: "text" as const, text: `Error: ${label} ${id} has ${entity.effects.length} effect(s); no index ${index}` }],
+                        isError: true,
+                    };
+                }
+
+                const [removed] = entity.effects.splice(index, 1);
+                await safeWriter.writeToDatabase(file, entries);
+
+                const description = describeEffect(removed, await loadEffectNames(fileHandler));
+                return {
+                    content: [{ type: "text" as const, text: `Removed effect "${description}" from ${label.toLowerCase()} ${id} "${entity.name}"` }],
+                };
+            } catch (error) {
+                return {
+                    content: [{ type: "text" as const, text: `Error: ${error}` }],
+                    isError: true,
+                };
+            }
+        }
+    );
+}
@@ -1,5 +1,7 @@
 /**
- * Enemy Tools - create_enemy, get_enemies, update_enemy
+ * Enemy Tools - create_enemy, get_enemies, update_enemy, delete_enemy,
+ *               list_enemy_actions, add_enemy_action, remove_enemy_action,
+ *               set_enemy_drops
  */
 
 import { z } from "zod";
@@ -7,6 +9,11 @@ import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { FileHandler } from "../utils/fileHandler.js";
 import { SafeWriter } from "../utils/safeWriter.js";
 import { RPGEnemy } from "../utils/types.js";
+import { findReferences, formatReferences } from "../utils/references.js";
+import {
+    DROP_SLOTS, actionConditionSchema, dropSchema, encodeAction, encodeDrop,
+    loadEnemyActionNames, describeAction, describeDrop,
+} from "../utils/enemyActions.js";
 
 const createEnemySchema = z.object({
     name: z.string().describe("Enemy name"),
@@ -34,6 +41,32 @@ const updateEnemySchema = z.object({
     battlerName: z.string().optional(),
 });
 
+const deleteEnemySchema = z.object({
+    id: z.number().int().min(1).describe("Enemy ID to delete"),
+    force: z.boolean().default(false).describe("Delete even if other data still references this enemy"),
+});
+
+const listEnemyActionsSchema = z.object({
+    enemyId: z.number().int().min(1).describe("Enemy ID"),
+});
+
+const addEnemyActionSchema = z.object({
+    enemyId: z.number().int().min(1).describe("Enemy ID"),
+    skillId: z.number().int().min(1).describe("Skill the enemy uses"),
+    rating: z.number().int().min(1).max(9).default(5).describe("Rating (1-9); actions within 2 of the highest usable rating are picked"),
+    condition: actionConditionSchema.default({ type: "always" }).describe("When the action can be used (e.g. { type: \"hp\", maxPercent: 50 })"),
+});
+
+const removeEnemyActionSchema = z.object({
+    enemyId: z.number().int().min(1).describe("Enemy ID"),
+    index: z.number().int().min(0).describe("Index of the action as shown by list_enemy_actions"),
+});
+
+const setEnemyDropsSchema = z.object({
+    enemyId: z.number().int().min(1).describe("Enemy ID"),
+    drops: z.array(dropSchema).max(DROP_SLOTS).describe("Up to three drops; remaining slots are cleared (an empty list removes all drops)"),
+});
+
 function createDefaultEnemy(id: number): RPGEnemy {
     return {
         id,
@@ -114,6 +147,8 @@ export function registerEnemyTools(server: McpServer, fileHandler: FileHandler,
                 newEnemy.gold = gold;
                 if (battlerName) newEnemy.battlerName = battlerName;
                 newEnemy.battlerHue = battlerHue;
+                // Like a new enemy in the editor: always use skill 1 (Attack)
+                newEnemy.actions = [{ conditionParam1: 0, conditionParam2: 0, conditionType: 0, rating: 5, skillId: 1 }];
 
                 enemies.push(newEnemy);
                 await safeWriter.writeToDatabase("Enemies.json", enemies);
@@ -170,4 +205,220 @@ export function registerEnemyTools(server: McpServer, fileHandler: FileHandler,
             }
         }
     );
+
+    // delete_enemy - Clear an enemy entry
+    server.tool(
+        "delete_enemy",
+        "Delete an enemy by clearing its entry like the editor does (the ID stays in place). Refuses while other data references it unless force is set",
+        deleteEnemySchema.shape,
+        async (args) => {
+            try {
+                const { id, force } = args;
+
+                const enemies = await fileHandler.readJson<(RPGEnemy | null)[]>("data/Enemies.json");
+
+                if (id >= enemies.length || !enemies[id]) {
+                    return {
+                        content: [{ type: "text" as const, text: `Error: Enemy with ID ${id} not found` }],
+                        isError: true,
+                    };
+                }
+
+                const name = enemies[id]!.name;
+                const references = await findReferences(fileHandler, "enemies", id);
+                if (references.length > 0 && !force) {
+                    return {
+                        content: [{
+                            type: "text" as const,
+                            text: `Error: Enemy ${id} "${name}" is referenced in ${references.length} place(s):\n${formatReferences(references)}\nRemove these references or pass force to delete anyway`,
+                        }],
+                        isError: true,
+                    };
+                }
+
+                enemies[id] = createDefaultEnemy(id);
+                await safeWriter.writeToDatabase("Enemies.json", enemies);
+
+                const dangling = references.length > 0
+                    ? `\nThese references now point at an empty entry:\n${formatReferences(references)}`
+                    : "";
+                return {
+                    content: [{ type: "text" as const, text: `Deleted enemy ${id} "${name}"${dangling}` }],
+                };
+            } catch (error) {
+                return {
+                    content: [{ type: "text" as const, text: `Error: ${error}` }],
+                    isError: true,
+                };
+            }
+        }
+    );
+
+    // list_enemy_actions - Show action patterns and drops
+    server.tool(
+        "list_enemy_actions",
+        "List an enemy's action patterns and drop items with readable descriptions",
+        listEnemyActionsSchema.shape,
+        async (args) => {
+            try {
+                const { enemyId } = args;
+
+                const enemies = await fileHandler.readJson<(RPGEnemy | null)[]>("data/Enemies.json");
+
+                if (enemyId >= enemies.length || !enemies[enemyId]) {
+                    return {
+                        content: [{ type: "text" as const, text: `Error: Enemy ID ${enemyId} not found` }],
+                        isError: true,
+                    };
+                }
+
+                const enemy = enemies[enemyId]!;
+                const names = await loadEnemyActionNames(fileHandler);
+                const actions = enemy.actions.map((action, index) => ({
+                    index,
+                    description: describeAction(action, names),
+                    ...action,
+                }));
+                const drops = enemy.dropItems.map((drop) => describeDrop(drop, names));
+
+                return {
+                    content: [{ type: "text" as const, text: JSON.stringify({ id: enemyId, name: enemy.name, actions, drops }, null, 2) }],
+                };
+            } catch (error) {
+                return {
+                    content: [{ type: "text" as const, text: `Error: ${error}` }],
+                    isError: true,
+                };
+            }
+        }
+    );
+
+    // add_enemy_action - Add an action pattern
+    server.tool(
+        "add_enemy_action",
+        "Add an action pattern (skill, rating and condition) to an enemy",
+        addEnemyActionSchema.shape,
+        async (args) => {
+            try {
+                const { enemyId, skillId, rating, condition } = args;
+
+                const enemies = await fileHandler.readJson<(RPGEnemy | null)[]>("data/Enemies.json");
+
+                if (enemyId >= enemies.length || !enemies[enemyId]) {
+                    return {
+                        content: [{ type: "text" as const, text: `Error: Enemy ID ${enemyId} not found` }],
+                        isError: true,
+                    };
+                }
+
+                const enemy = enemies[enemyId]!;
+                const action = await encodeAction(fileHandler, skillId, rating, condition);
+                enemy.actions.push(action);
+
+                await safeWriter.writeToDatabase("Enemies.json", enemies);
+
+                const names = await loadEnemyActionNames(fileHandler);
+                return {
+                    content: [{
+                        type: "text" as const,
+                        text: `Added action ${enemy.actions.length - 1} to enemy "${enemy.name}": ${describeAction(action, names)}`,
+                    }],
+                };
+            } catch (error) {
+                return {
+                    content: [{ type: "text" as const, text: `Error: ${error}` }],
+                    isError: true,
+                };
+            }
+        }
+    );
+
+    // remove_enemy_action - Remove an action pattern by index
+    server.tool(
+        "remove_enemy_action",
+        "Remove an action pattern from an enemy by its index",
+        removeEnemyActionSchema.shape,
+        async (args) => {
+            try {
+                const { enemyId, index } = args;
+
+                const enemies = await fileHandler.readJson<(RPGEnemy | null)[]>("data/Enemies.json");
+
+                if (enemyId >= enemies.length || !enemies[enemyId]) {
+                    return {
+                        content: [{ type: "text" as const, text: `Error: Enemy ID ${enemyId} not found` }],
+                        isError: true,
+                    };
+                }
+
+                const enemy = enemies[enemyId]!;
+                if (index >= enemy.actions.length) {
+                    return {
+                        content: [{ type: "text" as const, text: `Error: Enemy "${enemy.name}" has no action at index ${index} (${enemy.actions.length} action(s))` }],
+                        isError: true,
+                    };
+                }
+
+                const [removed] = enemy.actions.splice(index, 1);
+                await safeWriter.writeToDatabase("Enemies.json", enemies);
+
+                const names = await loadEnemyActionNames(fileHandler);
+                return {
+                    content: [{ type: "text" as const, text: `Removed action from enemy "${enemy.name}": ${describeAction(removed, names)}` }],
+                };
+            } catch (error) {
+                return {
+                    content: [{ type: "text" as const, text: `Error: ${error}` }],
+                    isError: true,
+                };
+            }
+        }
+    );
+
+    // set_enemy_drops - Replace the drop items
+    server.tool(
+        "set_enemy_drops",
+        "Set an enemy's drop items (up to three; each drops with a 1/denominator chance)",
+        setEnemyDropsSchema.shape,
+        async (args) => {
+            try {
+                const { enemyId, drops } = args;
+
+                const enemies = await fileHandler.readJson<(RPGEnemy | null)[]>("data/Enemies.json");
+
+                if (enemyId >= enemies.length || !enemies[enemyId]) {
+                    return {
+                        content: [{ type: "text" as const, text: `Error: Enemy ID ${enemyId} not found` }],
+                        isError: true,
+                    };
+                }
+
+                const enemy = enemies[enemyId]!;
+                const dropItems = [];
+                for (const drop of drops) {
+                    dropItems.push(await encodeDrop(fileHandler, drop));
+                }
+                // Unused slots keep the editor's empty form
+                while (dropItems.length < DROP_SLOTS) {
+                    dropItems.push({ kind: 0, dataId: 1, denominator: 1 });
+                }
+                enemy.dropItems = dropItems;
+
+                await safeWriter.writeToDatabase("Enemies.json", enemies);
+
+                const names = await loadEnemyActionNames(fileHandler);
+                return {
+                    content: [{
+                        type: "text" as const,
+                        text: `Set drops of enemy "${enemy.name}":\n${dropItems.map((drop) => `- ${describeDrop(drop, names)}`).join("\n")}`,
+                    }],
+                };
+            } catch (error) {
+                return {
+                    content: [{ type: "text" as const, text: `Error: ${error}` }],
+                    isError: true,
+                };
+            }
+        }
+    );
 }
@@ -0,0 +1,545 @@
+/**
+ * Event Tools - get_events, create_event, update_event, move_event, delete_event, compile_event_commands
+ */
+
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { FileHandler } from "../utils/fileHandler.js";
+import { SafeWriter } from "../utils/safeWriter.js";
+import type { RPGMap, RPGEvent, RPGEventPage, RPGEventCommand, RPGSystem } from "../utils/types.js";
+import { eventCommandSpecSchema, compileCommandList } from "../utils/eventCommands.js";
+import { getMapFilename } from "./mapTools.js";
+import { typeRefSchema, resolveTypeId } from "../utils/typeRegistry.js";
+
+export const eventCommandSchema = z.object({
+    code: z.number().int().describe("Event command code"),
+    indent: z.number().int().min(0).default(0).describe("Nesting level"),
+    parameters: z.array(z.unknown()).default([]).describe("Command parameters"),
+});
+
+const moveRouteSchema = z.object({
+    list: z.array(z.object({
+        code: z.number().int(),
+        parameters: z.array(z.unknown()).default([]),
+    })).default([]).describe("Move commands (terminating code 0 is appended automatically)"),
+    repeat: z.boolean().default(true),
+    skippable: z.boolean().default(false),
+    wait: z.boolean().default(false),
+});
+
+export const eventPageSchema = z.object({
+    conditions: z.object({
+        switch1Id: typeRefSchema.default(0).describe("Switch 1 ID or name (0 = unused)"),
+        switch2Id: typeRefSchema.default(0).describe("Switch 2 ID or name (0 = unused)"),
+        variableId: typeRefSchema.default(0).describe("Variable ID or name (0 = unused)"),
+        variableValue: z.number().int().default(0).describe("Variable must be >= this value"),
+        selfSwitchCh: z.enum(["A", "B", "C", "D"]).optional().describe("Self switch that must be ON"),
+        itemId: z.number().int().min(0).default(0).describe("Item the party must own (0 = unused)"),
+        actorId: z.number().int().min(0).default(0).describe("Actor that must be in the party (0 = unused)"),
+    }).default({}).describe("Page conditions"),
+    characterName: z.string().default("").describe("Character image name (img/characters)"),
+    characterIndex: z.number().int().min(0).max(7).default(0).describe("Character index in the sheet"),
+    tileId: z.number().int().min(0).default(0).describe("Tile ID used as image instead of a character"),
+    direction: z.union([z.literal(2), z.literal(4), z.literal(6), z.literal(8)]).default(2).describe("Facing: 2=Down, 4=Left, 6=Right, 8=Up"),
+    pattern: z.number().int().min(0).max(2).default(0).describe("Animation pattern"),
+    trigger: z.number().int().min(0).max(4).default(0).describe("Trigger: 0=Action Button, 1=Player Touch, 2=Event Touch, 3=Autorun, 4=Parallel"),
+    priorityType: z.number().int().min(0).max(2).default(0).describe("Priority: 0=Below characters, 1=Same as characters, 2=Above characters"),
+    moveType: z.number().int().min(0).max(3).default(0).describe("Autonomous movement: 0=Fixed, 1=Random, 2=Approach, 3=Custom"),
+    moveSpeed: z.number().int().min(1).max(6).default(3).describe("Move speed: 1=x8 Slower ... 6=x4 Faster"),
+    moveFrequency: z.number().int().min(1).max(5).default(3).describe("Move frequency: 1=Lowest ... 5=Highest"),
+    moveRoute: moveRouteSchema.optional().describe("Custom move route (used when moveType = 3)"),
+    walkAnime: z.boolean().default(true).describe("Walking animation"),
+    stepAnime: z.boolean().default(false).describe("Stepping animation"),
+    directionFix: z.boolean().default(false).describe("Direction fix"),
+    through: z.boolean().default(false).describe("Pass through"),
+    commands: z.array(eventCommandSpecSchema).optional().describe("High-level commands (showText, showChoices, conditionalBranch...) compiled to the page's command list"),
+    list: z.array(eventCommandSchema).optional().describe("Raw event commands (terminating code 0 is appended automatically); ignored when commands is given"),
+});
+
+type EventPageInput = z.infer<typeof eventPageSchema>;
+
+const getEventsSchema = z.object({
+    mapId: z.number().int().min(1).describe("Map ID"),
+    eventId: z.number().int().min(1).optional().describe("Return the full data of this event only"),
+});
+
+const createEventSchema = z.object({
+    mapId: z.number().int().min(1).describe("Map ID"),
+    name: z.string().default("").describe("Event name (defaults to EV###)"),
+    x: z.number().int().min(0).describe("X position in tiles"),
+    y: z.number().int().min(0).describe("Y position in tiles"),
+    pages: z.array(eventPageSchema).min(1).default([{}]).describe("Event pages, evaluated last to first in game"),
+    note: z.string().default("").describe("Event note"),
+});
+
+const updateEventSchema = z.object({
+    mapId: z.number().int().min(1).describe("Map ID"),
+    eventId: z.number().int().min(1).describe("Event ID to update"),
+    name: z.string().optional(),
+    note: z.string().optional(),
+    pages: z.array(eventPageSchema).min(1).optional().describe("Replace all pages"),
+    pageIndex: z.number().int().min(0).optional().describe("Index of a single page to replace (use the page count to append)"),
+    page: eventPageSchema.optional().describe("Page data for pageIndex"),
+});
+
+const compileEventCommandsSchema = z.object({
+    commands: z.array(eventCommandSpecSchema).describe("High-level commands to compile"),
+});
+
+const moveEventSchema = z.object({
+    mapId: z.number().int().min(1).describe("Map ID"),
+    eventId: z.number().int().min(1).describe("Event ID to move"),
+    x: z.number().int().min(0).describe("New X position in tiles"),
+    y: z.number().int().min(0).describe("New Y position in tiles"),
+});
+
+const deleteEventSchema = z.object({
+    mapId: z.number().int().min(1).describe("Map ID"),
+    eventId: z.number().int().min(1).describe("Event ID to delete"),
+});
+
+/**
+ * Create an empty event page matching the editor's defaults
+ */
+export function createDefaultEventPage(): RPGEventPage {
+    return {
+        conditions: {
+            actorId: 1,
+            actorValid: false,
+            itemId: 1,
+            itemValid: false,
+            selfSwitchCh: "A",
+            selfSwitchValid: false,
+            switch1Id: 1,
+            switch1Valid: false,
+            switch2Id: 1,
+            switch2Valid: false,
+            variableId: 1,
+            variableValid: false,
+            variableValue: 0,
+        },
+        directionFix: false,
+        image: {
+            tileId: 0,
+            characterName: "",
+            direction: 2,
+            pattern: 0,
+            characterIndex: 0,
+        },
+        list: [{ code: 0, indent: 0, parameters: [] }],
+        moveFrequency: 3,
+        moveRoute: {
+            list: [{ code: 0, parameters: [] }],
+            repeat: true,
+            skippable: false,
+            wait: false,
+        },
+        moveSpeed: 3,
+        moveType: 0,
+        priorityType: 0,
+        stepAnime: false,
+        through: false,
+        trigger: 0,
+        walkAnime: true,
+    };
+}
+
+/**
+ * Ensure a command list ends with the code 0 terminator the engine expects
+ */
+export function terminateCommandList(list: RPGEventCommand[]): RPGEventCommand[] {
+    const last = list[list.length - 1];
+    if (!last || last.code !== 0 || last.indent !== 0) {
+        list.push({ code: 0, indent: 0, parameters: [] });
+    }
+    return list;
+}
+
+function buildEventPage(input: EventPageInput, system: RPGSystem): RPGEventPage {
+    const page = createDefaultEventPage();
+    const { conditions } = input;
+    const switch1Id = resolveTypeId(system, "switches", conditions.switch1Id);
+    const switch2Id = resolveTypeId(system, "switches", conditions.switch2Id);
+    const variableId = resolveTypeId(system, "variables", conditions.variableId);
+
+    // Unused conditions keep the editor's default ID of 1
+    if (switch1Id > 0) {
+        page.conditions.switch1Id = switch1Id;
+        page.conditions.switch1Valid = true;
+    }
+    if (switch2Id > 0) {
+        page.conditions.switch2Id = switch2Id;
+        page.conditions.switch2Valid = true;
+    }
+    if (variableId > 0) {
+        page.conditions.variableId = variableId;
+        page.conditions.variableValue = conditions.variableValue;
+        page.conditions.variableValid = true;
+    }
+    if (conditions.selfSwitchCh) {
+        page.conditions.selfSwitchCh = conditions.selfSwitchCh;
+        page.conditions.selfSwitchValid = true;
+    }
+    if (conditions.itemId > 0) {
+        page.conditions.itemId = conditions.itemId;
+        page.conditions.itemValid = true;
+    }
+    if (conditions.actorId > 0) {
+        page.conditions.actorId = conditions.actorId;
+        page.conditions.actorValid = true;
+    }
+
+    page.image = {
+        tileId: input.tileId,
+        characterName: input.tileId > 0 ? "" : input.characterName,
+        direction: input.direction,
+        pattern: input.pattern,
+        characterIndex: input.characterIndex,
+    };
+
+    page.trigger = input.trigger;
+    page.priorityType = input.priorityType;
+    page.moveType = input.moveType;
+    page.moveSpeed = input.moveSpeed;
+    page.moveFrequency = input.moveFrequency;
+    page.walkAnime = input.walkAnime;
+    page.stepAnime = input.stepAnime;
+    page.directionFix = input.directionFix;
+    page.through = input.through;
+
+    if (input.moveRoute) {
+        const routeList = [...input.moveRoute.list];
+        if (routeList.length === 0 || routeList[routeList.length - 1].code !== 0) {
+            routeList.push({ code: 0, parameters: [] });
+        }
+        page.moveRoute = { ...input.moveRoute, list: routeList };
+    }
+
+    if (input.commands) {
+        page.list = compileCommandList(input.commands);
+    } else if (input.list) {
+        page.list = terminateCommandList([...input.list]);
+    }
+
+    return page;
+}
+
+function findEventAt(map: RPGMap, x: number, y: number, ignoreId?: number): RPGEvent | undefined {
+    return map.events.find((e): e is RPGEvent => e !== null && e.x === x && e.y === y && e.id !== ignoreId);
+}
+
+function checkPosition(map: RPGMap, x: number, y: number, ignoreId?: number): string | null {
+    if (x >= map.width || y >= map.height) {
+        return `Position (${x}, ${y}) is outside the map (${map.width}x${map.height})`;
+    }
+    const occupant = findEventAt(map, x, y, ignoreId);
+    if (occupant) {
+        return `Position (${x}, ${y}) is already used by event ${occupant.id} "${occupant.name}"`;
+    }
+    return null;
+}
+
+export function registerEventTools(server: McpServer, fileHandler: FileHandler, safeWriter: SafeWriter) {
+    // get_events - List events on a map
+    server.tool(
+        "get_events",
+        "Get the events placed on a map, or the full data of a single event",
+        getEventsSchema.shape,
+        async (args) => {
+            try {
+                const { mapId, eventId } = args;
+                const mapFilename = getMapFilename(mapId);
+
+                if (!(await fileHandler.exists(`data/${mapFilename}`))) {
+                    return {
+                        content: [{ type: "text" as const, text: `Error: Map with ID ${mapId} not found` }],
+                        isError: true,
+                    };
+                }
+
+                const mapData = await fileHandler.readJson<RPGMap>(`data/${mapFilename}`);
+
+                if (eventId !== undefined) {
+                    const event = mapData.events[eventId];
+                    if (!event) {
+                        return {
+                            content: [{ type: "text" as const, text: `Error: Event ID ${eventId} not found on map ${mapId}` }],
+                            isError: true,
+                        };
+                    }
+                    return {
+                        content: [{ type: "text" as const, text: JSON.stringify(event, null, 2) }],
+                    };
+                }
+
+                const eventList = mapData.events
+                    .filter((e): e is RPGEvent => e !== null)
+                    .map((e) => ({
+                        id: e.id,
+                        name: e.name,
+                        x: e.x,
+                        y: e.y,
+                        pages: e.pages.length,
+                        image: e.pages[0]?.image.characterName || (e.pages[0]?.image.tileId ? `tile ${e.pages[0].image.tileId}` : ""),
+                        trigger: e.pages[0]?.trigger,
+                    }));
+
+                return {
+                    content: [{ type: "text" as const, text: JSON.stringify(eventList, null, 2) }],
+                };
+            } catch (error) {
+                return {
+                    content: [{ type: "text" as const, text: `Error: ${error}` }],
+                    isError: true,
+                };
+            }
+        }
+    );
+
+    // create_event - Place a new event on a map
+    server.tool(
+        "create_event",
+        "Create a new event (NPC, door, chest...) on a map",
+        createEventSchema.shape,
+        async (args) => {
+            try {
+                const { mapId, name, x, y, pages, note } = args;
+                const mapFilename = getMapFilename(mapId);
+
+                if (!(await fileHandler.exists(`data/${mapFilename}`))) {
+                    return {
+                        content: [{ type: "text" as const, text: `Error: Map with ID ${mapId} not found` }],
+                        isError: true,
+                    };
+                }
+
+                const mapData = await fileHandler.readJson<RPGMap>(`data/${mapFilename}`);
+
+                const positionError = checkPosition(mapData, x, y);
+                if (positionError) {
+                    return {
+                        content: [{ type: "text" as const, text: `Error: ${positionError}` }],
+                        isError: true,
+                    };
+                }
+
+                // Reuse the first free slot like the editor does (index 0 is always null)
+                if (mapData.events.length === 0) {
+                    mapData.events.push(null);
+                }
+                let newId = mapData.events.findIndex((e, i) => i > 0 && e === null);
+                if (newId === -1) {
+                    newId = mapData.events.length;
+                    mapData.events.push(null);
+                }
+
+                const system = await fileHandler.readJson<RPGSystem>("data/System.json");
+                const newEvent: RPGEvent = {
+                    id: newId,
+                    name: name || `EV${String(newId).padStart(3, "0")}`,
+                    note,
+                    pages: pages.map((p) => buildEventPage(p, system)),
+                    x,
+                    y,
+                };
+                mapData.events[newId] = newEvent;
+
+                await safeWriter.writeToDatabase(mapFilename, mapData);
+
+                return {
+                    content: [{ type: "text" as const, text: `Created event "${newEvent.name}" with ID ${newId} at (${x}, ${y}) on map ${mapId}` }],
+                };
+            } catch (error) {
+                return {
+                    content: [{ type: "text" as const, text: `Error: ${error}` }],
+                    isError: true,
+                };
+            }
+        }
+    );
+
+    // update_event - Update an existing event
+    server.tool(
+        "update_event",
+        "Update an event's name, note or pages (replace all pages, or replace/append one page by index)",
+        updateEventSchema.shape,
+        async (args) => {
+            try {
+                const { mapId, eventId, name, note, pages, pageIndex, page } = args;
+                const mapFilename = getMapFilename(mapId);
+
+                if (!(await fileHandler.exists(`data/${mapFilename}`))) {
+                    return {
+                        content: [{ type: "text" as const, text: `Error: Map with ID ${mapId} not found` }],
+                        isError: true,
+                    };
+                }
+
+                const mapData = await fileHandler.readJson<RPGMap>(`data/${mapFilename}`);
+                const event = mapData.events[eventId];
+
+                if (!event) {
+                    return {
+                        content: [{ type: "text" as const, text: `Error: Event ID ${eventId} not found on map ${mapId}` }],
+                        isError: true,
+                    };
+                }
+
+                if ((pageIndex === undefined) !== (page === undefined)) {
+                    return {
+                        content: [{ type: "text" as const, text: "Error: pageIndex and page must be given together" }],
+                        isError: true,
+                    };
+                }
+
+                const system = await fileHandler.readJson<RPGSystem>("data/System.json");
+
+                if (name !== undefined) event.name = name;
+                if (note !== undefined) event.note = note;
+                if (pages !== undefined) event.pages = pages.map((p) => buildEventPage(p, system));
+
+                if (pageIndex !== undefined && page !== undefined) {
+                    if (pageIndex > event.pages.length) {
+                        return {
+                            content: [{ type: "text" as const, text: `Error: Page index ${pageIndex} is out of range (event has ${event.pages.length} pages)` }],
+                            isError: true,
+                        };
+                    }
+                    event.pages[pageIndex] = buildEventPage(page, system);
+                }
+
+                await safeWriter.writeToDatabase(mapFilename, mapData);
+
+                return {
+                    content: [{ type: "text" as const, text: `Updated event "${event.name}" (ID ${eventId}) on map ${mapId}` }],
+                };
+            } catch (error) {
+                return {
+                    content: [{ type: "text" as const, text: `Error: ${error}` }],
+                    isError: true,
+                };
+            }
+        }
+    );
+
+    // move_event - Move an event to another tile
+    server.tool(
+        "move_event",
+        "Move an event to a new position on its map",
+        moveEventSchema.shape,
+        async (args) => {
+            try {
+                const { mapId, eventId, x, y } = args;
+                const mapFilename = getMapFilename(mapId);
+
+                if (!(await fileHandler.exists(`data/${mapFilename}`))) {
+                    return {
+                        content: [{ type: "text" as const, text: `Error: Map with ID ${mapId} not found` }],
+                        isError: true,
+                    };
+                }
+
+                const mapData = await fileHandler.readJson<RPGMap>(`data/${mapFilename}`);
+                const event = mapData.events[eventId];
+
+                if (!event) {
+                    return {
+                        content: [{ type: "text" as const, text: `Error: Event ID ${eventId} not found on map ${mapId}` }],
+                        isError: true,
+                    };
+                }
+
+                const positionError = checkPosition(mapData, x, y, eventId);
+                if (positionError) {
+                    return {
+                        content: [{ type: "text" as const, text: `Error: ${positionError}` }],
+                        isError: true,
+                    };
+                }
+
+                event.x = x;
+                event.y = y;
+
+                await safeWriter.writeToDatabase(mapFilename, mapData);
+
+                return {
+                    content: [{ type: "text" as const, text: `Moved event "${event.name}" (ID ${eventId}) to (${x}, ${y})` }],
+                };
+            } catch (error) {
+                return {
+                    content: [{ type: "text" as const, text: `Error: ${error}` }],
+                    isError: true,
+                };
+            }
+        }
+    );
+
+    // delete_event - Remove an event from a map
+    server.tool(
+        "delete_event",
+        "Delete an event from a map (its ID slot is left empty so other IDs stay stable)",
+        deleteEventSchema.shape,
+        async (args) => {
+            try {
+                const { mapId, eventId } = args;
+                const mapFilename = getMapFilename(mapId);
+
+                if (!(await fileHandler.exists(`data/${mapFilename}`))) {
+                    return {
+                        content: [{ type: "text" as const, text: `Error: Map with ID ${mapId} not found` }],
+                        isError: true,
+                    };
+                }
+
+                const mapData = await fileHandler.readJson<RPGMap>(`data/${mapFilename}`);
+                const event = mapData.events[eventId];
+
+                if (!event) {
+                    return {
+                        content: [{ type: "text" as const, text: `Error: Event ID ${eventId} not found on map ${mapId}` }],
+                        isError: true,
+                    };
+                }
+
+                mapData.events[eventId] = null;
+
+                // Drop trailing empty slots, but keep the leading null at index 0
+                while (mapData.events.length > 1 && mapData.events[mapData.events.length - 1] === null) {
+                    mapData.events.pop();
+                }
+
+                await safeWriter.writeToDatabase(mapFilename, mapData);
+
+                return {
+                    content: [{ type: "text" as const, text: `Deleted event "${event.name}" (ID ${eventId}) from map ${mapId}` }],
+                };
+            } catch (error) {
+                return {
+                    content: [{ type: "text" as const, text: `Error: ${error}` }],
+                    isError: true,
+                };
+            }
+        }
+    );
+
+    // compile_event_commands - Preview the raw command list for high-level commands
+    server.tool(
+        "compile_event_commands",
+        "Compile high-level event commands into the raw RPG Maker MZ command list without writing anything",
+        compileEventCommandsSchema.shape,
+        async (args) => {
+            try {
+                const list = compileCommandList(args.commands);
+
+                return {
+                    content: [{ type: "text" as const, text: JSON.stringify(list, null, 2) }],
+                };
+            } catch (error) {
+                return {
+                    content: [{ type: "text" as const, text: `Error: ${error}` }],
+                    isError: true,
+                };
+            }
+        }
+    );
+}
@@ -0,0 +1,232 @@
+/**
+ * Generator Tools - generate_map
+ */
+
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { FileHandler } from "../utils/fileHandler.js";
+import { SafeWriter } from "../utils/safeWriter.js";
+import type { RPGMapInfo, RPGTileset, RPGEvent } from "../utils/types.js";
+import { Terrain, generateLayout, normalizeSeed } from "../utils/mapGenerator.js";
+import type { GeneratorType } from "../utils/mapGenerator.js";
+import { tileSchema, resolveTileId, paintCells, setTile, getTileSheet, sheetSlots, Layer } from "../utils/tilemap.js";
+import type { Cell, TileInput } from "../utils/tilemap.js";
+import { compileCommandList } from "../utils/eventCommands.js";
+import { createDefaultMap, getNextMapId, getNextMapOrder } from "./mapTools.js";
+import { createDefaultEventPage } from "./eventTools.js";
+
+const paletteSchema = z.object({
+    floor: tileSchema.optional(),
+    wallTop: tileSchema.optional(),
+    wallSide: tileSchema.optional(),
+    grass: tileSchema.optional(),
+    road: tileSchema.optional(),
+    roof: tileSchema.optional(),
+    buildingWall: tileSchema.optional(),
+    deepWater: tileSchema.optional(),
+    water: tileSchema.optional(),
+    sand: tileSchema.optional(),
+    forest: tileSchema.optional(),
+    hills: tileSchema.optional(),
+    mountain: tileSchema.optional(),
+});
+
+type Palette = z.infer<typeof paletteSchema>;
+type PaletteKey = keyof Palette;
+
+const generateMapSchema = z.object({
+    name: z.string().describe("Map name (shown in editor)"),
+    type: z.enum(["dungeon", "cave", "town", "overworld"]).describe("Layout generator"),
+    width: z.number().int().min(20).max(256).default(40).describe("Map width in tiles"),
+    height: z.number().int().min(15).max(256).default(30).describe("Map height in tiles"),
+    seed: z.union([z.number().int(), z.string()]).optional().describe("Seed for reproducible results (random when omitted)"),
+    tilesetId: z.number().int().min(1).optional().describe("Tileset ID (default: 1 for overworld, 2 for town, 4 for dungeon/cave)"),
+    palette: paletteSchema.optional().describe("Override the tiles used for each terrain (defaults follow the RTP tilesets)"),
+    regions: z.boolean().default(true).describe("Set region IDs for encounters (1=rooms/floor/grass, 2=corridors/forest, 3=hills/mountains)"),
+    connections: z.array(z.object({
+        mapId: z.number().int().min(1).describe("Destination map ID"),
+        x: z.number().int().min(0).describe("Destination X"),
+        y: z.number().int().min(0).describe("Destination Y"),
+        direction: z.union([z.literal(0), z.literal(2), z.literal(4), z.literal(6), z.literal(8)]).default(0).describe("Facing after transfer (0 = retain)"),
+    })).default([]).describe("Place a transfer event to each of these destinations"),
+    displayName: z.string().default("").describe("Display name (shown in game)"),
+    parentId: z.number().int().min(0).default(0).describe("Parent map ID for hierarchy"),
+});
+
+const defaultTilesets: Record<GeneratorType, number> = {
+    overworld: 1,
+    town: 2,
+    dungeon: 4,
+    cave: 4,
+};
+
+// Tile choices matching the default RTP tileset sheets
+const defaultPalettes: Record<GeneratorType, Palette> = {
+    dungeon: {
+        floor: { sheet: "A2", index: 0 },
+        wallTop: { sheet: "A4", index: 0 },
+        wallSide: { sheet: "A4", index: 8 },
+    },
+    cave: {
+        floor: { sheet: "A2", index: 1 },
+        wallTop: { sheet: "A4", index: 1 },
+        wallSide: { sheet: "A4", index: 9 },
+    },
+    town: {
+        grass: { sheet: "A2", index: 0 },
+        road: { sheet: "A2", index: 4 },
+        roof: { sheet: "A3", index: 0 },
+        buildingWall: { sheet: "A3", index: 8 },
+    },
+    overworld: {
+        deepWater: { sheet: "A1", index: 1 },
+        water: { sheet: "A1", index: 0 },
+        sand: { sheet: "A2", index: 2 },
+        grass: { sheet: "A2", index: 0 },
+        forest: { sheet: "A2", index: 4 },
+        hills: { sheet: "A2", index: 8 },
+        mountain: { sheet: "A2", index: 12 },
+    },
+};
+
+const terrainPaletteKeys: Record<number, PaletteKey> = {
+    [Terrain.Wall]: "wallTop",
+    [Terrain.WallSide]: "wallSide",
+    [Terrain.Floor]: "floor",
+    [Terrain.Road]: "road",
+    [Terrain.Roof]: "roof",
+    [Terrain.BuildingWall]: "buildingWall",
+    [Terrain.DeepWater]: "deepWater",
+    [Terrain.Water]: "water",
+    [Terrain.Sand]: "sand",
+    [Terrain.Grass]: "grass",
+    [Terrain.Forest]: "forest",
+    [Terrain.Hills]: "hills",
+    [Terrain.Mountain]: "mountain",
+};
+
+export function registerGeneratorTools(server: McpServer, fileHandler: FileHandler, safeWriter: SafeWriter) {
+    // generate_map - Create a new map from a procedural layout
+    server.tool(
+        "generate_map",
+        "Generate a new map (rooms-and-corridors dungeon, cellular-automata cave, grid town or noise overworld) from a seed",
+        generateMapSchema.shape,
+        async (args) => {
+            try {
+                const { name, type, width, height, regions, connections, displayName, parentId } = args;
+                const seed = normalizeSeed(args.seed ?? Math.floor(Math.random() * 0xffffffff));
+                const tilesetId = args.tilesetId ?? defaultTilesets[type];
+                const palette: Palette = { ...defaultPalettes[type], ...args.palette };
+
+                const tilesets = await fileHandler.readJson<(RPGTileset | null)[]>("data/Tilesets.json");
+                const tileset = tilesets[tilesetId];
+                if (!tileset) {
+                    return {
+                        content: [{ type: "text" as const, text: `Error: Tileset ID ${tilesetId} not found` }],
+                        isError: true,
+                    };
+                }
+
+                // One spot per connection, plus one more for the suggested start position
+                const layout = generateLayout(type, width, height, seed, connections.length + 1);
+                if (layout.exits.length < connections.length) {
+                    return {
+                        content: [{ type: "text" as const, text: `Error: Only ${layout.exits.length} exit spot(s) available for ${connections.length} connection(s); try a larger map or another seed` }],
+                        isError: true,
+                    };
+                }
+
+                const mapData = createDefaultMap(width, height);
+                mapData.displayName = displayName;
+                mapData.tilesetId = tilesetId;
+                mapData.note = `<Generated:${type} seed=${seed}>`;
+
+                // Group cells by terrain and paint each group with its palette tile
+                const cellsByTerrain = new Map<number, Cell[]>();
+                for (let y = 0; y < height; y++) {
+                    for (let x = 0; x < width; x++) {
+                        const terrain = layout.terrain[y * width + x];
+                        if (!cellsByTerrain.has(terrain)) cellsByTerrain.set(terrain, []);
+                        cellsByTerrain.get(terrain)!.push({ x, y });
+
+                        if (regions && layout.regions[y * width + x] > 0) {
+                            setTile(mapData, x, y, Layer.Region, layout.regions[y * width + x]);
+                        }
+                    }
+                }
+
+                const warnings: string[] = [];
+                for (const [terrain, cells] of cellsByTerrain) {
+                    const key = terrainPaletteKeys[terrain];
+                    const tile: TileInput | undefined = palette[key];
+                    if (tile === undefined) {
+                        warnings.push(`No tile for terrain "${key}"; left empty`);
+                        continue;
+                    }
+                    const tileId = resolveTileId(tile);
+                    const sheet = getTileSheet(tileId);
+                    if (tileId > 0 && !tileset.tilesetNames[sheetSlots[sheet]]) {
+                        warnings.push(`Tileset ${tilesetId} "${tileset.name}" has no ${sheet} image for terrain "${key}"`);
+                    }
+                    paintCells(mapData, cells, Layer.Ground, tileId);
+                }
+
+                // Transfer events to the connected maps
+                mapData.events = [null];
+                const exits = connections.map((connection, i) => {
+                    const spot = layout.exits[i];
+                    const page = createDefaultEventPage();
+                    page.trigger = 1; // Player Touch
+                    page.list = compileCommandList([
+                        { type: "playSe", name: "Move1" },
+                        { type: "transferPlayer", mapId: connection.mapId, x: connection.x, y: connection.y, direction: connection.direction },
+                    ]);
+                    const event: RPGEvent = {
+                        id: i + 1,
+                        name: `To Map ${connection.mapId}`,
+                        note: "",
+                        pages: [page],
+                        x: spot.x,
+                        y: spot.y,
+                    };
+                    mapData.events.push(event);
+                    return { eventId: event.id, x: spot.x, y: spot.y, targetMapId: connection.mapId };
+                });
+
+                const mapInfos = await fileHandler.readJson<(RPGMapInfo | null)[]>("data/MapInfos.json");
+                const newId = getNextMapId(mapInfos);
+                const mapInfo: RPGMapInfo = {
+                    id: newId,
+                    name,
+                    parentId,
+                    expanded: false,
+                    scrollX: 0,
+                    scrollY: 0,
+                    order: getNextMapOrder(mapInfos),
+                };
+
+                await safeWriter.writeMap(newId, mapData, mapInfo);
+
+                const result = {
+                    mapId: newId,
+                    type,
+                    seed,
+                    size: `${width}x${height}`,
+                    tilesetId,
+                    startPosition: layout.exits[connections.length] ?? null,
+                    exits,
+                    warnings,
+                };
+
+                return {
+                    content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
+                };
+            } catch (error) {
+                return {
+                    content: [{ type: "text" as const, text: `Error: ${error}` }],
+                    isError: true,
+                };
+            }
+        }
+    );
+}
@@ -1,5 +1,5 @@
 /**
- * Item Tools - create_item, get_items, update_item
+ * Item Tools - create_item, get_items, update_item, delete_item
  */
 
 import { z } from "zod";
@@ -8,6 +8,7 @@ import { FileHandler } from "../utils/fileHandler.js";
 import { SafeWriter } from "../utils/safeWriter.js";
 import type { RPGItem, RPGDamage, RPGEffect } from "../utils/types.js";
 import { ItemType, Scope, Occasion, EffectCode, DamageType } from "../utils/types.js";
+import { findReferences, formatReferences } from "../utils/references.js";
 
 const createItemSchema = z.object({
     name: z.string().describe("Item name"),
@@ -30,6 +31,11 @@ const updateItemSchema = z.object({
     iconIndex: z.number().int().min(0).optional(),
 });
 
+const deleteItemSchema = z.object({
+    id: z.number().int().min(1).describe("Item ID to delete"),
+    force: z.boolean().default(false).describe("Delete even if other data still references this item"),
+});
+
 function createDefaultDamage(): RPGDamage {
     return {
         type: DamageType.None,
@@ -210,4 +216,52 @@ export function registerItemTools(server: McpServer, fileHandler: FileHandler, s
             }
         }
     );
+
+    // delete_item - Clear an item entry
+    server.tool(
+        "delete_item",
+        "Delete an item by clearing its entry like the editor does (the ID stays in place). Refuses while other data references it unless force is set",
+        deleteItemSchema.shape,
+        async (args) => {
+            try {
+                const { id, force } = args;
+
+                const items = await fileHandler.readJson<(RPGItem | null)[]>("data/Items.json");
+
+                if (id >= items.length || !items[id]) {
+                    return {
+                        content: [{ type: "text" as const, text: `Error: Item with ID ${id} not found` }],
+                        isError: true,
+                    };
+                }
+
+                const name = items[id]!.name;
+                const references = await findReferences(fileHandler, "items", id);
+                if (references.length > 0 && !force) {
+                    return {
+                        content: [{
+                            type: "text" as const,
+                            text: `Error: Item ${id} "${name}" is referenced in ${references.length} place(s):\n${formatReferences(references)}\nRemove these references or pass force to delete anyway`,
+                        }],
+                        isError: true,
+                    };
+                }
+
+                items[id] = createDefaultItem(id);
+                await safeWriter.writeToDatabase("Items.json", items);
+
+                const dangling = references.length > 0
+                    ? `\nThese references now point at an empty entry:\n${formatReferences(references)}`
+                    : "";
+                return {
+                    content: [{ type: "text" as const, text: `Deleted item ${id} "${name}"${dangling}` }],
+                };
+            } catch (error) {
+                return {
+                    content: [{ type: "text" as const, text: `Error: ${error}` }],
+                    isError: true,
+                };
+            }
+        }
+    );
 }
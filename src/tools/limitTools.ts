@@ -7,12 +7,7 @@ import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { FileHandler } from "../utils/fileHandler.js";
 import { SafeWriter } from "../utils/safeWriter.js";
 
-const setLimitSchema = z.object({
-    database: z.enum(["items", "weapons", "armors", "skills", "actors", "classes", "enemies", "states", "animations", "tilesets", "troops", "commonEvents"]).describe("Database to resize"),
-    limit: z.number().int().min(1).max(9999).describe("New maximum limit"),
-});
-
-const databaseFiles: Record<string, string> = {
+export const databaseFiles = {
     items: "Items.json",
     weapons: "Weapons.json",
     armors: "Armors.json",
@@ -25,7 +20,16 @@ const databaseFiles: Record<string, string> = {
     tilesets: "Tilesets.json",
     troops: "Troops.json",
     commonEvents: "CommonEvents.json",
-};
+} as const;
+
+export type DatabaseName = keyof typeof databaseFiles;
+
+export const databaseNameSchema = z.enum(Object.keys(databaseFiles) as [DatabaseName, ...DatabaseName[]]);
+
+const setLimitSchema = z.object({
+    database: databaseNameSchema.describe("Database to resize"),
+    limit: z.number().int().min(1).max(9999).describe("New maximum limit"),
+});
 
 export function registerLimitTools(server: McpServer, fileHandler: FileHandler, safeWriter: SafeWriter) {
     // get_database_limits - Get current limits for all databases
@@ -27,7 +27,40 @@ const updateMapSchema = z.object({
     encounterSteps: z.number().int().min(1).max(999).optional(),
 });
 
-function createDefaultMap(width: number, height: number): RPGMap {
+/**
+ * Get the data filename for a map ID (e.g. 3 -> Map003.json)
+ */
+export function getMapFilename(mapId: number): string {
+    return `Map${String(mapId).padStart(3, "0")}.json`;
+}
+
+/**
+ * Find the next map ID after the last used entry in MapInfos.json
+ */
+export function getNextMapId(mapInfos: (RPGMapInfo | null)[]): number {
+    let newId = 1;
+    for (let i = 1; i < mapInfos.length; i++) {
+        if (mapInfos[i] !== null) {
+            newId = i + 1;
+        }
+    }
+    if (mapInfos.length > newId) {
+        newId = mapInfos.length;
+    }
+    return newId;
+}
+
+/**
+ * Get the order value that places a new map last in the editor's map tree
+ */
+export function getNextMapOrder(mapInfos: (RPGMapInfo | null)[]): number {
+    const maxOrder = mapInfos
+        .filter((m): m is RPGMapInfo => m !== null)
+        .reduce((max, m) => Math.max(max, m.order || 0), 0);
+    return maxOrder + 1;
+}
+
+export function createDefaultMap(width: number, height: number): RPGMap {
     // Map data array: width * height * 6 layers (A through R)
     const dataSize = width * height * 6;
     const data = new Array(dataSize).fill(0);
@@ -103,20 +136,7 @@ export function registerMapTools(server: McpServer, fileHandler: FileHandler, sa
                 const mapInfos = await fileHandler.readJson<(RPGMapInfo | null)[]>("data/MapInfos.json");
 
                 // Find next available ID
-                let newId = 1;
-                for (let i = 1; i < mapInfos.length; i++) {
-                    if (mapInfos[i] !== null) {
-                        newId = i + 1;
-                    }
-                }
-                if (mapInfos.length > newId) {
-                    newId = mapInfos.length;
-                }
-
-                // Calculate order (max order + 1)
-                const maxOrder = mapInfos
-                    .filter((m): m is RPGMapInfo => m !== null)
-                    .reduce((max, m) => Math.max(max, m.order || 0), 0);
+                const newId = getNextMapId(mapInfos);
 
                 // Create map data
                 const mapData = createDefaultMap(width, height);
@@ -133,7 +153,7 @@ export function registerMapTools(server: McpServer, fileHandler: FileHandler, sa
                     expanded: false,
                     scrollX: 0,
                     scrollY: 0,
-                    order: maxOrder + 1,
+                    order: getNextMapOrder(mapInfos),
                 };
 
                 // Write map using SafeWriter
@@ -165,7 +185,7 @@ export function registerMapTools(server: McpServer, fileHandler: FileHandler, sa
             try {
                 const { id, displayName, tilesetId, encounterSteps } = args;
 
-                const mapFilename = `Map${String(id).padStart(3, "0")}.json`;
+                const mapFilename = getMapFilename(id);
 
                 if (!(await fileHandler.exists(`data/${mapFilename}`))) {
                     return {
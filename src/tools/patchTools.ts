@@ -0,0 +1,105 @@
+/**
+ * Patch Tools - patch_entity
+ */
+
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { FileHandler } from "../utils/fileHandler.js";
+import { SafeWriter } from "../utils/safeWriter.js";
+import { databaseFiles, databaseNameSchema } from "./limitTools.js";
+import { jsonPatchOperationSchema, applyJsonPatch, applyMergePatch } from "../utils/jsonPatch.js";
+import { databaseEntrySchemas, formatIssues, unknownAddedFields } from "../utils/schemas.js";
+
+const patchEntitySchema = z.object({
+    database: databaseNameSchema.describe("Database holding the entry"),
+    id: z.number().int().min(1).describe("Entry ID"),
+    patch: z.union([
+        z.array(jsonPatchOperationSchema).min(1),
+        z.record(z.unknown()),
+    ]).describe(
+        "RFC 6902 JSON Patch operations (e.g. [{ op: \"replace\", path: \"/params/3\", value: 40 }]) " +
+        "or a deep merge object (e.g. { damage: { formula: \"a.mat * 3\" } }; arrays replace, null removes a field)"
+    ),
+    dryRun: z.boolean().default(false).describe("Validate and show the result without writing it"),
+});
+
+export function registerPatchTools(server: McpServer, fileHandler: FileHandler, safeWriter: SafeWriter) {
+    // patch_entity - Change any fields of a database entry
+    server.tool(
+        "patch_entity",
+        "Change any fields of a database entry with a JSON Patch or a deep merge object; the result is validated against the full entry schema before it is written",
+        patchEntitySchema.shape,
+        async (args) => {
+            try {
+                const { database, id, patch, dryRun } = args;
+                const filename = databaseFiles[database];
+                const schema = databaseEntrySchemas[filename];
+
+                const entries = await fileHandler.readJson<(Record<string, unknown> | null)[]>(`data/${filename}`);
+
+                if (id >= entries.length || !entries[id]) {
+                    return {
+                        content: [{ type: "text" as const, text: `Error: ${database} entry with ID ${id} not found` }],
+                        isError: true,
+                    };
+                }
+
+                const entry = entries[id]!;
+                const patched = Array.isArray(patch) ? applyJsonPatch(entry, patch) : applyMergePatch(entry, patch);
+
+                if (patched.id !== id) {
+                    return {
+                        content: [{ type: "text" as const, text: `Error: The id field cannot be changed (${id} -> ${JSON.stringify(patched.id)})` }],
+                        isError: true,
+                    };
+                }
+
+                const problems = unknownAddedFields(schema, entry, patched).map((path) => `${path}: Unknown field`);
+                const validation = schema.safeParse(patched);
+                if (!validation.success) {
+                    problems.push(...formatIssues(validation.error));
+                }
+                if (problems.length > 0) {
+                    return {
+                        content: [{
+                            type: "text" as const,
+                            text: `Error: The patched ${database} entry ${id} is invalid; nothing was written:\n${problems.map((p) => `- ${p}`).join("\n")}`,
+                        }],
+                        isError: true,
+                    };
+                }
+
+                const changed = [...new Set([...Object.keys(entry), ...Object.keys(patched)])]
+                    .filter((key) => JSON.stringify(entry[key]) !== JSON.stringify(patched[key]));
+
+                if (dryRun) {
+                    return {
+                        content: [{
+                            type: "text" as const,
+                            text: `Dry run: would change ${changed.join(", ") || "nothing"}\n${JSON.stringify(patched, null, 2)}`,
+                        }],
+                    };
+                }
+
+                if (changed.length > 0) {
+                    entries[id] = patched;
+                    await safeWriter.writeToDatabase(filename, entries);
+                }
+
+                return {
+                    content: [{
+                        type: "text" as const,
+                        text: changed.length > 0
+                            ? `Patched ${database} entry ${id} "${patched.name ?? ""}": changed ${changed.join(", ")}`
+                            : `${database} entry ${id} is unchanged`,
+                    }],
+                };
+            } catch (error) {
+                return {
+                    content: [{ type: "text" as const, text: `Error: ${error}` }],
+                    isError: true,
+                };
+            }
+        }
+    );
+}
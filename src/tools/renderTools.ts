@@ -0,0 +1,138 @@
+/**
+ * Render Tools - render_map
+ */
+
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { FileHandler } from "../utils/fileHandler.js";
+import type { RPGMap, RPGTileset } from "../utils/types.js";
+import { decodePng, encodePng } from "../utils/png.js";
+import type { RGBAImage } from "../utils/png.js";
+import { renderMap, getEventCharacterNames, TILE_SIZE } from "../utils/mapRenderer.js";
+import { getMapFilename } from "./mapTools.js";
+
+// Largest image edge render_map will produce, and the edge auto-scaling aims for
+const MAX_IMAGE_SIZE = 4096;
+const DEFAULT_IMAGE_SIZE = 2048;
+
+const renderMapSchema = z.object({
+    mapId: z.number().int().min(1).describe("Map ID"),
+    x: z.number().int().min(0).default(0).describe("Left of the area to render"),
+    y: z.number().int().min(0).default(0).describe("Top of the area to render"),
+    width: z.number().int().min(1).optional().describe("Area width in tiles (default: to the map edge)"),
+    height: z.number().int().min(1).optional().describe("Area height in tiles (default: to the map edge)"),
+    scale: z.number().min(0.0625).max(2).optional().describe(`Output scale, 1 = 48px tiles (default: fit within ${DEFAULT_IMAGE_SIZE}px, at most 1)`),
+    eventGraphics: z.boolean().default(true).describe("Draw the first page graphic of each event"),
+    eventMarkers: z.boolean().default(false).describe("Outline events and label them with their IDs"),
+    regions: z.boolean().default(false).describe("Tint tiles by region and label region IDs"),
+    passability: z.boolean().default(false).describe("Tint impassable tiles red and mark blocked edges"),
+});
+
+/**
+ * Load and decode a project image, or null when missing or unreadable
+ */
+async function loadImage(fileHandler: FileHandler, filePath: string, warnings: string[]): Promise<RGBAImage | null> {
+    if (!(await fileHandler.exists(filePath))) {
+        warnings.push(`Image ${filePath} is missing`);
+        return null;
+    }
+    try {
+        return decodePng(await fileHandler.readBuffer(filePath));
+    } catch (error) {
+        warnings.push(`Image ${filePath} could not be decoded: ${error}`);
+        return null;
+    }
+}
+
+export function registerRenderTools(server: McpServer, fileHandler: FileHandler) {
+    // render_map - Render a map to a PNG image
+    server.tool(
+        "render_map",
+        "Render a map (or an area of it) with its tileset images to a PNG preview, with optional event, region and passability overlays",
+        renderMapSchema.shape,
+        async (args) => {
+            try {
+                const { mapId, x, y, eventGraphics, eventMarkers, regions, passability } = args;
+                const mapFilename = getMapFilename(mapId);
+
+                if (!(await fileHandler.exists(`data/${mapFilename}`))) {
+                    return {
+                        content: [{ type: "text" as const, text: `Error: Map with ID ${mapId} not found` }],
+                        isError: true,
+                    };
+                }
+
+                const mapData = await fileHandler.readJson<RPGMap>(`data/${mapFilename}`);
+
+                if (x >= mapData.width || y >= mapData.height) {
+                    return {
+                        content: [{ type: "text" as const, text: `Error: Position (${x}, ${y}) is outside the map (${mapData.width}x${mapData.height})` }],
+                        isError: true,
+                    };
+                }
+
+                const area = {
+                    x,
+                    y,
+                    width: Math.min(args.width ?? mapData.width, mapData.width - x),
+                    height: Math.min(args.height ?? mapData.height, mapData.height - y),
+                };
+
+                const fullSize = Math.max(area.width, area.height) * TILE_SIZE;
+                const scale = args.scale ?? Math.min(1, DEFAULT_IMAGE_SIZE / fullSize);
+                if (fullSize * scale > MAX_IMAGE_SIZE) {
+                    return {
+                        content: [{ type: "text" as const, text: `Error: Image would be ${Math.round(fullSize * scale)}px wide; use a scale of at most ${Math.floor((MAX_IMAGE_SIZE / fullSize) * 1000) / 1000} or a smaller area` }],
+                        isError: true,
+                    };
+                }
+
+                const tilesets = await fileHandler.readJson<(RPGTileset | null)[]>("data/Tilesets.json");
+                const tileset = tilesets[mapData.tilesetId];
+                if (!tileset) {
+                    return {
+                        content: [{ type: "text" as const, text: `Error: Tileset ID ${mapData.tilesetId} not found` }],
+                        isError: true,
+                    };
+                }
+
+                const warnings: string[] = [];
+                const tilesetImages: (RGBAImage | null)[] = [];
+                for (const imageName of tileset.tilesetNames) {
+                    tilesetImages.push(imageName ? await loadImage(fileHandler, `img/tilesets/${imageName}.png`, warnings) : null);
+                }
+
+                const characterImages = new Map<string, RGBAImage | null>();
+                if (eventGraphics) {
+                    for (const characterName of getEventCharacterNames(mapData)) {
+                        characterImages.set(characterName, await loadImage(fileHandler, `img/characters/${characterName}.png`, warnings));
+                    }
+                }
+
+                const { image, missingSheets } = renderMap(mapData, tileset, { tilesetImages, characterImages }, {
+                    area, scale, eventGraphics, eventMarkers, regions, passability,
+                });
+                for (const sheet of missingSheets) {
+                    warnings.push(`Tiles from sheet ${sheet} were skipped: no image loaded for tileset ${tileset.id} "${tileset.name}"`);
+                }
+
+                const summary = [
+                    `Map ${mapId} area (${area.x}, ${area.y}) ${area.width}x${area.height} rendered at ${image.width}x${image.height}px (scale ${Math.round(scale * 1000) / 1000})`,
+                    ...warnings.map((warning) => `Warning: ${warning}`),
+                ].join("\n");
+
+                return {
+                    content: [
+                        { type: "image" as const, data: encodePng(image).toString("base64"), mimeType: "image/png" },
+                        { type: "text" as const, text: summary },
+                    ],
+                };
+            } catch (error) {
+                return {
+                    content: [{ type: "text" as const, text: `Error: ${error}` }],
+                    isError: true,
+                };
+            }
+        }
+    );
+}
@@ -1,10 +1,13 @@
 /**
- * Resource Tools - scan_resources, scan_dlc_packages, get_generator_parts, get_sample_maps, get_core_script_versions
+ * Resource Tools - scan_resources, scan_dlc_packages, get_generator_parts, get_sample_maps, import_sample_map, get_core_script_versions
  */
 
 import { z } from "zod";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { FileHandler } from "../utils/fileHandler.js";
+import { SafeWriter } from "../utils/safeWriter.js";
+import type { RPGMap, RPGMapInfo, RPGTileset, RPGEvent } from "../utils/types.js";
+import { getMapFilename, getNextMapId, getNextMapOrder } from "./mapTools.js";
 import * as path from "node:path";
 
 const scanResourcesSchema = z.object({
@@ -12,11 +15,18 @@ const scanResourcesSchema = z.object({
         "plugins", "tilesets", "characters", "faces", "sv_actors", "sv_enemies",
         "battlebacks1", "battlebacks2", "parallaxes", "pictures", "animations",
         "enemies", "titles1", "titles2", "system",
-        "bgm", "bgs", "me", "se"
+        "bgm", "bgs", "me", "se", "effects"
     ]).describe("Resource category to scan"),
     source: z.enum(["project", "engine", "all"]).default("all").describe("Source to scan"),
 });
 
+const importSampleMapSchema = z.object({
+    sampleId: z.number().int().min(1).describe("Sample map number (see get_sample_maps)"),
+    name: z.string().optional().describe("Map name in the editor (default: Sample ###)"),
+    parentId: z.number().int().min(0).default(0).describe("Parent map ID for hierarchy"),
+    tilesetId: z.number().int().min(1).optional().describe("Use this tileset instead of the one the sample references"),
+});
+
 function getCategoryPath(category: string): string {
     // Audio categories
     if (["bgm", "bgs", "me", "se"].includes(category)) {
@@ -26,11 +36,58 @@ function getCategoryPath(category: string): string {
     if (category === "plugins") {
         return "js/plugins";
     }
+    // Effekseer effects used by MZ animations
+    if (category === "effects") {
+        return "effects";
+    }
     // Image categories
     return `img/${category}`;
 }
 
-export function registerResourceTools(server: McpServer, fileHandler: FileHandler) {
+/**
+ * Check that an asset exists in the project, trying each extension in turn
+ */
+async function assetExists(fileHandler: FileHandler, dir: string, name: string, extensions: string[]): Promise<boolean> {
+    for (const ext of extensions) {
+        if (await fileHandler.exists(`${dir}/${name}${ext}`)) {
+            return true;
+        }
+    }
+    return false;
+}
+
+/**
+ * Collect the images and audio a map references, keyed by asset folder
+ */
+function collectMapAssets(map: RPGMap): Map<string, Set<string>> {
+    const assets = new Map<string, Set<string>>();
+    const add = (dir: string, name: string | undefined) => {
+        if (!name) return;
+        if (!assets.has(dir)) assets.set(dir, new Set());
+        assets.get(dir)!.add(name);
+    };
+
+    add("img/parallaxes", map.parallaxName);
+    add("img/battlebacks1", map.battleback1Name);
+    add("img/battlebacks2", map.battleback2Name);
+    add("audio/bgm", map.bgm?.name);
+    add("audio/bgs", map.bgs?.name);
+
+    const audioDirs: Record<number, string> = { 241: "audio/bgm", 245: "audio/bgs", 249: "audio/me", 250: "audio/se" };
+    for (const event of map.events.filter((e): e is RPGEvent => e !== null)) {
+        for (const page of event.pages) {
+            add("img/characters", page.image.characterName);
+            for (const command of page.list) {
+                if (audioDirs[command.code]) {
+                    add(audioDirs[command.code], (command.parameters[0] as { name?: string } | undefined)?.name);
+                }
+            }
+        }
+    }
+    return assets;
+}
+
+export function registerResourceTools(server: McpServer, fileHandler: FileHandler, safeWriter: SafeWriter) {
     // scan_resources - Scan available resources
     server.tool(
         "scan_resources",
@@ -40,7 +97,8 @@ export function registerResourceTools(server: McpServer, fileHandler: FileHandle
             try {
                 const { category, source } = args;
                 const categoryPath = getCategoryPath(category);
-                const extension = category === "plugins" ? ".js" : undefined;
+                const extensions: Record<string, string> = { plugins: ".js", effects: ".efkefc" };
+                const extension = extensions[category];
 
                 const result: { project: string[]; engine: string[] } = {
                     project: [],
@@ -209,6 +267,105 @@ export function registerResourceTools(server: McpServer, fileHandler: FileHandle
         }
     );
 
+    // import_sample_map - Copy an engine sample map into the project
+    server.tool(
+        "import_sample_map",
+        "Import one of the engine's sample maps into the project as a new map, reporting missing tileset or assets",
+        importSampleMapSchema.shape,
+        async (args) => {
+            try {
+                const { sampleId, name, parentId, tilesetId } = args;
+
+                const enginePath = fileHandler.getEnginePath();
+                if (!enginePath) {
+                    return {
+                        content: [{ type: "text" as const, text: "Error: RPGMAKER_ENGINE_PATH not set" }],
+                        isError: true,
+                    };
+                }
+
+                const samplePath = path.join(enginePath, "samplemaps", getMapFilename(sampleId));
+                if (!(await fileHandler.exists(samplePath))) {
+                    return {
+                        content: [{ type: "text" as const, text: `Error: Sample map ${sampleId} not found` }],
+                        isError: true,
+                    };
+                }
+
+                const mapData = await fileHandler.readJson<RPGMap>(samplePath);
+                if (tilesetId !== undefined) mapData.tilesetId = tilesetId;
+
+                const warnings: string[] = [];
+
+                // Tileset and its images
+                const tilesets = await fileHandler.readJson<(RPGTileset | null)[]>("data/Tilesets.json");
+                const tileset = tilesets[mapData.tilesetId];
+                if (!tileset) {
+                    warnings.push(`Tileset ID ${mapData.tilesetId} does not exist in Tilesets.json`);
+                } else {
+                    for (const imageName of tileset.tilesetNames.filter((n) => n !== "")) {
+                        if (!(await assetExists(fileHandler, "img/tilesets", imageName, [".png"]))) {
+                            warnings.push(`Tileset image img/tilesets/${imageName}.png is missing`);
+                        }
+                    }
+                }
+
+                // Images and audio used by the map and its events
+                for (const [dir, names] of collectMapAssets(mapData)) {
+                    const extensions = dir.startsWith("audio/") ? [".ogg", ".m4a"] : [".png"];
+                    for (const assetName of names) {
+                        if (!(await assetExists(fileHandler, dir, assetName, extensions))) {
+                            warnings.push(`Asset ${dir}/${assetName} is missing`);
+                        }
+                    }
+                }
+
+                const mapInfos = await fileHandler.readJson<(RPGMapInfo | null)[]>("data/MapInfos.json");
+
+                // Transfers inside sample maps point at the sample set's own map IDs
+                for (const event of mapData.events.filter((e): e is RPGEvent => e !== null)) {
+                    for (const page of event.pages) {
+                        for (const command of page.list) {
+                            if (command.code === 201 && command.parameters[0] === 0) {
+                                const targetId = command.parameters[1] as number;
+                                if (!mapInfos[targetId]) {
+                                    warnings.push(`Event ${event.id} "${event.name}" transfers to map ${targetId}, which does not exist`);
+                                }
+                            }
+                        }
+                    }
+                }
+
+                const newId = getNextMapId(mapInfos);
+                const mapInfo: RPGMapInfo = {
+                    id: newId,
+                    name: name ?? `Sample ${String(sampleId).padStart(3, "0")}`,
+                    parentId,
+                    expanded: false,
+                    scrollX: 0,
+                    scrollY: 0,
+                    order: getNextMapOrder(mapInfos),
+                };
+
+                await safeWriter.writeMap(newId, mapData, mapInfo);
+
+                const lines = [`Imported sample map ${sampleId} as "${mapInfo.name}" with ID ${newId} (${mapData.width}x${mapData.height} tiles)`];
+                if (warnings.length > 0) {
+                    lines.push("Warnings:", ...warnings.map((w) => `- ${w}`));
+                }
+
+                return {
+                    content: [{ type: "text" as const, text: lines.join("\n") }],
+                };
+            } catch (error) {
+                return {
+                    content: [{ type: "text" as const, text: `Error: ${error}` }],
+                    isError: true,
+                };
+            }
+        }
+    );
+
     // get_core_script_versions - List core script versions
     server.tool(
         "get_core_script_versions",
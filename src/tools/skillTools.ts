@@ -1,23 +1,59 @@
 /**
- * Skill Tools - create_skill, get_skills
+ * Skill Tools - create_skill, get_skills, get_skill, update_skill, delete_skill
  */
 
 import { z } from "zod";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { FileHandler } from "../utils/fileHandler.js";
 import { SafeWriter } from "../utils/safeWriter.js";
-import type { RPGSkill, RPGDamage } from "../utils/types.js";
+import type { RPGSkill, RPGDamage, RPGSystem } from "../utils/types.js";
 import { Scope, Occasion, DamageType } from "../utils/types.js";
+import { typeRefSchema, resolveTypeId, getRegistry } from "../utils/typeRegistry.js";
+import { effectSchema, encodeEffect, loadEffectNames, describeEffect } from "../utils/effects.js";
+import { findReferences, formatReferences } from "../utils/references.js";
+
+// Element ID -1 = Normal Attack (the user's attack elements)
+const elementRefSchema = z.union([z.literal(-1), typeRefSchema]);
 
 const createSkillSchema = z.object({
     name: z.string().describe("Skill name"),
     description: z.string().describe("Skill description"),
-    mpCost: z.number().int().min(0).default(0).describe("MP cost"),
-    tpCost: z.number().int().min(0).default(0).describe("TP cost"),
+    mpCost: z.number().int().min(0).max(9999).default(0).describe("MP cost"),
+    tpCost: z.number().int().min(0).max(100).default(0).describe("TP cost"),
     iconIndex: z.number().int().min(0).default(0).describe("Icon index"),
-    scope: z.number().int().min(0).max(11).default(1).describe("Skill scope"),
-    damageType: z.number().int().min(0).max(6).default(1).describe("Damage type"),
+    stypeId: typeRefSchema.default(1).describe("Skill type ID or name (see get_types skillTypes), 0 for none"),
+    scope: z.number().int().min(0).max(14).default(1).describe("Scope: 0=None, 1=One Enemy, 2=All Enemies, 3-6=1-4 Random Enemies, 7=One Ally, 8=All Allies, 9=One Ally (Dead), 10=All Allies (Dead), 11=The User, 12=One Ally (Unconditional), 13=All Allies (Unconditional), 14=Enemies & Allies"),
+    occasion: z.number().int().min(0).max(3).default(1).describe("Occasion: 0=Always, 1=Battle Screen, 2=Menu Screen, 3=Never"),
+    damageType: z.number().int().min(0).max(6).default(1).describe("Damage type: 0=None, 1=HP Damage, 2=MP Damage, 3=HP Recover, 4=MP Recover, 5=HP Drain, 6=MP Drain"),
     damageFormula: z.string().default("a.atk * 4 - b.def * 2").describe("Damage formula"),
+    elementId: elementRefSchema.default(0).describe("Damage element ID or name (see get_types elements), 0 for none, -1 for Normal Attack"),
+    variance: z.number().int().min(0).max(100).default(20).describe("Damage variance in percent"),
+    critical: z.boolean().default(false).describe("Whether the skill can land critical hits"),
+    hitType: z.number().int().min(0).max(2).default(1).describe("Hit type: 0=Certain Hit, 1=Physical Attack, 2=Magical Attack"),
+    speed: z.number().int().min(-2000).max(2000).default(0).describe("Speed correction"),
+    successRate: z.number().int().min(0).max(100).default(100).describe("Success rate in percent"),
+    repeats: z.number().int().min(1).max(9).default(1).describe("Number of hits"),
+    tpGain: z.number().int().min(0).max(100).default(0).describe("TP gained by the user"),
+    requiredWtypeId1: typeRefSchema.default(0).describe("Required weapon type ID or name, 0 for none"),
+    requiredWtypeId2: typeRefSchema.default(0).describe("Second accepted weapon type ID or name, 0 for none"),
+    animationId: z.number().int().min(-1).default(0).describe("Animation ID (-1 = Normal Attack, 0 = none)"),
+    message1: z.string().default("").describe("Battle message (e.g. \" casts Fire!\")"),
+    message2: z.string().default("").describe("Second battle message line"),
+    effects: z.array(effectSchema).default([]).describe("Effects applied on hit (see add_effect)"),
+    note: z.string().default("").describe("Note field"),
+});
+
+const updateSkillSchema = createSkillSchema.omit({ effects: true }).partial().extend({
+    id: z.number().int().min(1).describe("Skill ID to update"),
+});
+
+const getSkillSchema = z.object({
+    id: z.number().int().min(1).describe("Skill ID"),
+});
+
+const deleteSkillSchema = z.object({
+    id: z.number().int().min(1).describe("Skill ID to delete"),
+    force: z.boolean().default(false).describe("Delete even if other data still references this skill"),
 });
 
 function createDefaultDamage(): RPGDamage {
@@ -57,6 +93,40 @@ function createDefaultSkill(id: number): RPGSkill {
     };
 }
 
+type SkillFields = Partial<Omit<z.infer<typeof createSkillSchema>, "effects">>;
+
+/**
+ * Copy the given fields onto a skill, resolving type and element names
+ */
+function applySkillFields(skill: RPGSkill, fields: SkillFields, system: RPGSystem): void {
+    if (fields.name !== undefined) skill.name = fields.name;
+    if (fields.description !== undefined) skill.description = fields.description;
+    if (fields.mpCost !== undefined) skill.mpCost = fields.mpCost;
+    if (fields.tpCost !== undefined) skill.tpCost = fields.tpCost;
+    if (fields.iconIndex !== undefined) skill.iconIndex = fields.iconIndex;
+    if (fields.stypeId !== undefined) skill.stypeId = resolveTypeId(system, "skillTypes", fields.stypeId);
+    if (fields.scope !== undefined) skill.scope = fields.scope;
+    if (fields.occasion !== undefined) skill.occasion = fields.occasion;
+    if (fields.damageType !== undefined) skill.damage.type = fields.damageType;
+    if (fields.damageFormula !== undefined) skill.damage.formula = fields.damageFormula;
+    if (fields.elementId !== undefined) {
+        skill.damage.elementId = fields.elementId === -1 ? -1 : resolveTypeId(system, "elements", fields.elementId);
+    }
+    if (fields.variance !== undefined) skill.damage.variance = fields.variance;
+    if (fields.critical !== undefined) skill.damage.critical = fields.critical;
+    if (fields.hitType !== undefined) skill.hitType = fields.hitType;
+    if (fields.speed !== undefined) skill.speed = fields.speed;
+    if (fields.successRate !== undefined) skill.successRate = fields.successRate;
+    if (fields.repeats !== undefined) skill.repeats = fields.repeats;
+    if (fields.tpGain !== undefined) skill.tpGain = fields.tpGain;
+    if (fields.requiredWtypeId1 !== undefined) skill.requiredWtypeId1 = resolveTypeId(system, "weaponTypes", fields.requiredWtypeId1);
+    if (fields.requiredWtypeId2 !== undefined) skill.requiredWtypeId2 = resolveTypeId(system, "weaponTypes", fields.requiredWtypeId2);
+    if (fields.animationId !== undefined) skill.animationId = fields.animationId;
+    if (fields.message1 !== undefined) skill.message1 = fields.message1;
+    if (fields.message2 !== undefined) skill.message2 = fields.message2;
+    if (fields.note !== undefined) skill.note = fields.note;
+}
+
 export function registerSkillTools(server: McpServer, fileHandler: FileHandler, safeWriter: SafeWriter) {
     // get_skills - List all skills
     server.tool(
@@ -96,20 +166,17 @@ export function registerSkillTools(server: McpServer, fileHandler: FileHandler,
         createSkillSchema.shape,
         async (args) => {
             try {
-                const { name, description, mpCost, tpCost, iconIndex, scope, damageType, damageFormula } = args;
+                const { effects, ...fields } = args;
 
+                const system = await fileHandler.readJson<RPGSystem>("data/System.json");
                 const skills = await fileHandler.readJson<(RPGSkill | null)[]>("data/Skills.json");
                 const newId = skills.length;
 
                 const newSkill = createDefaultSkill(newId);
-                newSkill.name = name;
-                newSkill.description = description;
-                newSkill.mpCost = mpCost;
-                newSkill.tpCost = tpCost;
-                newSkill.iconIndex = iconIndex;
-                newSkill.scope = scope;
-                newSkill.damage.type = damageType;
-                newSkill.damage.formula = damageFormula;
+                applySkillFields(newSkill, fields, system);
+                for (const effect of effects) {
+                    newSkill.effects.push(await encodeEffect(fileHandler, effect));
+                }
 
                 skills.push(newSkill);
                 await safeWriter.writeToDatabase("Skills.json", skills);
@@ -118,7 +185,7 @@ export function registerSkillTools(server: McpServer, fileHandler: FileHandler,
                     content: [
                         {
                             type: "text" as const,
-                            text: `Created skill "${name}" with ID ${newId}`,
+                            text: `Created skill "${newSkill.name}" with ID ${newId}`,
                         },
                     ],
                 };
@@ -130,4 +197,136 @@ export function registerSkillTools(server: McpServer, fileHandler: FileHandler,
             }
         }
     );
+
+    // get_skill - Full detail of one skill
+    server.tool(
+        "get_skill",
+        "Get every field of a skill by ID, with skill type, element, weapon types and effects decoded",
+        getSkillSchema.shape,
+        async (args) => {
+            try {
+                const { id } = args;
+
+                const skills = await fileHandler.readJson<(RPGSkill | null)[]>("data/Skills.json");
+
+                if (id >= skills.length || !skills[id]) {
+                    return {
+                        content: [{ type: "text" as const, text: `Error: Skill with ID ${id} not found` }],
+                        isError: true,
+                    };
+                }
+
+                const skill = skills[id]!;
+                const system = await fileHandler.readJson<RPGSystem>("data/System.json");
+                const effectNames = await loadEffectNames(fileHandler);
+                const typeName = (registry: "skillTypes" | "elements" | "weaponTypes", typeId: number) =>
+                    typeId > 0 ? getRegistry(system, registry)[typeId] ?? `#${typeId}` : null;
+
+                const detail = {
+                    ...skill,
+                    decoded: {
+                        skillType: typeName("skillTypes", skill.stypeId),
+                        element: skill.damage.elementId === -1 ? "Normal Attack" : typeName("elements", skill.damage.elementId),
+                        requiredWeaponTypes: [skill.requiredWtypeId1, skill.requiredWtypeId2]
+                            .filter((wtypeId) => wtypeId > 0)
+                            .map((wtypeId) => typeName("weaponTypes", wtypeId)),
+                        effects: skill.effects.map((effect) => describeEffect(effect, effectNames)),
+                    },
+                };
+
+                return {
+                    content: [{ type: "text" as const, text: JSON.stringify(detail, null, 2) }],
+                };
+            } catch (error) {
+                return {
+                    content: [{ type: "text" as const, text: `Error: ${error}` }],
+                    isError: true,
+                };
+            }
+        }
+    );
+
+    // update_skill - Update an existing skill
+    server.tool(
+        "update_skill",
+        "Update any field of an existing skill (costs, scope, damage, hit type, speed, repeats, required weapon types, animation, messages, note); effects are edited with add_effect/remove_effect",
+        updateSkillSchema.shape,
+        async (args) => {
+            try {
+                const { id, ...fields } = args;
+
+                const skills = await fileHandler.readJson<(RPGSkill | null)[]>("data/Skills.json");
+
+                if (id >= skills.length || !skills[id]) {
+                    return {
+                        content: [{ type: "text" as const, text: `Error: Skill with ID ${id} not found` }],
+                        isError: true,
+                    };
+                }
+
+                const skill = skills[id]!;
+                const system = await fileHandler.readJson<RPGSystem>("data/System.json");
+                applySkillFields(skill, fields, system);
+
+                await safeWriter.writeToDatabase("Skills.json", skills);
+
+                return {
+                    content: [{ type: "text" as const, text: `Updated skill "${skill.name}" (ID ${id})` }],
+                };
+            } catch (error) {
+                return {
+                    content: [{ type: "text" as const, text: `Error: ${error}` }],
+                    isError: true,
+                };
+            }
+        }
+    );
+
+    // delete_skill - Clear a skill entry
+    server.tool(
+        "delete_skill",
+        "Delete a skill by clearing its entry like the editor does (the ID stays in place). Refuses while other data references it unless force is set",
+        deleteSkillSchema.shape,
+        async (args) => {
+            try {
+                const { id, force } = args;
+
+                const skills = await fileHandler.readJson<(RPGSkill | null)[]>("data/Skills.json");
+
+                if (id >= skills.length || !skills[id]) {
+                    return {
+                        content: [{ type: "text" as const, text: `Error: Skill with ID ${id} not found` }],
+                        isError: true,
+                    };
+                }
+
+                const name = skills[id]!.name;
+                const references = await findReferences(fileHandler, "skills", id);
+                if (references.length > 0 && !force) {
+                    return {
+                        content: [{
+                            type: "text" as const,
+                            text: `Error: Skill ${id} "${name}" is referenced in ${references.length} place(s):\n${formatReferences(references)}\nRemove these references or pass force to delete anyway`,
+                        }],
+                        isError: true,
+                    };
+                }
+
+                skills[id] = createDefaultSkill(id);
+                await safeWriter.writeToDatabase("Skills.json", skills);
+
+                const dangling = references.length > 0
+                    ? `\nThese references now point at an empty entry:\n${formatReferences(references)}`
+                    : "";
+                return {
+                    content: [{ type: "text" as const, text: `Deleted skill ${id} "${name}"${dangling}` }],
+                };
+            } catch (error) {
+                return {
+                    content: [{ type: "text" as const, text: `Error: ${error}` }],
+                    isError: true,
+                };
+            }
+        }
+    );
 }
@@ -1,12 +1,13 @@
 /**
- * State Tools - create_state, get_states, update_state
+ * State Tools - create_state, get_states, update_state, delete_state
  */
 
 import { z } from "zod";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { FileHandler } from "../utils/fileHandler.js";
 import { SafeWriter } from "../utils/safeWriter.js";
-import { RPGState, RPGTrait, EffectCode } from "../utils/types.js";
+import { RPGState, RPGTrait, EffectCode, TraitCode } from "../utils/types.js";
+import { findReferences, formatReferences } from "../utils/references.js";
 
 const createStateSchema = z.object({
     name: z.string().describe("State name"),
@@ -29,6 +30,11 @@ const updateStateSchema = z.object({
     maxTurns: z.number().int().min(0).optional(),
 });
 
+const deleteStateSchema = z.object({
+    id: z.number().int().min(1).describe("State ID to delete"),
+    force: z.boolean().default(false).describe("Delete even if other data still references this state"),
+});
+
 function createDefaultState(id: number): RPGState {
     return {
         id,
@@ -119,13 +125,11 @@ export function registerStateTools(server: McpServer, fileHandler: FileHandler,
                     newState.chanceByDamage = chanceByDamage;
                 }
 
-                // Add MP Regeneration Trait (Code 22: Ex-Parameter, ID 7: MRG)
-                // Actually MP Regeneration is usually done via "x-param" trait
-                // Code 22 = Ex-Parameter. DataId 2 = HRG (Hp Regen), 3 = MRG (Mp Regen), 4 = TRG (Tp Regen)
+                // Add MP Regeneration Trait (Ex-Parameter: 7 = HRG, 8 = MRG, 9 = TRG)
                 if (regenerateMpRate !== 0) {
                     const mpRegenTrait: RPGTrait = {
-                        code: 22,
-                        dataId: 3, // MRG
+                        code: TraitCode.XParam,
+                        dataId: 8, // MRG
                         value: regenerateMpRate / 100 // Convert percentage to rate
                     };
                     newState.traits.push(mpRegenTrait);
@@ -184,4 +188,52 @@ export function registerStateTools(server: McpServer, fileHandler: FileHandler,
             }
         }
     );
+
+    // delete_state - Clear a state entry
+    server.tool(
+        "delete_state",
+        "Delete a state by clearing its entry like the editor does (the ID stays in place). Refuses while other data references it unless force is set",
+        deleteStateSchema.shape,
+        async (args) => {
+            try {
+                const { id, force } = args;
+
+                const states = await fileHandler.readJson<(RPGState | null)[]>("data/States.json");
+
+                if (id >= states.length || !states[id]) {
+                    return {
+                        content: [{ type: "text" as const, text: `Error: State with ID ${id} not found` }],
+                        isError: true,
+                    };
+                }
+
+                const name = states[id]!.name;
+                const references = await findReferences(fileHandler, "states", id);
+                if (references.length > 0 && !force) {
+                    return {
+                        content: [{
+                            type: "text" as const,
+                            text: `Error: State ${id} "${name}" is referenced in ${references.length} place(s):\n${formatReferences(references)}\nRemove these references or pass force to delete anyway`,
+                        }],
+                        isError: true,
+                    };
+                }
+
+                states[id] = createDefaultState(id);
+                await safeWriter.writeToDatabase("States.json", states);
+
+                const dangling = references.length > 0
+                    ? `\nThese references now point at an empty entry:\n${formatReferences(references)}`
+                    : "";
+                return {
+                    content: [{ type: "text" as const, text: `Deleted state ${id} "${name}"${dangling}` }],
+                };
+            } catch (error) {
+                return {
+                    content: [{ type: "text" as const, text: `Error: ${error}` }],
+                    isError: true,
+                };
+            }
+        }
+    );
 }
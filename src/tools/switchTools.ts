@@ -0,0 +1,109 @@
+/**
+ * Switch Tools - allocate_switch, allocate_variable, find_switch_usage, find_variable_usage
+ */
+
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { FileHandler } from "../utils/fileHandler.js";
+import { SafeWriter } from "../utils/safeWriter.js";
+import type { RPGSystem } from "../utils/types.js";
+import { collectUsage } from "../utils/switchUsage.js";
+import type { SwitchKind } from "../utils/switchUsage.js";
+import { typeRefSchema, resolveTypeId, getRegistry } from "../utils/typeRegistry.js";
+
+const allocateSchema = z.object({
+    name: z.string().min(1).describe("Name for the new slot"),
+});
+
+const findUsageSchema = z.object({
+    id: typeRefSchema.describe("ID or name to look up"),
+});
+
+const registries = { switch: "switches", variable: "variables" } as const;
+
+export function registerSwitchTools(server: McpServer, fileHandler: FileHandler, safeWriter: SafeWriter) {
+    for (const kind of ["switch", "variable"] as SwitchKind[]) {
+        const registry = registries[kind];
+
+        // allocate_switch / allocate_variable - Name the next free slot
+        server.tool(
+            `allocate_${kind}`,
+            `Name the first ${kind} that is unnamed and not referenced by any event, common event or troop (adds a slot when none is free)`,
+            allocateSchema.shape,
+            async (args) => {
+                try {
+                    const { name } = args;
+                    const system = await fileHandler.readJson<RPGSystem>("data/System.json");
+                    const names = getRegistry(system, registry);
+
+                    const existing = names.findIndex((n, i) => i > 0 && n.toLowerCase() === name.toLowerCase());
+                    if (existing > 0) {
+                        return {
+                            content: [{ type: "text" as const, text: `Error: "${name}" already exists as ${kind} ID ${existing}` }],
+                            isError: true,
+                        };
+                    }
+
+                    const used = new Set((await collectUsage(fileHandler, kind)).map((r) => r.id));
+                    let id = 1;
+                    while (id < names.length && (names[id] !== "" || used.has(id))) {
+                        id++;
+                    }
+                    // Past the end, still skip IDs that commands already reference
+                    while (used.has(id)) {
+                        id++;
+                    }
+                    while (names.length <= id) {
+                        names.push("");
+                    }
+                    names[id] = name;
+
+                    await safeWriter.writeToDatabase("System.json", system);
+
+                    return {
+                        content: [{ type: "text" as const, text: `Allocated ${kind} ${id} "${name}"` }],
+                    };
+                } catch (error) {
+                    return {
+                        content: [{ type: "text" as const, text: `Error: ${error}` }],
+                        isError: true,
+                    };
+                }
+            }
+        );
+
+        // find_switch_usage / find_variable_usage - List references
+        server.tool(
+            `find_${kind}_usage`,
+            `Find every map event page, common event and troop page whose conditions or commands reference a ${kind}`,
+            findUsageSchema.shape,
+            async (args) => {
+                try {
+                    const system = await fileHandler.readJson<RPGSystem>("data/System.json");
+                    // Numeric IDs are not checked against the list so stray references past the end still show up
+                    const id = typeof args.id === "number" ? args.id : resolveTypeId(system, registry, args.id);
+
+                    const references = (await collectUsage(fileHandler, kind))
+                        .filter((r) => r.id === id)
+                        .map(({ source, usage }) => ({ source, usage }));
+
+                    const result = {
+                        id,
+                        name: getRegistry(system, registry)[id] ?? "",
+                        count: references.length,
+                        references,
+                    };
+
+                    return {
+                        content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
+                    };
+                } catch (error) {
+                    return {
+                        content: [{ type: "text" as const, text: `Error: ${error}` }],
+                        isError: true,
+                    };
+                }
+            }
+        );
+    }
+}
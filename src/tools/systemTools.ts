@@ -0,0 +1,299 @@
+/**
+ * System Tools - get_system, update_system
+ */
+
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { FileHandler } from "../utils/fileHandler.js";
+import { SafeWriter } from "../utils/safeWriter.js";
+import type { RPGSystem, RPGActor, RPGVehicle } from "../utils/types.js";
+
+// Index of each term in RPGSystem.terms arrays (same order as TextManager)
+const BASIC_TERMS = ["level", "levelA", "hp", "hpA", "mp", "mpA", "tp", "tpA", "exp", "expA"] as const;
+
+const COMMAND_TERMS = {
+    fight: 0, escape: 1, attack: 2, guard: 3, item: 4, skill: 5, equip: 6, status: 7,
+    formation: 8, save: 9, gameEnd: 10, options: 11, weapon: 12, armor: 13, keyItem: 14,
+    equip2: 15, optimize: 16, clear: 17, newGame: 18, continue_: 19, toTitle: 21, cancel: 22,
+    buy: 24, sell: 25,
+} as const;
+
+const PARAM_TERMS = ["mhp", "mmp", "atk", "def", "mat", "mdf", "agi", "luk", "hit", "eva"] as const;
+
+const MESSAGE_TERMS = [
+    "actionFailure", "actorDamage", "actorDrain", "actorGain", "actorLoss", "actorNoDamage",
+    "actorNoHit", "actorRecovery", "alwaysDash", "autosave", "bgmVolume", "bgsVolume", "buffAdd",
+    "buffRemove", "commandRemember", "counterAttack", "criticalToActor", "criticalToEnemy",
+    "debuffAdd", "defeat", "emerge", "enemyDamage", "enemyDrain", "enemyGain", "enemyLoss",
+    "enemyNoDamage", "enemyNoHit", "enemyRecovery", "escapeFailure", "escapeStart", "evasion",
+    "expNext", "expTotal", "file", "levelUp", "loadMessage", "magicEvasion", "magicReflection",
+    "meVolume", "obtainExp", "obtainGold", "obtainItem", "obtainSkill", "partyName", "possession",
+    "preemptive", "saveMessage", "seVolume", "substitute", "surprise", "touchUI", "useItem", "victory",
+] as const;
+
+const MENU_COMMANDS = ["item", "skill", "equip", "status", "formation", "save"] as const;
+const ITEM_CATEGORIES = ["item", "weapon", "armor", "keyItem"] as const;
+
+// Option name -> System.json key
+const OPTIONS = {
+    autosave: "optAutosave",
+    displayTp: "optDisplayTp",
+    drawTitle: "optDrawTitle",
+    extraExp: "optExtraExp",
+    floorDeath: "optFloorDeath",
+    followers: "optFollowers",
+    keyItemsNumber: "optKeyItemsNumber",
+    messageSkip: "optMessageSkip",
+    sideView: "optSideView",
+    slipDeath: "optSlipDeath",
+    splashScreen: "optSplashScreen",
+    transparent: "optTransparent",
+} as const;
+
+const VEHICLES = ["boat", "ship", "airship"] as const;
+
+/**
+ * Object schema with an optional field of the given type for each key
+ */
+function optionalFields<K extends string, T extends z.ZodTypeAny>(keys: readonly K[], type: T) {
+    return z.object(Object.fromEntries(keys.map((key) => [key, type.optional()])) as Record<K, z.ZodOptional<T>>);
+}
+
+const audioSchema = z.object({
+    name: z.string().describe("File name in the audio folder (without extension), empty for none"),
+    volume: z.number().int().min(0).max(100).default(90),
+    pitch: z.number().int().min(50).max(150).default(100),
+    pan: z.number().int().min(-100).max(100).default(0),
+});
+
+const vehicleSchema = z.object({
+    characterName: z.string().optional().describe("Character image in img/characters"),
+    characterIndex: z.number().int().min(0).max(7).optional(),
+    bgm: audioSchema.optional(),
+    startMapId: z.number().int().min(0).optional().describe("Starting map (0 = not placed)"),
+    startX: z.number().int().min(0).optional(),
+    startY: z.number().int().min(0).optional(),
+});
+
+const getSystemSchema = z.object({
+    fields: z.array(z.string()).optional()
+        .describe("Top-level System.json fields to return (default: everything, with switch and variable names summarized as counts)"),
+});
+
+const updateSystemSchema = z.object({
+    gameTitle: z.string().optional(),
+    currencyUnit: z.string().optional(),
+    locale: z.string().optional().describe("Locale, e.g. en_US, ja_JP"),
+    startMapId: z.number().int().min(1).optional().describe("Player start map ID"),
+    startX: z.number().int().min(0).optional(),
+    startY: z.number().int().min(0).optional(),
+    partyMembers: z.array(z.number().int().min(1)).optional().describe("Actor IDs of the starting party"),
+    titleBgm: audioSchema.optional(),
+    battleBgm: audioSchema.optional(),
+    victoryMe: audioSchema.optional(),
+    defeatMe: audioSchema.optional(),
+    gameoverMe: audioSchema.optional(),
+    title1Name: z.string().optional().describe("Title screen background (img/titles1)"),
+    title2Name: z.string().optional().describe("Title screen frame (img/titles2)"),
+    windowTone: z.tuple([
+        z.number().int().min(-255).max(255),
+        z.number().int().min(-255).max(255),
+        z.number().int().min(-255).max(255),
+        z.number().int().min(0).max(255),
+    ]).optional().describe("Window tone [red, green, blue, gray]"),
+    battleSystem: z.number().int().min(0).max(2).optional().describe("Battle system: 0=Turn-based, 1=Time Progress (Active), 2=Time Progress (Wait)"),
+    boat: vehicleSchema.optional(),
+    ship: vehicleSchema.optional(),
+    airship: vehicleSchema.optional(),
+    menuCommands: optionalFields(MENU_COMMANDS, z.boolean()).optional().describe("Show or hide main menu commands"),
+    itemCategories: optionalFields(ITEM_CATEGORIES, z.boolean()).optional().describe("Show or hide item menu categories"),
+    options: optionalFields(Object.keys(OPTIONS) as (keyof typeof OPTIONS)[], z.boolean()).optional()
+        .describe("System options (sideView, followers, autosave, ...)"),
+    terms: z.object({
+        basic: optionalFields(BASIC_TERMS, z.string()).optional().describe("Basic terms (level, hp, ...; *A = abbreviation)"),
+        commands: optionalFields(Object.keys(COMMAND_TERMS) as (keyof typeof COMMAND_TERMS)[], z.string()).optional().describe("Command names"),
+        params: optionalFields(PARAM_TERMS, z.string()).optional().describe("Parameter names"),
+        messages: optionalFields(MESSAGE_TERMS, z.string()).optional().describe("Messages (%1, %2... are placeholders)"),
+    }).optional(),
+});
+
+/**
+ * Name every entry of the terms arrays so they can be read without index tables
+ */
+function describeTerms(terms: RPGSystem["terms"]) {
+    return {
+        basic: Object.fromEntries(BASIC_TERMS.map((key, i) => [key, terms.basic[i]])),
+        commands: Object.fromEntries(Object.entries(COMMAND_TERMS).map(([key, i]) => [key, terms.commands[i]])),
+        params: Object.fromEntries(PARAM_TERMS.map((key, i) => [key, terms.params[i]])),
+        messages: terms.messages,
+    };
+}
+
+function applyVehicle(vehicle: RPGVehicle, changes: z.infer<typeof vehicleSchema>): void {
+    if (changes.characterName !== undefined) vehicle.characterName = changes.characterName;
+    if (changes.characterIndex !== undefined) vehicle.characterIndex = changes.characterIndex;
+    if (changes.bgm !== undefined) vehicle.bgm = changes.bgm;
+    if (changes.startMapId !== undefined) vehicle.startMapId = changes.startMapId;
+    if (changes.startX !== undefined) vehicle.startX = changes.startX;
+    if (changes.startY !== undefined) vehicle.startY = changes.startY;
+}
+
+/**
+ * Write named flags into a boolean array at the index of each name
+ */
+function applyFlags(target: boolean[], names: readonly string[], changes: Record<string, boolean | undefined>): void {
+    names.forEach((name, i) => {
+        if (changes[name] !== undefined) target[i] = changes[name]!;
+    });
+}
+
+export function registerSystemTools(server: McpServer, fileHandler: FileHandler, safeWriter: SafeWriter) {
+    // get_system - Read System.json
+    server.tool(
+        "get_system",
+        "Get System.json settings: game title, currency, start position, party, music, vehicles, menu commands, options and terms",
+        getSystemSchema.shape,
+        async (args) => {
+            try {
+                const { fields } = args;
+                const system = await fileHandler.readJson<RPGSystem>("data/System.json");
+
+                if (fields) {
+                    const unknown = fields.filter((field) => !(field in system));
+                    if (unknown.length > 0) {
+                        return {
+                            content: [{ type: "text" as const, text: `Error: Unknown System.json field(s): ${unknown.join(", ")}` }],
+                            isError: true,
+                        };
+                    }
+                    const result = Object.fromEntries(fields.map((field) => [
+                        field,
+                        field === "terms" ? describeTerms(system.terms) : system[field as keyof RPGSystem],
+                    ]));
+                    return {
+                        content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
+                    };
+                }
+
+                const result: Record<string, unknown> = { ...system };
+                result.switches = { count: Math.max(0, (system.switches?.length ?? 1) - 1) };
+                result.variables = { count: Math.max(0, (system.variables?.length ?? 1) - 1) };
+                if (system.terms) result.terms = describeTerms(system.terms);
+
+                return {
+                    content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
+                };
+            } catch (error) {
+                return {
+                    content: [{ type: "text" as const, text: `Error: ${error}` }],
+                    isError: true,
+                };
+            }
+        }
+    );
+
+    // update_system - Update System.json
+    server.tool(
+        "update_system",
+        "Update System.json settings: game title, currency, start position, party, music, window tone, vehicles, menu commands, options and terms",
+        updateSystemSchema.shape,
+        async (args) => {
+            try {
+                const system = await fileHandler.readJson<RPGSystem>("data/System.json");
+
+                if (args.partyMembers !== undefined) {
+                    const actors = await fileHandler.readJson<(RPGActor | null)[]>("data/Actors.json");
+                    const missing = args.partyMembers.filter((id) => id >= actors.length || !actors[id]);
+                    if (missing.length > 0) {
+                        return {
+                            content: [{ type: "text" as const, text: `Error: Actor ID ${missing[0]} not found` }],
+                            isError: true,
+                        };
+                    }
+                    system.partyMembers = args.partyMembers;
+                }
+
+                const changed: string[] = [];
+                const simpleFields = [
+                    "gameTitle", "currencyUnit", "locale", "startMapId", "startX", "startY",
+                    "titleBgm", "battleBgm", "victoryMe", "defeatMe", "gameoverMe",
+                    "title1Name", "title2Name", "windowTone", "battleSystem",
+                ] as const;
+                for (const field of simpleFields) {
+                    if (args[field] !== undefined) {
+                        (system as unknown as Record<string, unknown>)[field] = args[field];
+                        changed.push(field);
+                    }
+                }
+                if (args.partyMembers !== undefined) changed.push("partyMembers");
+
+                for (const vehicle of VEHICLES) {
+                    if (args[vehicle] !== undefined) {
+                        applyVehicle(system[vehicle], args[vehicle]!);
+                        changed.push(vehicle);
+                    }
+                }
+
+                if (args.menuCommands !== undefined) {
+                    applyFlags(system.menuCommands, MENU_COMMANDS, args.menuCommands);
+                    changed.push("menuCommands");
+                }
+                if (args.itemCategories !== undefined) {
+                    applyFlags(system.itemCategories, ITEM_CATEGORIES, args.itemCategories);
+                    changed.push("itemCategories");
+                }
+                if (args.options !== undefined) {
+                    for (const [name, key] of Object.entries(OPTIONS)) {
+                        const value = args.options[name as keyof typeof OPTIONS];
+                        if (value !== undefined) system[key] = value;
+                    }
+                    changed.push("options");
+                }
+
+                if (args.terms !== undefined) {
+                    const { basic, commands, params, messages } = args.terms;
+                    if (basic) {
+                        BASIC_TERMS.forEach((key, i) => {
+                            if (basic[key] !== undefined) system.terms.basic[i] = basic[key]!;
+                        });
+                    }
+                    if (commands) {
+                        for (const [key, i] of Object.entries(COMMAND_TERMS)) {
+                            const value = commands[key as keyof typeof COMMAND_TERMS];
+                            if (value !== undefined) system.terms.commands[i] = value;
+                        }
+                    }
+                    if (params) {
+                        PARAM_TERMS.forEach((key, i) => {
+                            if (params[key] !== undefined) system.terms.params[i] = params[key]!;
+                        });
+                    }
+                    if (messages) {
+                        for (const [key, value] of Object.entries(messages)) {
+                            if (value !== undefined) system.terms.messages[key] = value;
+                        }
+                    }
+                    changed.push("terms");
+                }
+
+                if (changed.length === 0) {
+                    return {
+                        content: [{ type: "text" as const, text: "Error: No settings to update" }],
+                        isError: true,
+                    };
+                }
+
+                await safeWriter.writeToDatabase("System.json", system);
+
+                return {
+                    content: [{ type: "text" as const, text: `Updated System.json: ${changed.join(", ")}` }],
+                };
+            } catch (error) {
+                return {
+                    content: [{ type: "text" as const, text: `Error: ${error}` }],
+                    isError: true,
+                };
+            }
+        }
+    );
+}
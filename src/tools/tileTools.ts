@@ -0,0 +1,271 @@
+/**
+ * Tile Tools - get_map_tiles, set_tiles, fill_rect, flood_fill, draw_line
+ */
+
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { FileHandler } from "../utils/fileHandler.js";
+import { SafeWriter } from "../utils/safeWriter.js";
+import type { RPGMap } from "../utils/types.js";
+import {
+    tileSchema, resolveTileId, describeTileId, getDefaultLayer, getTile, isValidPosition,
+    rectCells, lineCells, floodCells, paintCells,
+} from "../utils/tilemap.js";
+import { getMapFilename } from "./mapTools.js";
+
+const layerSchema = z.number().int().min(0).max(5)
+    .describe("Layer: 0=A ground, 1=A decoration, 2=B-E lower, 3=B-E upper, 4=Shadow, 5=Region (default: 0 for A tiles, 2 for B-E)");
+
+const getMapTilesSchema = z.object({
+    mapId: z.number().int().min(1).describe("Map ID"),
+    layer: z.number().int().min(0).max(5).describe("Layer to read (0-3 tiles, 4 shadow, 5 region)"),
+    x: z.number().int().min(0).default(0).describe("Left of the area"),
+    y: z.number().int().min(0).default(0).describe("Top of the area"),
+    width: z.number().int().min(1).optional().describe("Area width (default: to the map edge)"),
+    height: z.number().int().min(1).optional().describe("Area height (default: to the map edge)"),
+    describe: z.boolean().default(false).describe("Return sheet:index descriptions instead of raw IDs"),
+});
+
+const setTilesSchema = z.object({
+    mapId: z.number().int().min(1).describe("Map ID"),
+    tiles: z.array(z.object({
+        x: z.number().int().min(0),
+        y: z.number().int().min(0),
+        tile: tileSchema,
+        layer: layerSchema.optional(),
+    })).min(1).describe("Tiles to write (tile 0 erases)"),
+});
+
+const fillRectSchema = z.object({
+    mapId: z.number().int().min(1).describe("Map ID"),
+    x: z.number().int().min(0).describe("Left of the rectangle"),
+    y: z.number().int().min(0).describe("Top of the rectangle"),
+    width: z.number().int().min(1).describe("Rectangle width"),
+    height: z.number().int().min(1).describe("Rectangle height"),
+    tile: tileSchema,
+    layer: layerSchema.optional(),
+});
+
+const floodFillSchema = z.object({
+    mapId: z.number().int().min(1).describe("Map ID"),
+    x: z.number().int().min(0).describe("Start X"),
+    y: z.number().int().min(0).describe("Start Y"),
+    tile: tileSchema,
+    layer: layerSchema.optional(),
+});
+
+const drawLineSchema = z.object({
+    mapId: z.number().int().min(1).describe("Map ID"),
+    x1: z.number().int().min(0),
+    y1: z.number().int().min(0),
+    x2: z.number().int().min(0),
+    y2: z.number().int().min(0),
+    thickness: z.number().int().min(1).max(16).default(1).describe("Line thickness in tiles"),
+    tile: tileSchema,
+    layer: layerSchema.optional(),
+});
+
+export function registerTileTools(server: McpServer, fileHandler: FileHandler, safeWriter: SafeWriter) {
+    // get_map_tiles - Read an area of a map layer
+    server.tool(
+        "get_map_tiles",
+        "Read the tiles of a map layer as a grid of rows",
+        getMapTilesSchema.shape,
+        async (args) => {
+            try {
+                const { mapId, layer, x, y, describe } = args;
+                const mapFilename = getMapFilename(mapId);
+
+                if (!(await fileHandler.exists(`data/${mapFilename}`))) {
+                    return {
+                        content: [{ type: "text" as const, text: `Error: Map with ID ${mapId} not found` }],
+                        isError: true,
+                    };
+                }
+
+                const mapData = await fileHandler.readJson<RPGMap>(`data/${mapFilename}`);
+                const width = Math.min(args.width ?? mapData.width, mapData.width - x);
+                const height = Math.min(args.height ?? mapData.height, mapData.height - y);
+
+                const rows: (number | string)[][] = [];
+                for (let ty = y; ty < y + height; ty++) {
+                    const row: (number | string)[] = [];
+                    for (let tx = x; tx < x + width; tx++) {
+                        const tileId = getTile(mapData, tx, ty, layer);
+                        row.push(describe && layer < 4 ? describeTileId(tileId) : tileId);
+                    }
+                    rows.push(row);
+                }
+
+                return {
+                    content: [{ type: "text" as const, text: JSON.stringify({ x, y, width, height, layer, rows }) }],
+                };
+            } catch (error) {
+                return {
+                    content: [{ type: "text" as const, text: `Error: ${error}` }],
+                    isError: true,
+                };
+            }
+        }
+    );
+
+    // set_tiles - Write individual tiles
+    server.tool(
+        "set_tiles",
+        "Set individual tiles on a map by position and layer",
+        setTilesSchema.shape,
+        async (args) => {
+            try {
+                const { mapId, tiles } = args;
+                const mapFilename = getMapFilename(mapId);
+
+                if (!(await fileHandler.exists(`data/${mapFilename}`))) {
+                    return {
+                        content: [{ type: "text" as const, text: `Error: Map with ID ${mapId} not found` }],
+                        isError: true,
+                    };
+                }
+
+                const mapData = await fileHandler.readJson<RPGMap>(`data/${mapFilename}`);
+
+                const outside = tiles.filter((t) => !isValidPosition(mapData, t.x, t.y));
+                if (outside.length > 0) {
+                    return {
+                        content: [{ type: "text" as const, text: `Error: Position (${outside[0].x}, ${outside[0].y}) is outside the map (${mapData.width}x${mapData.height})` }],
+                        isError: true,
+                    };
+                }
+
+                for (const t of tiles) {
+                    const tileId = resolveTileId(t.tile);
+                    paintCells(mapData, [t], t.layer ?? getDefaultLayer(tileId), tileId);
+                }
+
+                await safeWriter.writeToDatabase(mapFilename, mapData);
+
+                return {
+                    content: [{ type: "text" as const, text: `Set ${tiles.length} tile(s) on map ${mapId}` }],
+                };
+            } catch (error) {
+                return {
+                    content: [{ type: "text" as const, text: `Error: ${error}` }],
+                    isError: true,
+                };
+            }
+        }
+    );
+
+    // fill_rect - Fill a rectangle with a tile
+    server.tool(
+        "fill_rect",
+        "Fill a rectangle of a map layer with one tile (cells outside the map are skipped)",
+        fillRectSchema.shape,
+        async (args) => {
+            try {
+                const { mapId, x, y, width, height, tile, layer } = args;
+                const mapFilename = getMapFilename(mapId);
+
+                if (!(await fileHandler.exists(`data/${mapFilename}`))) {
+                    return {
+                        content: [{ type: "text" as const, text: `Error: Map with ID ${mapId} not found` }],
+                        isError: true,
+                    };
+                }
+
+                const mapData = await fileHandler.readJson<RPGMap>(`data/${mapFilename}`);
+                const tileId = resolveTileId(tile);
+                const painted = paintCells(mapData, rectCells(x, y, width, height), layer ?? getDefaultLayer(tileId), tileId);
+
+                await safeWriter.writeToDatabase(mapFilename, mapData);
+
+                return {
+                    content: [{ type: "text" as const, text: `Filled ${painted.length} tile(s) with ${describeTileId(tileId)} on map ${mapId}` }],
+                };
+            } catch (error) {
+                return {
+                    content: [{ type: "text" as const, text: `Error: ${error}` }],
+                    isError: true,
+                };
+            }
+        }
+    );
+
+    // flood_fill - Replace a connected area of the same tile
+    server.tool(
+        "flood_fill",
+        "Flood-fill the connected area of matching tiles starting at a position",
+        floodFillSchema.shape,
+        async (args) => {
+            try {
+                const { mapId, x, y, tile, layer } = args;
+                const mapFilename = getMapFilename(mapId);
+
+                if (!(await fileHandler.exists(`data/${mapFilename}`))) {
+                    return {
+                        content: [{ type: "text" as const, text: `Error: Map with ID ${mapId} not found` }],
+                        isError: true,
+                    };
+                }
+
+                const mapData = await fileHandler.readJson<RPGMap>(`data/${mapFilename}`);
+
+                if (!isValidPosition(mapData, x, y)) {
+                    return {
+                        content: [{ type: "text" as const, text: `Error: Position (${x}, ${y}) is outside the map (${mapData.width}x${mapData.height})` }],
+                        isError: true,
+                    };
+                }
+
+                const tileId = resolveTileId(tile);
+                const targetLayer = layer ?? getDefaultLayer(tileId);
+                const painted = paintCells(mapData, floodCells(mapData, x, y, targetLayer), targetLayer, tileId);
+
+                await safeWriter.writeToDatabase(mapFilename, mapData);
+
+                return {
+                    content: [{ type: "text" as const, text: `Flood-filled ${painted.length} tile(s) with ${describeTileId(tileId)} on map ${mapId}` }],
+                };
+            } catch (error) {
+                return {
+                    content: [{ type: "text" as const, text: `Error: ${error}` }],
+                    isError: true,
+                };
+            }
+        }
+    );
+
+    // draw_line - Draw a line of tiles
+    server.tool(
+        "draw_line",
+        "Draw a straight line of tiles between two positions",
+        drawLineSchema.shape,
+        async (args) => {
+            try {
+                const { mapId, x1, y1, x2, y2, thickness, tile, layer } = args;
+                const mapFilename = getMapFilename(mapId);
+
+                if (!(await fileHandler.exists(`data/${mapFilename}`))) {
+                    return {
+                        content: [{ type: "text" as const, text: `Error: Map with ID ${mapId} not found` }],
+                        isError: true,
+                    };
+                }
+
+                const mapData = await fileHandler.readJson<RPGMap>(`data/${mapFilename}`);
+                const tileId = resolveTileId(tile);
+                const painted = paintCells(mapData, lineCells(x1, y1, x2, y2, thickness), layer ?? getDefaultLayer(tileId), tileId);
+
+                await safeWriter.writeToDatabase(mapFilename, mapData);
+
+                return {
+                    content: [{ type: "text" as const, text: `Drew ${painted.length} tile(s) with ${describeTileId(tileId)} on map ${mapId}` }],
+                };
+            } catch (error) {
+                return {
+                    content: [{ type: "text" as const, text: `Error: ${error}` }],
+                    isError: true,
+                };
+            }
+        }
+    );
+}
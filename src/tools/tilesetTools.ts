@@ -0,0 +1,344 @@
+/**
+ * Tileset Tools - get_tilesets, create_tileset, update_tileset, get_tile_flags, set_tile_flags
+ */
+
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { FileHandler } from "../utils/fileHandler.js";
+import { SafeWriter } from "../utils/safeWriter.js";
+import type { RPGTileset } from "../utils/types.js";
+import {
+    tileSchema, tileFlagsSchema, resolveTileId, describeTileId, decodeTileFlags, applyTileFlags,
+    getFlagTileIds, sheetSlots, sheetSizes, TileFlag, TileId,
+} from "../utils/tilemap.js";
+import type { TileSheet } from "../utils/tilemap.js";
+
+const MODE_NAMES = ["Field", "Area"];
+const SHEETS = Object.keys(sheetSlots) as TileSheet[];
+
+const tilesetNamesSchema = z.object({
+    A1: z.string().optional(),
+    A2: z.string().optional(),
+    A3: z.string().optional(),
+    A4: z.string().optional(),
+    A5: z.string().optional(),
+    B: z.string().optional(),
+    C: z.string().optional(),
+    D: z.string().optional(),
+    E: z.string().optional(),
+}).describe("Image names in img/tilesets (without extension) by sheet; empty string clears a slot");
+
+const getTilesetsSchema = z.object({
+    id: z.number().int().min(1).optional().describe("Tileset ID (omit to list all tilesets)"),
+});
+
+const createTilesetSchema = z.object({
+    name: z.string().describe("Tileset name"),
+    mode: z.number().int().min(0).max(1).default(1).describe("Mode: 0=Field (world map), 1=Area"),
+    tilesetNames: tilesetNamesSchema.default({}),
+    note: z.string().default("").describe("Note"),
+});
+
+const updateTilesetSchema = z.object({
+    id: z.number().int().min(1).describe("Tileset ID to update"),
+    name: z.string().optional(),
+    mode: z.number().int().min(0).max(1).optional().describe("Mode: 0=Field (world map), 1=Area"),
+    tilesetNames: tilesetNamesSchema.optional(),
+    note: z.string().optional(),
+});
+
+const getTileFlagsSchema = z.object({
+    tilesetId: z.number().int().min(1).describe("Tileset ID"),
+    tiles: z.array(tileSchema).optional().describe("Tiles to read"),
+    sheet: z.enum(["A1", "A2", "A3", "A4", "A5", "B", "C", "D", "E"]).optional()
+        .describe("Read every tile of a sheet (one entry per autotile kind on A1-A4)"),
+});
+
+const setTileFlagsSchema = z.object({
+    tilesetId: z.number().int().min(1).describe("Tileset ID"),
+    tiles: z.array(tileSchema).min(1).describe("Tiles to change (autotiles apply to every shape of the kind)"),
+    flags: tileFlagsSchema.describe("Flags to change; omitted flags are kept"),
+});
+
+function createDefaultTileset(id: number): RPGTileset {
+    const flags = new Array<number>(TileId.Max).fill(0);
+    // The first B tile is the "empty" tile and is always a star tile
+    flags[0] = TileFlag.Star;
+    return {
+        id,
+        name: "",
+        mode: 1,
+        tilesetNames: ["", "", "", "", "", "", "", "", ""],
+        flags,
+        note: "",
+    };
+}
+
+/**
+ * Apply sheet-keyed image names to RPGTileset.tilesetNames
+ */
+function applyTilesetNames(tileset: RPGTileset, names: z.infer<typeof tilesetNamesSchema>): void {
+    for (const sheet of SHEETS) {
+        const name = names[sheet];
+        if (name !== undefined) {
+            tileset.tilesetNames[sheetSlots[sheet]] = name;
+        }
+    }
+}
+
+/**
+ * Warnings for image names that have no file in img/tilesets
+ */
+async function checkTilesetImages(fileHandler: FileHandler, tileset: RPGTileset): Promise<string[]> {
+    const warnings: string[] = [];
+    for (const sheet of SHEETS) {
+        const imageName = tileset.tilesetNames[sheetSlots[sheet]];
+        if (imageName && !(await fileHandler.exists(`img/tilesets/${imageName}.png`))) {
+            warnings.push(`Warning: ${sheet} image img/tilesets/${imageName}.png is missing`);
+        }
+    }
+    return warnings;
+}
+
+function summarizeTileset(tileset: RPGTileset) {
+    const images: Partial<Record<TileSheet, string>> = {};
+    for (const sheet of SHEETS) {
+        const imageName = tileset.tilesetNames[sheetSlots[sheet]];
+        if (imageName) images[sheet] = imageName;
+    }
+    return {
+        id: tileset.id,
+        name: tileset.name,
+        mode: MODE_NAMES[tileset.mode] ?? tileset.mode,
+        images,
+        note: tileset.note,
+    };
+}
+
+/**
+ * Describe a flag entry: autotiles by kind only, since all shapes share the flags
+ */
+function describeFlagTile(tileId: number): string {
+    return describeTileId(tileId).replace(/ \(shape \d+\)$/, "");
+}
+
+/**
+ * First tile ID of every flag entry on a sheet (one per autotile kind on A1-A4)
+ */
+function getSheetTileIds(sheet: TileSheet): number[] {
+    const ids: number[] = [];
+    for (let index = 0; index < sheetSizes[sheet]; index++) {
+        ids.push(resolveTileId({ sheet, index }));
+    }
+    return ids;
+}
+
+export function registerTilesetTools(server: McpServer, fileHandler: FileHandler, safeWriter: SafeWriter) {
+    // get_tilesets - List tilesets or get one
+    server.tool(
+        "get_tilesets",
+        "Get all tilesets (mode, image names per sheet, note), or one tileset by ID",
+        getTilesetsSchema.shape,
+        async (args) => {
+            try {
+                const { id } = args;
+                const tilesets = await fileHandler.readJson<(RPGTileset | null)[]>("data/Tilesets.json");
+
+                if (id !== undefined) {
+                    if (id >= tilesets.length || !tilesets[id]) {
+                        return {
+                            content: [{ type: "text" as const, text: `Error: Tileset ID ${id} not found` }],
+                            isError: true,
+                        };
+                    }
+                    return {
+                        content: [{ type: "text" as const, text: JSON.stringify(summarizeTileset(tilesets[id]!), null, 2) }],
+                    };
+                }
+
+                const tilesetList = tilesets
+                    .filter((t): t is RPGTileset => t !== null)
+                    .map(summarizeTileset);
+
+                return {
+                    content: [{ type: "text" as const, text: JSON.stringify(tilesetList, null, 2) }],
+                };
+            } catch (error) {
+                return {
+                    content: [{ type: "text" as const, text: `Error: ${error}` }],
+                    isError: true,
+                };
+            }
+        }
+    );
+
+    // create_tileset - Create a new tileset
+    server.tool(
+        "create_tileset",
+        "Create a new tileset with its sheet images",
+        createTilesetSchema.shape,
+        async (args) => {
+            try {
+                const { name, mode, tilesetNames, note } = args;
+
+                const tilesets = await fileHandler.readJson<(RPGTileset | null)[]>("data/Tilesets.json");
+                const newId = tilesets.length;
+
+                const newTileset = createDefaultTileset(newId);
+                newTileset.name = name;
+                newTileset.mode = mode;
+                newTileset.note = note;
+                applyTilesetNames(newTileset, tilesetNames);
+
+                tilesets.push(newTileset);
+                await safeWriter.writeToDatabase("Tilesets.json", tilesets);
+
+                const warnings = await checkTilesetImages(fileHandler, newTileset);
+                return {
+                    content: [{ type: "text" as const, text: [`Created tileset "${name}" with ID ${newId}`, ...warnings].join("\n") }],
+                };
+            } catch (error) {
+                return {
+                    content: [{ type: "text" as const, text: `Error: ${error}` }],
+                    isError: true,
+                };
+            }
+        }
+    );
+
+    // update_tileset - Update an existing tileset
+    server.tool(
+        "update_tileset",
+        "Update a tileset's name, mode, sheet images or note",
+        updateTilesetSchema.shape,
+        async (args) => {
+            try {
+                const { id, name, mode, tilesetNames, note } = args;
+
+                const tilesets = await fileHandler.readJson<(RPGTileset | null)[]>("data/Tilesets.json");
+
+                if (id >= tilesets.length || !tilesets[id]) {
+                    return {
+                        content: [{ type: "text" as const, text: `Error: Tileset ID ${id} not found` }],
+                        isError: true,
+                    };
+                }
+
+                const tileset = tilesets[id]!;
+
+                if (name !== undefined) tileset.name = name;
+                if (mode !== undefined) tileset.mode = mode;
+                if (note !== undefined) tileset.note = note;
+                if (tilesetNames !== undefined) applyTilesetNames(tileset, tilesetNames);
+
+                await safeWriter.writeToDatabase("Tilesets.json", tilesets);
+
+                const warnings = await checkTilesetImages(fileHandler, tileset);
+                return {
+                    content: [{ type: "text" as const, text: [`Updated tileset "${tileset.name}" (ID ${id})`, ...warnings].join("\n") }],
+                };
+            } catch (error) {
+                return {
+                    content: [{ type: "text" as const, text: `Error: ${error}` }],
+                    isError: true,
+                };
+            }
+        }
+    );
+
+    // get_tile_flags - Read decoded tile flags
+    server.tool(
+        "get_tile_flags",
+        "Get the passability, star, ladder, bush, counter, damage floor and terrain tag flags of tiles in a tileset",
+        getTileFlagsSchema.shape,
+        async (args) => {
+            try {
+                const { tilesetId, tiles, sheet } = args;
+
+                if (!tiles && !sheet) {
+                    return {
+                        content: [{ type: "text" as const, text: "Error: Specify tiles or sheet" }],
+                        isError: true,
+                    };
+                }
+
+                const tilesets = await fileHandler.readJson<(RPGTileset | null)[]>("data/Tilesets.json");
+
+                if (tilesetId >= tilesets.length || !tilesets[tilesetId]) {
+                    return {
+                        content: [{ type: "text" as const, text: `Error: Tileset ID ${tilesetId} not found` }],
+                        isError: true,
+                    };
+                }
+
+                const tileset = tilesets[tilesetId]!;
+                const tileIds = [
+                    ...(tiles ?? []).map(resolveTileId),
+                    ...(sheet ? getSheetTileIds(sheet) : []),
+                ];
+
+                const result = tileIds.map((tileId) => ({
+                    tile: describeFlagTile(tileId),
+                    tileId,
+                    flag: tileset.flags[tileId] ?? 0,
+                    ...decodeTileFlags(tileset.flags[tileId] ?? 0),
+                }));
+
+                return {
+                    content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
+                };
+            } catch (error) {
+                return {
+                    content: [{ type: "text" as const, text: `Error: ${error}` }],
+                    isError: true,
+                };
+            }
+        }
+    );
+
+    // set_tile_flags - Change tile flags
+    server.tool(
+        "set_tile_flags",
+        "Set passability (per direction), star, ladder, bush, counter, damage floor or terrain tag flags on tiles of a tileset",
+        setTileFlagsSchema.shape,
+        async (args) => {
+            try {
+                const { tilesetId, tiles, flags } = args;
+
+                const tilesets = await fileHandler.readJson<(RPGTileset | null)[]>("data/Tilesets.json");
+
+                if (tilesetId >= tilesets.length || !tilesets[tilesetId]) {
+                    return {
+                        content: [{ type: "text" as const, text: `Error: Tileset ID ${tilesetId} not found` }],
+                        isError: true,
+                    };
+                }
+
+                const tileset = tilesets[tilesetId]!;
+                const tileIds = tiles.map(resolveTileId);
+
+                // Older or hand-written files may have a short flags array
+                while (tileset.flags.length < TileId.Max) {
+                    tileset.flags.push(0);
+                }
+
+                for (const tileId of tileIds) {
+                    for (const id of getFlagTileIds(tileId)) {
+                        tileset.flags[id] = applyTileFlags(tileset.flags[id], flags);
+                    }
+                }
+
+                await safeWriter.writeToDatabase("Tilesets.json", tilesets);
+
+                return {
+                    content: [{ type: "text" as const, text: `Updated flags of ${tileIds.map(describeFlagTile).join(", ")} in tileset "${tileset.name}" (ID ${tilesetId})` }],
+                };
+            } catch (error) {
+                return {
+                    content: [{ type: "text" as const, text: `Error: ${error}` }],
+                    isError: true,
+                };
+            }
+        }
+    );
+}
@@ -0,0 +1,165 @@
+/**
+ * Trait Tools - list_traits, add_trait, remove_trait
+ */
+
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { FileHandler } from "../utils/fileHandler.js";
+import { SafeWriter } from "../utils/safeWriter.js";
+import type { RPGTrait } from "../utils/types.js";
+import { traitSchema, encodeTrait, loadTraitNames, describeTrait } from "../utils/traits.js";
+
+const traitDatabases = {
+    actors: { file: "Actors.json", label: "Actor" },
+    classes: { file: "Classes.json", label: "Class" },
+    weapons: { file: "Weapons.json", label: "Weapon" },
+    armors: { file: "Armors.json", label: "Armor" },
+    enemies: { file: "Enemies.json", label: "Enemy" },
+    states: { file: "States.json", label: "State" },
+} as const;
+
+const databaseSchema = z.enum(["actors", "classes", "weapons", "armors", "enemies", "states"]).describe("Database holding the entry");
+
+const listTraitsSchema = z.object({
+    database: databaseSchema,
+    id: z.number().int().min(1).describe("Entry ID"),
+});
+
+const addTraitSchema = z.object({
+    database: databaseSchema,
+    id: z.number().int().min(1).describe("Entry ID"),
+    trait: traitSchema.describe("Trait to add; rates in percent (e.g. { type: \"elementRate\", element: \"Fire\", percent: 50 })"),
+});
+
+const removeTraitSchema = z.object({
+    database: databaseSchema,
+    id: z.number().int().min(1).describe("Entry ID"),
+    index: z.number().int().min(0).describe("Index of the trait as shown by list_traits"),
+});
+
+interface TraitEntity {
+    id: number;
+    name: string;
+    traits: RPGTrait[];
+}
+
+export function registerTraitTools(server: McpServer, fileHandler: FileHandler, safeWriter: SafeWriter) {
+    // list_traits - Show the traits of an entry
+    server.tool(
+        "list_traits",
+        "List the traits of an actor, class, weapon, armor, enemy or state with readable descriptions",
+        listTraitsSchema.shape,
+        async (args) => {
+            try {
+                const { database, id } = args;
+                const { file, label } = traitDatabases[database];
+                const entries = await fileHandler.readJson<(TraitEntity | null)[]>(`data/${file}`);
+
+                if (id >= entries.length || !entries[id]) {
+                    return {
+                        content: [{ type: "text" as const, text: `Error: ${label} with ID ${id} not found` }],
+                        isError: true,
+                    };
+                }
+
+                const entity = entries[id]!;
+                const names = await loadTraitNames(fileHandler);
+                const traits = (entity.traits ?? []).map((trait, index) => ({
+                    index,
+                    description: describeTrait(trait, names),
+                    ...trait,
+                }));
+
+                return {
+                    content: [{ type: "text" as const, text: JSON.stringify({ id, name: entity.name, traits }, null, 2) }],
+                };
+            } catch (error) {
+                return {
+                    content: [{ type: "text" as const, text: `Error: ${error}` }],
+                    isError: true,
+                };
+            }
+        }
+    );
+
+    // add_trait - Append a trait to an entry
+    server.tool(
+        "add_trait",
+        "Add a trait (element/state/debuff rates, parameters, attack element/state, skill types, skills, equip types, slot type, action times, special flags, collapse effect, party ability) to an actor, class, weapon, armor, enemy or state",
+        addTraitSchema.shape,
+        async (args) => {
+            try {
+                const { database, id, trait } = args;
+                const { file, label } = traitDatabases[database];
+                const entries = await fileHandler.readJson<(TraitEntity | null)[]>(`data/${file}`);
+
+                if (id >= entries.length || !entries[id]) {
+                    return {
+                        content: [{ type: "text" as const, text: `Error: ${label} with ID ${id} not found` }],
+                        isError: true,
+                    };
+                }
+
+                const entity = entries[id]!;
+                const newTrait = await encodeTrait(fileHandler, trait);
+                if (!entity.traits) entity.traits = [];
+                entity.traits.push(newTrait);
+
+                await safeWriter.writeToDatabase(file, entries);
+
+                const description = describeTrait(newTrait, await loadTraitNames(fileHandler));
+                return {
+                    content: [{ type: "text" as const, text: `Added trait "${description}" to ${label.toLowerCase()} ${id} "${entity.name}" at index ${entity.traits.length - 1}` }],
+                };
+            } catch (error) {
+                return {
+                    content: [{ type: "text" as const, text: `Error: ${error}` }],
+                    isError: true,
+                };
+            }
+        }
+    );
+
+    // remove_trait - Remove a trait by index
+    server.tool(
+        "remove_trait",
+        "Remove a trait from an actor, class, weapon, armor, enemy or state by its index in list_traits",
+        removeTraitSchema.shape,
+        async (args) => {
+            try {
+                const { database, id, index } = args;
+                const { file, label } = traitDatabases[database];
+                const entries = await fileHandler.readJson<(TraitEntity | null)[]>(`data/${file}`);
+
+                if (id >= entries.length || !entries[id]) {
+                    return {
+                        content: [{ type: "text" as const, text: `Error: ${label} with ID ${id} not found` }],
+                        isError: true,
+                    };
+                }
+
+                const entity = entries[id]!;
+                const traits = entity.traits ?? [];
+                if (index >= traits.length) {
+                    return {
+                        content: [{ type: "text" as const, text: `Error: ${label} ${id} has ${traits.length} trait(s); no index ${index}` }],
+                        isError: true,
+                    };
+                }
+
+                const [removed] = traits.splice(index, 1);
+                await safeWriter.writeToDatabase(file, entries);
+
+                const description = describeTrait(removed, await loadTraitNames(fileHandler));
+                return {
+                    content: [{ type: "text" as const, text: `Removed trait "${description}" from ${label.toLowerCase()} ${id} "${entity.name}"` }],
+                };
+            } catch (error) {
+                return {
+                    content: [{ type: "text" as const, text: `Error: ${error}` }],
+                    isError: true,
+                };
+            }
+        }
+    );
+}
@@ -0,0 +1,444 @@
+/**
+ * Troop Tools - get_troops, get_troop, create_troop, update_troop, add_map_encounter, remove_map_encounter
+ */
+
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { FileHandler } from "../utils/fileHandler.js";
+import { SafeWriter } from "../utils/safeWriter.js";
+import type { RPGTroop, RPGTroopMember, RPGTroopPage, RPGEnemy, RPGMap, RPGSystem } from "../utils/types.js";
+import { eventCommandSpecSchema, compileCommandList } from "../utils/eventCommands.js";
+import { eventCommandSchema, terminateCommandList } from "./eventTools.js";
+import { getMapFilename } from "./mapTools.js";
+import { typeRefSchema, resolveTypeId } from "../utils/typeRegistry.js";
+
+const troopMemberSchema = z.object({
+    enemyId: z.number().int().min(1).describe("Enemy ID"),
+    x: z.number().int().min(0).max(816).optional().describe("Screen X position (auto-arranged when omitted)"),
+    y: z.number().int().min(0).max(624).optional().describe("Screen Y position (auto-arranged when omitted)"),
+    hidden: z.boolean().default(false).describe("Appear halfway (hidden until revealed by an event)"),
+});
+
+const troopPageSchema = z.object({
+    span: z.number().int().min(0).max(2).default(0).describe("Span: 0=Battle (once per battle), 1=Turn, 2=Moment"),
+    conditions: z.object({
+        turnEnding: z.boolean().default(false).describe("Run at the end of a turn"),
+        turn: z.object({
+            a: z.number().int().min(0),
+            b: z.number().int().min(0),
+        }).optional().describe("Run on turn a + b * X"),
+        enemy: z.object({
+            index: z.number().int().min(0).max(7).describe("Troop member index (0-based)"),
+            hpPercent: z.number().int().min(0).max(100),
+        }).optional().describe("Run when this enemy's HP is at or below the percentage"),
+        actor: z.object({
+            actorId: z.number().int().min(1),
+            hpPercent: z.number().int().min(0).max(100),
+        }).optional().describe("Run when this actor's HP is at or below the percentage"),
+        switchId: typeRefSchema.optional().describe("Run when this switch (ID or name) is ON"),
+    }).default({}).describe("Page conditions; a page without conditions never runs"),
+    commands: z.array(eventCommandSpecSchema).optional().describe("High-level commands compiled to the page's command list"),
+    list: z.array(eventCommandSchema).optional().describe("Raw event commands; ignored when commands is given"),
+});
+
+type TroopPageInput = z.infer<typeof troopPageSchema>;
+
+const getTroopSchema = z.object({
+    id: z.number().int().min(1).describe("Troop ID"),
+});
+
+const createTroopSchema = z.object({
+    name: z.string().optional().describe("Troop name (auto-named from its members when omitted)"),
+    members: z.array(troopMemberSchema).min(1).max(8).describe("Enemies in the troop"),
+    pages: z.array(troopPageSchema).default([{}]).describe("Battle event pages"),
+});
+
+const updateTroopSchema = z.object({
+    id: z.number().int().min(1).describe("Troop ID to update"),
+    name: z.string().optional(),
+    autoName: z.boolean().default(false).describe("Rename the troop from its members like the editor's Auto-name"),
+    members: z.array(troopMemberSchema).min(1).max(8).optional().describe("Replace all members"),
+    pages: z.array(troopPageSchema).min(1).optional().describe("Replace all battle event pages"),
+    pageIndex: z.number().int().min(0).optional().describe("Index of a single page to replace (use the page count to append)"),
+    page: troopPageSchema.optional().describe("Page data for pageIndex"),
+});
+
+const addMapEncounterSchema = z.object({
+    mapId: z.number().int().min(1).describe("Map ID"),
+    troopId: z.number().int().min(1).describe("Troop ID"),
+    weight: z.number().int().min(1).max(100).default(5).describe("Encounter weight"),
+    regionSet: z.array(z.number().int().min(1).max(255)).max(3).default([]).describe("Region IDs where the troop appears (empty = whole map)"),
+});
+
+const removeMapEncounterSchema = z.object({
+    mapId: z.number().int().min(1).describe("Map ID"),
+    troopId: z.number().int().min(1).describe("Troop ID to remove from the encounter list"),
+});
+
+function createDefaultTroopPage(): RPGTroopPage {
+    return {
+        conditions: {
+            actorHp: 50,
+            actorId: 1,
+            actorValid: false,
+            enemyHp: 50,
+            enemyIndex: 0,
+            enemyValid: false,
+            switchId: 1,
+            switchValid: false,
+            turnA: 0,
+            turnB: 0,
+            turnEnding: false,
+            turnValid: false,
+        },
+        list: [{ code: 0, indent: 0, parameters: [] }],
+        span: 0,
+    };
+}
+
+function createDefaultTroop(id: number): RPGTroop {
+    return {
+        id,
+        members: [],
+        name: "",
+        pages: [createDefaultTroopPage()],
+    };
+}
+
+function buildTroopPage(input: TroopPageInput, system: RPGSystem): RPGTroopPage {
+    const page = createDefaultTroopPage();
+    const { conditions } = input;
+
+    page.span = input.span;
+    page.conditions.turnEnding = conditions.turnEnding;
+
+    if (conditions.turn) {
+        page.conditions.turnValid = true;
+        page.conditions.turnA = conditions.turn.a;
+        page.conditions.turnB = conditions.turn.b;
+    }
+    if (conditions.enemy) {
+        page.conditions.enemyValid = true;
+        page.conditions.enemyIndex = conditions.enemy.index;
+        page.conditions.enemyHp = conditions.enemy.hpPercent;
+    }
+    if (conditions.actor) {
+        page.conditions.actorValid = true;
+        page.conditions.actorId = conditions.actor.actorId;
+        page.conditions.actorHp = conditions.actor.hpPercent;
+    }
+    const switchId = conditions.switchId !== undefined ? resolveTypeId(system, "switches", conditions.switchId) : 0;
+    if (switchId > 0) {
+        page.conditions.switchValid = true;
+        page.conditions.switchId = switchId;
+    }
+
+    if (input.commands) {
+        page.list = compileCommandList(input.commands);
+    } else if (input.list) {
+        page.list = terminateCommandList([...input.list]);
+    }
+
+    return page;
+}
+
+/**
+ * Spread members without explicit positions across the battle field
+ */
+function buildMembers(input: z.infer<typeof troopMemberSchema>[]): RPGTroopMember[] {
+    return input.map((m, i) => ({
+        enemyId: m.enemyId,
+        x: m.x ?? Math.round((816 * (i + 1)) / (input.length + 1)),
+        y: m.y ?? 436,
+        hidden: m.hidden,
+    }));
+}
+
+/**
+ * Name a troop from its members like the editor's Auto-name (e.g. "Bat*2, Slime")
+ */
+function autoNameTroop(members: RPGTroopMember[], enemies: (RPGEnemy | null)[]): string {
+    const counts = new Map<string, number>();
+    for (const member of members) {
+        const name = enemies[member.enemyId]?.name ?? "";
+        counts.set(name, (counts.get(name) ?? 0) + 1);
+    }
+    return [...counts.entries()]
+        .map(([name, count]) => (count > 1 ? `${name}*${count}` : name))
+        .join(", ");
+}
+
+function findMissingEnemies(members: { enemyId: number }[], enemies: (RPGEnemy | null)[]): number[] {
+    return members
+        .map((m) => m.enemyId)
+        .filter((id) => id >= enemies.length || !enemies[id]);
+}
+
+export function registerTroopTools(server: McpServer, fileHandler: FileHandler, safeWriter: SafeWriter) {
+    // get_troops - List all troops
+    server.tool(
+        "get_troops",
+        "Get all troops (enemy groups) from the database",
+        {},
+        async () => {
+            try {
+                const troops = await fileHandler.readJson<(RPGTroop | null)[]>("data/Troops.json");
+                const troopList = troops
+                    .filter((t): t is RPGTroop => t !== null && t.name !== "")
+                    .map((t) => ({
+                        id: t.id,
+                        name: t.name,
+                        enemyIds: t.members.map((m) => m.enemyId),
+                        pages: t.pages.length,
+                    }));
+
+                return {
+                    content: [{ type: "text" as const, text: JSON.stringify(troopList, null, 2) }],
+                };
+            } catch (error) {
+                return {
+                    content: [{ type: "text" as const, text: `Error: ${error}` }],
+                    isError: true,
+                };
+            }
+        }
+    );
+
+    // get_troop - Get a single troop with members and battle event pages
+    server.tool(
+        "get_troop",
+        "Get a troop including its members and battle event pages",
+        getTroopSchema.shape,
+        async (args) => {
+            try {
+                const { id } = args;
+
+                const troops = await fileHandler.readJson<(RPGTroop | null)[]>("data/Troops.json");
+
+                if (id >= troops.length || !troops[id]) {
+                    return {
+                        content: [{ type: "text" as const, text: `Error: Troop ID ${id} not found` }],
+                        isError: true,
+                    };
+                }
+
+                return {
+                    content: [{ type: "text" as const, text: JSON.stringify(troops[id], null, 2) }],
+                };
+            } catch (error) {
+                return {
+                    content: [{ type: "text" as const, text: `Error: ${error}` }],
+                    isError: true,
+                };
+            }
+        }
+    );
+
+    // create_troop - Create a new troop
+    server.tool(
+        "create_troop",
+        "Create a new troop from enemies, with optional battle event pages",
+        createTroopSchema.shape,
+        async (args) => {
+            try {
+                const { name, members, pages } = args;
+
+                const [troops, enemies, system] = await Promise.all([
+                    fileHandler.readJson<(RPGTroop | null)[]>("data/Troops.json"),
+                    fileHandler.readJson<(RPGEnemy | null)[]>("data/Enemies.json"),
+                    fileHandler.readJson<RPGSystem>("data/System.json"),
+                ]);
+
+                const missing = findMissingEnemies(members, enemies);
+                if (missing.length > 0) {
+                    return {
+                        content: [{ type: "text" as const, text: `Error: Enemy ID(s) ${missing.join(", ")} not found` }],
+                        isError: true,
+                    };
+                }
+
+                const newId = troops.length;
+
+                const newTroop = createDefaultTroop(newId);
+                newTroop.members = buildMembers(members);
+                newTroop.name = name ?? autoNameTroop(newTroop.members, enemies);
+                if (pages.length > 0) {
+                    newTroop.pages = pages.map((p) => buildTroopPage(p, system));
+                }
+
+                troops.push(newTroop);
+                await safeWriter.writeToDatabase("Troops.json", troops);
+
+                return {
+                    content: [{ type: "text" as const, text: `Created troop "${newTroop.name}" with ID ${newId}` }],
+                };
+            } catch (error) {
+                return {
+                    content: [{ type: "text" as const, text: `Error: ${error}` }],
+                    isError: true,
+                };
+            }
+        }
+    );
+
+    // update_troop - Update an existing troop
+    server.tool(
+        "update_troop",
+        "Update a troop's name, members or battle event pages (replace all pages, or replace/append one page by index)",
+        updateTroopSchema.shape,
+        async (args) => {
+            try {
+                const { id, name, autoName, members, pages, pageIndex, page } = args;
+
+                const [troops, enemies, system] = await Promise.all([
+                    fileHandler.readJson<(RPGTroop | null)[]>("data/Troops.json"),
+                    fileHandler.readJson<(RPGEnemy | null)[]>("data/Enemies.json"),
+                    fileHandler.readJson<RPGSystem>("data/System.json"),
+                ]);
+
+                if (id >= troops.length || !troops[id]) {
+                    return {
+                        content: [{ type: "text" as const, text: `Error: Troop ID ${id} not found` }],
+                        isError: true,
+                    };
+                }
+
+                if ((pageIndex === undefined) !== (page === undefined)) {
+                    return {
+                        content: [{ type: "text" as const, text: "Error: pageIndex and page must be given together" }],
+                        isError: true,
+                    };
+                }
+
+                const troop = troops[id]!;
+
+                if (members !== undefined) {
+                    const missing = findMissingEnemies(members, enemies);
+                    if (missing.length > 0) {
+                        return {
+                            content: [{ type: "text" as const, text: `Error: Enemy ID(s) ${missing.join(", ")} not found` }],
+                            isError: true,
+                        };
+                    }
+                    troop.members = buildMembers(members);
+                }
+
+                if (name !== undefined) troop.name = name;
+                if (autoName) troop.name = autoNameTroop(troop.members, enemies);
+                if (pages !== undefined) troop.pages = pages.map((p) => buildTroopPage(p, system));
+
+                if (pageIndex !== undefined && page !== undefined) {
+                    if (pageIndex > troop.pages.length) {
+                        return {
+                            content: [{ type: "text" as const, text: `Error: Page index ${pageIndex} is out of range (troop has ${troop.pages.length} pages)` }],
+                            isError: true,
+                        };
+                    }
+                    troop.pages[pageIndex] = buildTroopPage(page, system);
+                }
+
+                await safeWriter.writeToDatabase("Troops.json", troops);
+
+                return {
+                    content: [{ type: "text" as const, text: `Updated troop "${troop.name}" (ID ${id})` }],
+                };
+            } catch (error) {
+                return {
+                    content: [{ type: "text" as const, text: `Error: ${error}` }],
+                    isError: true,
+                };
+            }
+        }
+    );
+
+    // add_map_encounter - Add a troop to a map's encounter list
+    server.tool(
+        "add_map_encounter",
+        "Add a troop to a map's random encounter list (or update its weight and regions if already listed)",
+        addMapEncounterSchema.shape,
+        async (args) => {
+            try {
+                const { mapId, troopId, weight, regionSet } = args;
+                const mapFilename = getMapFilename(mapId);
+
+                if (!(await fileHandler.exists(`data/${mapFilename}`))) {
+                    return {
+                        content: [{ type: "text" as const, text: `Error: Map with ID ${mapId} not found` }],
+                        isError: true,
+                    };
+                }
+
+                const troops = await fileHandler.readJson<(RPGTroop | null)[]>("data/Troops.json");
+                if (troopId >= troops.length || !troops[troopId]) {
+                    return {
+                        content: [{ type: "text" as const, text: `Error: Troop ID ${troopId} not found` }],
+                        isError: true,
+                    };
+                }
+
+                const mapData = await fileHandler.readJson<RPGMap>(`data/${mapFilename}`);
+                const encounter = { regionSet, troopId, weight };
+                const existingIndex = mapData.encounterList.findIndex((e) => e.troopId === troopId);
+
+                if (existingIndex >= 0) {
+                    mapData.encounterList[existingIndex] = encounter;
+                } else {
+                    mapData.encounterList.push(encounter);
+                }
+
+                await safeWriter.writeToDatabase(mapFilename, mapData);
+
+                return {
+                    content: [{ type: "text" as const, text: `Troop "${troops[troopId]!.name}" (ID ${troopId}) ${existingIndex >= 0 ? "updated in" : "added to"} map ${mapId} encounters` }],
+                };
+            } catch (error) {
+                return {
+                    content: [{ type: "text" as const, text: `Error: ${error}` }],
+                    isError: true,
+                };
+            }
+        }
+    );
+
+    // remove_map_encounter - Remove a troop from a map's encounter list
+    server.tool(
+        "remove_map_encounter",
+        "Remove a troop from a map's random encounter list",
+        removeMapEncounterSchema.shape,
+        async (args) => {
+            try {
+                const { mapId, troopId } = args;
+                const mapFilename = getMapFilename(mapId);
+
+                if (!(await fileHandler.exists(`data/${mapFilename}`))) {
+                    return {
+                        content: [{ type: "text" as const, text: `Error: Map with ID ${mapId} not found` }],
+                        isError: true,
+                    };
+                }
+
+                const mapData = await fileHandler.readJson<RPGMap>(`data/${mapFilename}`);
+                const remaining = mapData.encounterList.filter((e) => e.troopId !== troopId);
+
+                if (remaining.length === mapData.encounterList.length) {
+                    return {
+                        content: [{ type: "text" as const, text: `Error: Troop ID ${troopId} is not in map ${mapId} encounters` }],
+                        isError: true,
+                    };
+                }
+
+                mapData.encounterList = remaining;
+                await safeWriter.writeToDatabase(mapFilename, mapData);
+
+                return {
+                    content: [{ type: "text" as const, text: `Removed troop ID ${troopId} from map ${mapId} encounters` }],
+                };
+            } catch (error) {
+                return {
+                    content: [{ type: "text" as const, text: `Error: ${error}` }],
+                    isError: true,
+                };
+            }
+        }
+    );
+}
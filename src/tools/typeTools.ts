@@ -0,0 +1,176 @@
+/**
+ * Type Tools - get_types, add_type, rename_type, resize_types
+ */
+
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { FileHandler } from "../utils/fileHandler.js";
+import { SafeWriter } from "../utils/safeWriter.js";
+import type { RPGSystem } from "../utils/types.js";
+import { typeRegistrySchema, registryLabels, getRegistry } from "../utils/typeRegistry.js";
+
+const registryDescription = "Which list: elements, skillTypes, weaponTypes, armorTypes, equipTypes, switches or variables";
+
+const getTypesSchema = z.object({
+    registry: typeRegistrySchema.describe(registryDescription),
+    namedOnly: z.boolean().default(false).describe("Skip entries with an empty name"),
+});
+
+const addTypeSchema = z.object({
+    registry: typeRegistrySchema.describe(registryDescription),
+    name: z.string().min(1).describe("Name of the new entry"),
+});
+
+const renameTypeSchema = z.object({
+    registry: typeRegistrySchema.describe(registryDescription),
+    id: z.number().int().min(1).describe("Entry ID"),
+    name: z.string().describe("New name"),
+});
+
+const resizeTypesSchema = z.object({
+    registry: typeRegistrySchema.describe(registryDescription),
+    count: z.number().int().min(1).max(5000).describe("New number of entries (IDs 1..count)"),
+    force: z.boolean().default(false).describe("Allow removing entries that have a name"),
+});
+
+export function registerTypeTools(server: McpServer, fileHandler: FileHandler, safeWriter: SafeWriter) {
+    // get_types - List a registry
+    server.tool(
+        "get_types",
+        "List the IDs and names of elements, skill/weapon/armor/equip types, switches or variables from System.json",
+        getTypesSchema.shape,
+        async (args) => {
+            try {
+                const { registry, namedOnly } = args;
+                const system = await fileHandler.readJson<RPGSystem>("data/System.json");
+
+                const entries = getRegistry(system, registry)
+                    .map((name, id) => ({ id, name }))
+                    .filter((entry) => entry.id > 0 && (!namedOnly || entry.name !== ""));
+
+                return {
+                    content: [{ type: "text" as const, text: JSON.stringify(entries, null, 2) }],
+                };
+            } catch (error) {
+                return {
+                    content: [{ type: "text" as const, text: `Error: ${error}` }],
+                    isError: true,
+                };
+            }
+        }
+    );
+
+    // add_type - Append an entry to a registry
+    server.tool(
+        "add_type",
+        "Add an element, skill/weapon/armor/equip type, switch or variable to System.json",
+        addTypeSchema.shape,
+        async (args) => {
+            try {
+                const { registry, name } = args;
+                const system = await fileHandler.readJson<RPGSystem>("data/System.json");
+                const names = getRegistry(system, registry);
+
+                const existing = names.findIndex((n, i) => i > 0 && n.toLowerCase() === name.toLowerCase());
+                if (existing > 0) {
+                    return {
+                        content: [{ type: "text" as const, text: `Error: "${name}" already exists as ${registryLabels[registry]} ID ${existing}` }],
+                        isError: true,
+                    };
+                }
+
+                const newId = names.length;
+                names.push(name);
+                await safeWriter.writeToDatabase("System.json", system);
+
+                return {
+                    content: [{ type: "text" as const, text: `Added ${registryLabels[registry]} "${name}" with ID ${newId}` }],
+                };
+            } catch (error) {
+                return {
+                    content: [{ type: "text" as const, text: `Error: ${error}` }],
+                    isError: true,
+                };
+            }
+        }
+    );
+
+    // rename_type - Rename a registry entry
+    server.tool(
+        "rename_type",
+        "Rename an element, skill/weapon/armor/equip type, switch or variable",
+        renameTypeSchema.shape,
+        async (args) => {
+            try {
+                const { registry, id, name } = args;
+                const system = await fileHandler.readJson<RPGSystem>("data/System.json");
+                const names = getRegistry(system, registry);
+
+                if (id >= names.length) {
+                    return {
+                        content: [{ type: "text" as const, text: `Error: No ${registryLabels[registry]} with ID ${id} (1-${names.length - 1} available)` }],
+                        isError: true,
+                    };
+                }
+
+                const oldName = names[id];
+                names[id] = name;
+                await safeWriter.writeToDatabase("System.json", system);
+
+                return {
+                    content: [{ type: "text" as const, text: `Renamed ${registryLabels[registry]} ${id} from "${oldName}" to "${name}"` }],
+                };
+            } catch (error) {
+                return {
+                    content: [{ type: "text" as const, text: `Error: ${error}` }],
+                    isError: true,
+                };
+            }
+        }
+    );
+
+    // resize_types - Change the number of registry entries
+    server.tool(
+        "resize_types",
+        "Change the maximum number of elements, skill/weapon/armor/equip types, switches or variables",
+        resizeTypesSchema.shape,
+        async (args) => {
+            try {
+                const { registry, count, force } = args;
+                const system = await fileHandler.readJson<RPGSystem>("data/System.json");
+                const names = getRegistry(system, registry);
+                const oldCount = names.length - 1;
+
+                if (count < oldCount) {
+                    const named = names
+                        .slice(count + 1)
+                        .map((name, i) => ({ id: count + 1 + i, name }))
+                        .filter((entry) => entry.name !== "");
+                    if (named.length > 0 && !force) {
+                        const list = named.slice(0, 10).map((e) => `${e.id}=${e.name}`).join(", ");
+                        return {
+                            content: [{ type: "text" as const, text: `Error: Shrinking would remove named entries (${list}${named.length > 10 ? ", ..." : ""}); pass force to remove them` }],
+                            isError: true,
+                        };
+                    }
+                    names.length = count + 1;
+                } else {
+                    while (names.length < count + 1) {
+                        names.push("");
+                    }
+                }
+
+                await safeWriter.writeToDatabase("System.json", system);
+
+                return {
+                    content: [{ type: "text" as const, text: `Resized ${registry} from ${oldCount} to ${count} entries` }],
+                };
+            } catch (error) {
+                return {
+                    content: [{ type: "text" as const, text: `Error: ${error}` }],
+                    isError: true,
+                };
+            }
+        }
+    );
+}
@@ -0,0 +1,54 @@
+/**
+ * Validation Tools - validate_project
+ */
+
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { FileHandler } from "../utils/fileHandler.js";
+import { validateProject } from "../utils/validation.js";
+
+const validateProjectSchema = z.object({
+    checkReferences: z.boolean().default(true).describe("Also check ID references (database entries, types, switches, variables, maps)"),
+    file: z.string().optional().describe("Only report issues in this file, e.g. \"Skills.json\" or \"Map001.json\""),
+    limit: z.number().int().min(1).max(1000).default(100).describe("Maximum number of issues to list"),
+});
+
+export function registerValidationTools(server: McpServer, fileHandler: FileHandler) {
+    // validate_project - Check every data file for errors
+    server.tool(
+        "validate_project",
+        "Check every data file (database, System, MapInfos and maps) for structural errors, out-of-range values and dangling ID references; each issue names the file, entry ID and field path",
+        validateProjectSchema.shape,
+        async (args) => {
+            try {
+                const { checkReferences, file, limit } = args;
+                const result = await validateProject(fileHandler, checkReferences);
+                const issues = file ? result.issues.filter((issue) => issue.file === file) : result.issues;
+
+                const byFile: Record<string, number> = {};
+                for (const issue of issues) {
+                    byFile[issue.file] = (byFile[issue.file] ?? 0) + 1;
+                }
+
+                return {
+                    content: [{
+                        type: "text" as const,
+                        text: JSON.stringify({
+                            filesChecked: result.filesChecked,
+                            valid: issues.length === 0,
+                            totalIssues: issues.length,
+                            byFile,
+                            issues: issues.slice(0, limit),
+                            truncated: issues.length > limit,
+                        }, null, 2),
+                    }],
+                };
+            } catch (error) {
+                return {
+                    content: [{ type: "text" as const, text: `Error: ${error}` }],
+                    isError: true,
+                };
+            }
+        }
+    );
+}
@@ -1,20 +1,22 @@
 /**
- * Weapon Tools - create_weapon, get_weapons, update_weapon
+ * Weapon Tools - create_weapon, get_weapons, update_weapon, delete_weapon
  */
 
 import { z } from "zod";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { FileHandler } from "../utils/fileHandler.js";
 import { SafeWriter } from "../utils/safeWriter.js";
-import { RPGWeapon, RPGTrait } from "../utils/types.js";
+import { RPGWeapon, RPGTrait, RPGSystem, TraitCode } from "../utils/types.js";
+import { typeRefSchema, resolveTypeId } from "../utils/typeRegistry.js";
+import { findReferences, formatReferences } from "../utils/references.js";
 
 const createWeaponSchema = z.object({
     name: z.string().describe("Weapon name"),
     description: z.string().describe("Weapon description"),
     price: z.number().int().min(0).describe("Weapon price"),
-    wtypeId: z.number().int().min(1).default(1).describe("Weapon type ID (1=Dagger, 2=Sword, 3=Flail, etc.)"),
+    wtypeId: typeRefSchema.default(1).describe("Weapon type ID or name (see get_types weaponTypes)"),
     attack: z.number().int().min(0).default(0).describe("Attack power (ATK bonus)"),
-    elementId: z.number().int().min(0).default(0).describe("Element ID (1=Physical, 2=Fire, 3=Ice, 4=Thunder, etc.)"),
+    elementId: typeRefSchema.default(0).describe("Attack element ID or name (see get_types elements), 0 for none"),
     iconIndex: z.number().int().min(0).default(0).describe("Icon index from IconSet"),
     animationId: z.number().int().min(0).default(0).describe("Attack animation ID"),
 });
@@ -28,6 +30,11 @@ const updateWeaponSchema = z.object({
     iconIndex: z.number().int().min(0).optional(),
 });
 
+const deleteWeaponSchema = z.object({
+    id: z.number().int().min(1).describe("Weapon ID to delete"),
+    force: z.boolean().default(false).describe("Delete even if other data still references this weapon"),
+});
+
 function createDefaultWeapon(id: number): RPGWeapon {
     return {
         id,
@@ -86,6 +93,10 @@ export function registerWeaponTools(server: McpServer, fileHandler: FileHandler,
             try {
                 const { name, description, price, wtypeId, attack, elementId, iconIndex, animationId } = args;
 
+                const system = await fileHandler.readJson<RPGSystem>("data/System.json");
+                const resolvedWtypeId = resolveTypeId(system, "weaponTypes", wtypeId);
+                const resolvedElementId = resolveTypeId(system, "elements", elementId);
+
                 const weapons = await fileHandler.readJson<(RPGWeapon | null)[]>("data/Weapons.json");
                 const newId = weapons.length;
 
@@ -93,7 +104,7 @@ export function registerWeaponTools(server: McpServer, fileHandler: FileHandler,
                 newWeapon.name = name;
                 newWeapon.description = description;
                 newWeapon.price = price;
-                newWeapon.wtypeId = wtypeId;
+                newWeapon.wtypeId = resolvedWtypeId;
                 newWeapon.iconIndex = iconIndex;
                 newWeapon.animationId = animationId;
 
@@ -101,10 +112,10 @@ export function registerWeaponTools(server: McpServer, fileHandler: FileHandler,
                 newWeapon.params[2] = attack;
 
                 // Add element trait if specified
-                if (elementId > 0) {
+                if (resolvedElementId > 0) {
                     const elementTrait: RPGTrait = {
-                        code: 31, // Element Rate
-                        dataId: elementId,
+                        code: TraitCode.AttackElement,
+                        dataId: resolvedElementId,
                         value: 1,
                     };
                     newWeapon.traits.push(elementTrait);
@@ -164,4 +175,52 @@ export function registerWeaponTools(server: McpServer, fileHandler: FileHandler,
             }
         }
     );
+
+    // delete_weapon - Clear a weapon entry
+    server.tool(
+        "delete_weapon",
+        "Delete a weapon by clearing its entry like the editor does (the ID stays in place). Refuses while other data references it unless force is set",
+        deleteWeaponSchema.shape,
+        async (args) => {
+            try {
+                const { id, force } = args;
+
+                const weapons = await fileHandler.readJson<(RPGWeapon | null)[]>("data/Weapons.json");
+
+                if (id >= weapons.length || !weapons[id]) {
+                    return {
+                        content: [{ type: "text" as const, text: `Error: Weapon with ID ${id} not found` }],
+                        isError: true,
+                    };
+                }
+
+                const name = weapons[id]!.name;
+                const references = await findReferences(fileHandler, "weapons", id);
+                if (references.length > 0 && !force) {
+                    return {
+                        content: [{
+                            type: "text" as const,
+                            text: `Error: Weapon ${id} "${name}" is referenced in ${references.length} place(s):\n${formatReferences(references)}\nRemove these references or pass force to delete anyway`,
+                        }],
+                        isError: true,
+                    };
+                }
+
+                weapons[id] = createDefaultWeapon(id);
+                await safeWriter.writeToDatabase("Weapons.json", weapons);
+
+                const dangling = references.length > 0
+                    ? `\nThese references now point at an empty entry:\n${formatReferences(references)}`
+                    : "";
+                return {
+                    content: [{ type: "text" as const, text: `Deleted weapon ${id} "${name}"${dangling}` }],
+                };
+            } catch (error) {
+                return {
+                    content: [{ type: "text" as const, text: `Error: ${error}` }],
+                    isError: true,
+                };
+            }
+        }
+    );
 }
@@ -0,0 +1,119 @@
+/**
+ * Class Curves - Parameter and EXP curves by level
+ *
+ * Parameter curves run from a level 1 value to a level 99 value, bent by a
+ * growth type like the editor's curve generator. EXP uses the engine's
+ * Game_Actor.expForLevel formula so tables match the game.
+ */
+
+import { z } from "zod";
+import type { RPGClass } from "./types.js";
+import { PARAM_NAMES } from "./traits.js";
+
+export const MAX_LEVEL = 99;
+
+export const GROWTH_TYPES = ["fast", "normal", "slow"] as const;
+export type GrowthType = typeof GROWTH_TYPES[number];
+
+// Exponent applied to the level progress: below 1 front-loads growth, above 1 back-loads it
+const growthExponents: Record<GrowthType, number> = { fast: 0.75, normal: 1, slow: 1.35 };
+
+// Editor limits per parameter
+const paramLimits: Record<typeof PARAM_NAMES[number], [number, number]> = {
+    maxHp: [1, 9999],
+    maxMp: [0, 9999],
+    atk: [1, 999],
+    def: [1, 999],
+    mat: [1, 999],
+    mdf: [1, 999],
+    agi: [1, 999],
+    luk: [1, 999],
+};
+
+// Level 1 / level 99 values used when a parameter is not given
+export const defaultCurves: Record<typeof PARAM_NAMES[number], [number, number]> = {
+    maxHp: [450, 5000],
+    maxMp: [90, 1000],
+    atk: [16, 250],
+    def: [16, 250],
+    mat: [16, 250],
+    mdf: [16, 250],
+    agi: [16, 250],
+    luk: [16, 250],
+};
+
+export const curveSchema = z.union([
+    z.number().int().min(0).max(9999).describe("Level 1 value; level 99 scales like the default curve"),
+    z.object({
+        level1: z.number().int().min(0).max(9999).describe("Value at level 1"),
+        level99: z.number().int().min(0).max(9999).describe("Value at level 99"),
+        growth: z.enum(GROWTH_TYPES).default("normal").describe("fast = early growth, slow = late growth"),
+    }),
+]).describe("Parameter curve: a level 1 value, or level 1 and level 99 values with a growth type");
+
+export type CurveInput = z.infer<typeof curveSchema>;
+
+export const paramCurvesSchema = z.object(
+    Object.fromEntries(PARAM_NAMES.map((name) => [name, curveSchema.optional()])) as Record<typeof PARAM_NAMES[number], z.ZodOptional<typeof curveSchema>>
+);
+
+export type ParamCurvesInput = z.infer<typeof paramCurvesSchema>;
+
+/**
+ * Values for levels 0-99 (index = level; level 0 repeats level 1)
+ */
+export function generateCurve(level1: number, level99: number, growth: GrowthType, min = 0, max = 9999): number[] {
+    const exponent = growthExponents[growth];
+    const curve: number[] = [];
+    for (let level = 0; level <= MAX_LEVEL; level++) {
+        const t = Math.max(level - 1, 0) / (MAX_LEVEL - 1);
+        const value = Math.round(level1 + (level99 - level1) * Math.pow(t, exponent));
+        curve.push(Math.min(Math.max(value, min), max));
+    }
+    return curve;
+}
+
+/**
+ * Curve for one parameter from its input form
+ */
+export function curveForParam(param: typeof PARAM_NAMES[number], input: CurveInput): number[] {
+    const [min, max] = paramLimits[param];
+    if (typeof input === "number") {
+        const [default1, default99] = defaultCurves[param];
+        return generateCurve(input, Math.round((input * default99) / default1), "normal", min, max);
+    }
+    return generateCurve(input.level1, input.level99, input.growth, min, max);
+}
+
+/**
+ * Replace the curves of the given parameters, leaving the others untouched
+ */
+export function applyParamCurves(rpgClass: RPGClass, curves: ParamCurvesInput): void {
+    PARAM_NAMES.forEach((param, paramId) => {
+        const input = curves[param];
+        if (input !== undefined) {
+            rpgClass.params[paramId] = curveForParam(param, input);
+        }
+    });
+}
+
+/**
+ * Curves for all parameters, with defaults for the ones not given
+ */
+export function createParamCurves(curves: ParamCurvesInput = {}): number[][] {
+    return PARAM_NAMES.map((param) => {
+        const [level1, level99] = defaultCurves[param];
+        return curveForParam(param, curves[param] ?? { level1, level99, growth: "normal" });
+    });
+}
+
+/**
+ * Total EXP needed to reach a level (Game_Actor.expForLevel)
+ */
+export function expForLevel(expParams: number[], level: number): number {
+    const [basis, extra, accA, accB] = expParams;
+    return Math.round(
+        (basis * Math.pow(level - 1, 0.9 + accA / 250) * level * (level + 1)) / (6 + Math.pow(level, 2) / 50 / accB) +
+        (level - 1) * extra
+    );
+}
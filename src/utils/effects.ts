@@ -0,0 +1,140 @@
+/**
+ * Effects - Typed effect vocabulary for items and skills
+ *
+ * Percentages and chances are given in percent and stored as fractions
+ * (50 -> 0.5), like create_item's recovery options.
+ */
+
+import { z } from "zod";
+import type { FileHandler } from "./fileHandler.js";
+import type { RPGEffect, RPGState, RPGSkill, RPGCommonEvent } from "./types.js";
+import { EffectCode } from "./types.js";
+import { PARAM_NAMES, paramLabels, requireEntry, formatPercent } from "./traits.js";
+
+const percentSchema = z.number().min(0).max(100);
+// Negative recovery damages, as in the editor
+const recoveryPercentSchema = z.number().min(-100).max(100);
+const paramSchema = z.enum(PARAM_NAMES).describe("Parameter");
+const turnsSchema = z.number().int().min(1).max(999).describe("Duration in turns");
+
+export const effectSchema = z.discriminatedUnion("type", [
+    z.object({
+        type: z.literal("recoverHp"),
+        percent: recoveryPercentSchema.default(0).describe("Percent of max HP (negative damages)"),
+        fixed: z.number().int().min(-9999).max(9999).default(0).describe("Fixed amount (negative damages)"),
+    }),
+    z.object({
+        type: z.literal("recoverMp"),
+        percent: recoveryPercentSchema.default(0).describe("Percent of max MP (negative damages)"),
+        fixed: z.number().int().min(-9999).max(9999).default(0).describe("Fixed amount (negative damages)"),
+    }),
+    z.object({ type: z.literal("gainTp"), value: z.number().int().min(0).max(100).describe("TP gained") }),
+    z.object({
+        type: z.literal("addState"),
+        stateId: z.number().int().min(0).describe("State ID (0 = Normal Attack: the user's Attack State traits)"),
+        percent: percentSchema.default(100).describe("Chance in percent"),
+    }),
+    z.object({
+        type: z.literal("removeState"),
+        stateId: z.number().int().min(1).describe("State ID"),
+        percent: percentSchema.default(100).describe("Chance in percent"),
+    }),
+    z.object({ type: z.literal("addBuff"), param: paramSchema, turns: turnsSchema }),
+    z.object({ type: z.literal("addDebuff"), param: paramSchema, turns: turnsSchema }),
+    z.object({ type: z.literal("removeBuff"), param: paramSchema }),
+    z.object({ type: z.literal("removeDebuff"), param: paramSchema }),
+    z.object({ type: z.literal("escape") }),
+    z.object({ type: z.literal("grow"), param: paramSchema, value: z.number().int().min(1).max(1000).describe("Permanent increase") }),
+    z.object({ type: z.literal("learnSkill"), skillId: z.number().int().min(1).describe("Skill ID") }),
+    z.object({ type: z.literal("commonEvent"), commonEventId: z.number().int().min(1).describe("Common event ID") }),
+]);
+
+export type EffectInput = z.infer<typeof effectSchema>;
+
+/**
+ * Build an effect from its typed form, checking referenced IDs
+ */
+export async function encodeEffect(fileHandler: FileHandler, input: EffectInput): Promise<RPGEffect> {
+    const effect = (code: number, dataId = 0, value1 = 0, value2 = 0): RPGEffect => ({ code, dataId, value1, value2 });
+
+    switch (input.type) {
+        case "recoverHp":
+        case "recoverMp":
+            if (input.percent === 0 && input.fixed === 0) {
+                throw new Error("Give a percent and/or a fixed amount to recover");
+            }
+            return effect(input.type === "recoverHp" ? EffectCode.RecoverHP : EffectCode.RecoverMP, 0, input.percent / 100, input.fixed);
+        case "gainTp":
+            return effect(EffectCode.GainTP, 0, input.value);
+        case "addState":
+        case "removeState":
+            if (input.stateId > 0) {
+                await requireEntry(fileHandler, "States.json", "State", input.stateId);
+            }
+            return effect(input.type === "addState" ? EffectCode.AddState : EffectCode.RemoveState, input.stateId, input.percent / 100);
+        case "addBuff":
+            return effect(EffectCode.AddBuff, PARAM_NAMES.indexOf(input.param), input.turns);
+        case "addDebuff":
+            return effect(EffectCode.AddDebuff, PARAM_NAMES.indexOf(input.param), input.turns);
+        case "removeBuff":
+            return effect(EffectCode.RemoveBuff, PARAM_NAMES.indexOf(input.param));
+        case "removeDebuff":
+            return effect(EffectCode.RemoveDebuff, PARAM_NAMES.indexOf(input.param));
+        case "escape":
+            // Special effect 0 = Escape
+            return effect(EffectCode.SpecialEffect, 0);
+        case "grow":
+            return effect(EffectCode.Grow, PARAM_NAMES.indexOf(input.param), input.value);
+        case "learnSkill":
+            await requireEntry(fileHandler, "Skills.json", "Skill", input.skillId);
+            return effect(EffectCode.LearnSkill, input.skillId);
+        case "commonEvent":
+            await requireEntry(fileHandler, "CommonEvents.json", "Common event", input.commonEventId);
+            return effect(EffectCode.CommonEvent, input.commonEventId);
+    }
+}
+
+/**
+ * Names used to describe effects
+ */
+export interface EffectNames {
+    states: (RPGState | null)[];
+    skills: (RPGSkill | null)[];
+    commonEvents: (RPGCommonEvent | null)[];
+}
+
+export async function loadEffectNames(fileHandler: FileHandler): Promise<EffectNames> {
+    const [states, skills, commonEvents] = await Promise.all([
+        fileHandler.readJson<(RPGState | null)[]>("data/States.json"),
+        fileHandler.readJson<(RPGSkill | null)[]>("data/Skills.json"),
+        fileHandler.readJson<(RPGCommonEvent | null)[]>("data/CommonEvents.json"),
+    ]);
+    return { states, skills, commonEvents };
+}
+
+/**
+ * Readable form of an effect, close to the editor's effect list
+ */
+export function describeEffect(effect: RPGEffect, names: EffectNames): string {
+    const { code, dataId, value1, value2 } = effect;
+    const entry = (list: ({ name: string } | null)[]) => (list[dataId]?.name ? `${list[dataId]!.name} (${dataId})` : `#${dataId}`);
+    const param = paramLabels[dataId] ?? `#${dataId}`;
+    const recovery = () => [value1 !== 0 ? formatPercent(value1) : "", value2 !== 0 ? String(value2) : ""].filter(Boolean).join(" + ") || "0";
+
+    switch (code) {
+        case EffectCode.RecoverHP: return `Recover HP: ${recovery()}`;
+        case EffectCode.RecoverMP: return `Recover MP: ${recovery()}`;
+        case EffectCode.GainTP: return `Gain TP: ${value1}`;
+        case EffectCode.AddState: return `Add State: ${dataId === 0 ? "Normal Attack" : entry(names.states)} ${formatPercent(value1)}`;
+        case EffectCode.RemoveState: return `Remove State: ${entry(names.states)} ${formatPercent(value1)}`;
+        case EffectCode.AddBuff: return `Add Buff: ${param} ${value1} turns`;
+        case EffectCode.AddDebuff: return `Add Debuff: ${param} ${value1} turns`;
+        case EffectCode.RemoveBuff: return `Remove Buff: ${param}`;
+        case EffectCode.RemoveDebuff: return `Remove Debuff: ${param}`;
+        case EffectCode.SpecialEffect: return dataId === 0 ? "Special Effect: Escape" : `Special Effect: #${dataId}`;
+        case EffectCode.Grow: return `Grow: ${param} + ${value1}`;
+        case EffectCode.LearnSkill: return `Learn Skill: ${entry(names.skills)}`;
+        case EffectCode.CommonEvent: return `Common Event: ${entry(names.commonEvents)}`;
+        default: return `Unknown effect ${code} (dataId ${dataId}, value1 ${value1}, value2 ${value2})`;
+    }
+}
@@ -0,0 +1,160 @@
+/**
+ * Enemy Actions - Action pattern conditions and drop items
+ */
+
+import { z } from "zod";
+import type { FileHandler } from "./fileHandler.js";
+import type { RPGEnemy, RPGSkill, RPGState, RPGItem, RPGWeapon, RPGArmor, RPGSystem } from "./types.js";
+import { requireEntry, formatPercent } from "./traits.js";
+import { MAX_LEVEL } from "./classCurves.js";
+
+export type EnemyAction = RPGEnemy["actions"][number];
+export type EnemyDrop = RPGEnemy["dropItems"][number];
+
+// Enemies always have three drop slots
+export const DROP_SLOTS = 3;
+
+// Drop kinds in data order (0 = none)
+export const DROP_KINDS = ["item", "weapon", "armor"] as const;
+
+const dropFiles = {
+    item: { file: "Items.json", label: "Item" },
+    weapon: { file: "Weapons.json", label: "Weapon" },
+    armor: { file: "Armors.json", label: "Armor" },
+} as const;
+
+const percentSchema = z.number().min(0).max(100);
+
+export const actionConditionSchema = z.discriminatedUnion("type", [
+    z.object({ type: z.literal("always") }),
+    z.object({
+        type: z.literal("turn"),
+        a: z.number().int().min(0).describe("First turn"),
+        b: z.number().int().min(0).default(0).describe("Repeat every b turns after it (0 = only turn a)"),
+    }),
+    z.object({
+        type: z.literal("hp"),
+        minPercent: percentSchema.default(0).describe("Lowest HP in percent"),
+        maxPercent: percentSchema.default(100).describe("Highest HP in percent"),
+    }),
+    z.object({
+        type: z.literal("mp"),
+        minPercent: percentSchema.default(0).describe("Lowest MP in percent"),
+        maxPercent: percentSchema.default(100).describe("Highest MP in percent"),
+    }),
+    z.object({ type: z.literal("state"), stateId: z.number().int().min(1).describe("State the enemy must have") }),
+    z.object({ type: z.literal("partyLevel"), level: z.number().int().min(1).max(MAX_LEVEL).describe("Highest party member level at least") }),
+    z.object({ type: z.literal("switch"), switchId: z.number().int().min(1).describe("Switch that must be ON") }),
+]);
+
+export type ActionConditionInput = z.infer<typeof actionConditionSchema>;
+
+export const dropSchema = z.object({
+    kind: z.enum(DROP_KINDS).describe("Database of the dropped entry"),
+    dataId: z.number().int().min(1).describe("Item, weapon or armor ID"),
+    denominator: z.number().int().min(1).max(1000).default(1).describe("Drop chance is 1/denominator"),
+});
+
+export type DropInput = z.infer<typeof dropSchema>;
+
+/**
+ * Build an action pattern, checking the skill and the condition's IDs
+ */
+export async function encodeAction(
+    fileHandler: FileHandler, skillId: number, rating: number, condition: ActionConditionInput,
+): Promise<EnemyAction> {
+    await requireEntry(fileHandler, "Skills.json", "Skill", skillId);
+    const action = (conditionType: number, conditionParam1 = 0, conditionParam2 = 0): EnemyAction => ({
+        conditionParam1, conditionParam2, conditionType, rating, skillId,
+    });
+
+    switch (condition.type) {
+        case "always":
+            return action(0);
+        case "turn":
+            return action(1, condition.a, condition.b);
+        case "hp":
+        case "mp":
+            if (condition.minPercent > condition.maxPercent) {
+                throw new Error(`minPercent ${condition.minPercent} is above maxPercent ${condition.maxPercent}`);
+            }
+            return action(condition.type === "hp" ? 2 : 3, condition.minPercent / 100, condition.maxPercent / 100);
+        case "state":
+            await requireEntry(fileHandler, "States.json", "State", condition.stateId);
+            return action(4, condition.stateId);
+        case "partyLevel":
+            return action(5, condition.level);
+        case "switch": {
+            const system = await fileHandler.readJson<RPGSystem>("data/System.json");
+            if (condition.switchId >= (system.switches?.length ?? 0)) {
+                throw new Error(`Switch ID ${condition.switchId} not found`);
+            }
+            return action(6, condition.switchId);
+        }
+    }
+}
+
+/**
+ * Build a drop, checking that the dropped entry exists
+ */
+export async function encodeDrop(fileHandler: FileHandler, input: DropInput): Promise<EnemyDrop> {
+    const { file, label } = dropFiles[input.kind];
+    await requireEntry(fileHandler, file, label, input.dataId);
+    return { kind: DROP_KINDS.indexOf(input.kind) + 1, dataId: input.dataId, denominator: input.denominator };
+}
+
+/**
+ * Names used to describe actions and drops
+ */
+export interface EnemyActionNames {
+    skills: (RPGSkill | null)[];
+    states: (RPGState | null)[];
+    items: (RPGItem | null)[];
+    weapons: (RPGWeapon | null)[];
+    armors: (RPGArmor | null)[];
+    switches: string[];
+}
+
+export async function loadEnemyActionNames(fileHandler: FileHandler): Promise<EnemyActionNames> {
+    const [skills, states, items, weapons, armors, system] = await Promise.all([
+        fileHandler.readJson<(RPGSkill | null)[]>("data/Skills.json"),
+        fileHandler.readJson<(RPGState | null)[]>("data/States.json"),
+        fileHandler.readJson<(RPGItem | null)[]>("data/Items.json"),
+        fileHandler.readJson<(RPGWeapon | null)[]>("data/Weapons.json"),
+        fileHandler.readJson<(RPGArmor | null)[]>("data/Armors.json"),
+        fileHandler.readJson<RPGSystem>("data/System.json"),
+    ]);
+    return { skills, states, items, weapons, armors, switches: system.switches ?? [] };
+}
+
+function entryName(list: ({ name: string } | null)[], id: number): string {
+    return list[id]?.name ? `${list[id]!.name} (${id})` : `#${id}`;
+}
+
+/**
+ * Readable condition of an action pattern, close to the editor's action list
+ */
+export function describeCondition(action: EnemyAction, names: EnemyActionNames): string {
+    const { conditionType, conditionParam1: p1, conditionParam2: p2 } = action;
+    switch (conditionType) {
+        case 0: return "Always";
+        case 1: return p2 === 0 ? `Turn ${p1}` : `Turn ${p1} + ${p2}*X`;
+        case 2: return `HP ${formatPercent(p1)} - ${formatPercent(p2)}`;
+        case 3: return `MP ${formatPercent(p1)} - ${formatPercent(p2)}`;
+        case 4: return `State ${entryName(names.states, p1)}`;
+        case 5: return `Party Level >= ${p1}`;
+        case 6: return `Switch ${[String(p1).padStart(4, "0"), names.switches[p1]].filter(Boolean).join(" ")} is ON`;
+        default: return `Unknown condition ${conditionType} (${p1}, ${p2})`;
+    }
+}
+
+export function describeAction(action: EnemyAction, names: EnemyActionNames): string {
+    return `${entryName(names.skills, action.skillId)}: ${describeCondition(action, names)}, rating ${action.rating}`;
+}
+
+export function describeDrop(drop: EnemyDrop, names: EnemyActionNames): string {
+    const kind = DROP_KINDS[drop.kind - 1];
+    if (!kind) return "None";
+    const list = { item: names.items, weapon: names.weapons, armor: names.armors }[kind];
+    return `${kind[0].toUpperCase()}${kind.slice(1)} ${entryName(list, drop.dataId)} 1/${drop.denominator}`;
+}
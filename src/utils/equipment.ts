@@ -0,0 +1,104 @@
+/**
+ * Equipment - Equip slots, equip checks and final actor parameters
+ *
+ * Mirrors Game_Actor: slots come from System.json equipTypes (slot 2 holds a
+ * weapon with the Dual Wield slot type), and an item can be equipped when the
+ * traits allow its weapon/armor type and do not seal its equip type.
+ */
+
+import type { RPGActor, RPGClass, RPGWeapon, RPGArmor, RPGTrait, RPGSystem } from "./types.js";
+import { TraitCode } from "./types.js";
+
+// Equip type 1 is always the weapon slot
+export const WEAPON_ETYPE = 1;
+
+// Slot count used when System.json has no equipTypes (Weapon, Shield, Head, Body, Accessory)
+const DEFAULT_SLOT_COUNT = 5;
+
+/**
+ * Traits that decide what an actor may equip: the actor's and its class's
+ */
+export function actorTraits(actor: RPGActor, rpgClass: RPGClass | null | undefined): RPGTrait[] {
+    return [...(actor.traits ?? []), ...(rpgClass?.traits ?? [])];
+}
+
+/**
+ * Equip type ID of each slot (Game_Actor.equipSlots)
+ */
+export function equipSlots(traits: RPGTrait[], system?: RPGSystem): number[] {
+    const count = system?.equipTypes ? system.equipTypes.length - 1 : DEFAULT_SLOT_COUNT;
+    const slots: number[] = [];
+    for (let etypeId = 1; etypeId <= count; etypeId++) {
+        slots.push(etypeId);
+    }
+    const dualWield = traits.some((t) => t.code === TraitCode.SlotType && t.dataId === 1);
+    if (slots.length >= 2 && dualWield) {
+        slots[1] = WEAPON_ETYPE;
+    }
+    return slots;
+}
+
+/**
+ * Why an item cannot go into a slot, or null when it can
+ */
+export function equipProblem(
+    item: RPGWeapon | RPGArmor, slotEtypeId: number, traits: RPGTrait[], system: RPGSystem,
+): string | null {
+    const has = (code: number, dataId: number) => traits.some((t) => t.code === code && t.dataId === dataId);
+    const etypeName = system.equipTypes?.[slotEtypeId] || `equip type ${slotEtypeId}`;
+
+    if (has(TraitCode.SealEquip, slotEtypeId)) {
+        return `the ${etypeName} slot is sealed by a Seal Equip trait`;
+    }
+    if ("wtypeId" in item) {
+        if (slotEtypeId !== WEAPON_ETYPE) {
+            return `weapons only go in weapon slots, not ${etypeName}`;
+        }
+        if (!has(TraitCode.EquipWeaponType, item.wtypeId)) {
+            return `no Equip Weapon trait for weapon type "${system.weaponTypes?.[item.wtypeId] || item.wtypeId}"`;
+        }
+        return null;
+    }
+    if (item.etypeId !== slotEtypeId) {
+        return `it is a "${system.equipTypes?.[item.etypeId] || item.etypeId}" armor, not ${etypeName}`;
+    }
+    if (!has(TraitCode.EquipArmorType, item.atypeId)) {
+        return `no Equip Armor trait for armor type "${system.armorTypes?.[item.atypeId] || item.atypeId}"`;
+    }
+    return null;
+}
+
+export interface ActorStats {
+    params: number[];       // MHP, MMP, ATK, DEF, MAT, MDF, AGI, LUK
+    xparams: number[];      // Sums of Ex-Parameter traits (0.95 = 95%)
+    sparams: number[];      // Products of Sp-Parameter traits (1 = 100%)
+}
+
+/**
+ * Final parameters without buffs (Game_BattlerBase.param)
+ *
+ * Class curve at the level, plus equipment parameters, times the Parameter
+ * traits of the actor, class and equipment.
+ */
+export function computeActorStats(
+    rpgClass: RPGClass, level: number, traits: RPGTrait[], equipment: (RPGWeapon | RPGArmor)[],
+): ActorStats {
+    const allTraits = [...traits, ...equipment.flatMap((item) => item.traits)];
+    const rate = (code: number, dataId: number) => allTraits
+        .filter((t) => t.code === code && t.dataId === dataId)
+        .reduce((product, t) => product * t.value, 1);
+    const sum = (code: number, dataId: number) => allTraits
+        .filter((t) => t.code === code && t.dataId === dataId)
+        .reduce((total, t) => total + t.value, 0);
+
+    const params = [0, 1, 2, 3, 4, 5, 6, 7].map((paramId) => {
+        const base = rpgClass.params[paramId]?.[level] ?? 0;
+        const plus = equipment.reduce((total, item) => total + (item.params[paramId] ?? 0), 0);
+        const min = paramId === 0 ? 1 : 0;
+        return Math.max(Math.round((base + plus) * rate(TraitCode.Param, paramId)), min);
+    });
+    const xparams = Array.from({ length: 10 }, (_, id) => sum(TraitCode.XParam, id));
+    const sparams = Array.from({ length: 10 }, (_, id) => rate(TraitCode.SParam, id));
+
+    return { params, xparams, sparams };
+}
@@ -0,0 +1,487 @@
+/**
+ * Event Command Builder - High-level command DSL compiled to RPGEventCommand lists
+ *
+ * Each spec is compiled to the raw MZ command codes with correct indentation.
+ * Block commands (Conditional Branch, Show Choices, Loop, Battle Processing)
+ * close every child block with a code 0 command one level deeper, exactly like
+ * the editor does.
+ */
+
+import { z } from "zod";
+import type { RPGEventCommand } from "./types.js";
+
+// ============================================================================
+// Spec Types
+// ============================================================================
+
+const selfSwitchSchema = z.enum(["A", "B", "C", "D"]);
+const comparisonSchema = z.enum(["==", ">=", "<=", ">", "<", "!="]);
+const operationSchema = z.enum(["increase", "decrease"]);
+const audioSchema = {
+    name: z.string().describe("Audio file name without extension"),
+    volume: z.number().int().min(0).max(100).optional().describe("Volume (default 90)"),
+    pitch: z.number().int().min(50).max(150).optional().describe("Pitch (default 100)"),
+    pan: z.number().int().min(-100).max(100).optional().describe("Pan (default 0)"),
+};
+
+const branchConditionSchema = z.discriminatedUnion("kind", [
+    z.object({ kind: z.literal("switch"), switchId: z.number().int().min(1), value: z.boolean().optional().describe("true=ON (default), false=OFF") }),
+    z.object({
+        kind: z.literal("variable"),
+        variableId: z.number().int().min(1),
+        operator: comparisonSchema,
+        value: z.number().int().optional().describe("Constant to compare with"),
+        otherVariableId: z.number().int().min(1).optional().describe("Compare with another variable instead of a constant"),
+    }),
+    z.object({ kind: z.literal("selfSwitch"), selfSwitch: selfSwitchSchema, value: z.boolean().optional().describe("true=ON (default), false=OFF") }),
+    z.object({ kind: z.literal("timer"), operator: z.enum([">=", "<="]), seconds: z.number().int().min(0) }),
+    z.object({
+        kind: z.literal("actor"),
+        actorId: z.number().int().min(1),
+        check: z.enum(["inParty", "name", "class", "skill", "weapon", "armor", "state"]),
+        value: z.union([z.number().int(), z.string()]).optional().describe("Name for 'name', otherwise the class/skill/weapon/armor/state ID"),
+    }),
+    z.object({ kind: z.literal("enemy"), enemyIndex: z.number().int().min(0).describe("Troop member index (0-based)"), stateId: z.number().int().min(1).optional().describe("Check this state instead of 'appeared'") }),
+    z.object({ kind: z.literal("character"), characterId: z.number().int().min(-1).describe("-1=Player, 0=This event, N=Event ID"), direction: z.union([z.literal(2), z.literal(4), z.literal(6), z.literal(8)]) }),
+    z.object({ kind: z.literal("gold"), operator: z.enum([">=", "<=", "<"]), amount: z.number().int().min(0) }),
+    z.object({ kind: z.literal("item"), itemId: z.number().int().min(1) }),
+    z.object({ kind: z.literal("weapon"), weaponId: z.number().int().min(1), includeEquip: z.boolean().optional() }),
+    z.object({ kind: z.literal("armor"), armorId: z.number().int().min(1), includeEquip: z.boolean().optional() }),
+    z.object({ kind: z.literal("button"), button: z.enum(["ok", "cancel", "shift", "down", "left", "right", "up", "pageup", "pagedown"]), mode: z.enum(["pressed", "triggered", "repeated"]).optional() }),
+    z.object({ kind: z.literal("script"), script: z.string() }),
+    z.object({ kind: z.literal("vehicle"), vehicleId: z.number().int().min(0).max(2).describe("0=Boat, 1=Ship, 2=Airship") }),
+]);
+
+export type BranchCondition = z.infer<typeof branchConditionSchema>;
+
+const simpleCommandSchema = z.discriminatedUnion("type", [
+    z.object({
+        type: z.literal("showText"),
+        text: z.string().describe("Message text; lines are split on \\n and every 4 lines start a new message box"),
+        faceName: z.string().optional(),
+        faceIndex: z.number().int().min(0).max(7).optional(),
+        background: z.number().int().min(0).max(2).optional().describe("0=Window, 1=Dim, 2=Transparent"),
+        position: z.number().int().min(0).max(2).optional().describe("0=Top, 1=Middle, 2=Bottom (default)"),
+        speakerName: z.string().optional(),
+    }),
+    z.object({ type: z.literal("showScrollingText"), text: z.string(), speed: z.number().int().min(1).max(8).optional(), noFastForward: z.boolean().optional() }),
+    z.object({ type: z.literal("inputNumber"), variableId: z.number().int().min(1), digits: z.number().int().min(1).max(8) }),
+    z.object({ type: z.literal("selectItem"), variableId: z.number().int().min(1), itemType: z.number().int().min(1).max(4).optional().describe("1=Regular, 2=Key, 3=Hidden A, 4=Hidden B") }),
+    z.object({ type: z.literal("comment"), text: z.string() }),
+    z.object({ type: z.literal("breakLoop") }),
+    z.object({ type: z.literal("exitEvent") }),
+    z.object({ type: z.literal("commonEvent"), commonEventId: z.number().int().min(1) }),
+    z.object({ type: z.literal("label"), name: z.string() }),
+    z.object({ type: z.literal("jumpToLabel"), name: z.string() }),
+    z.object({ type: z.literal("controlSwitches"), switchId: z.number().int().min(1), endSwitchId: z.number().int().min(1).optional().describe("Last switch of a range"), value: z.boolean() }),
+    z.object({
+        type: z.literal("controlVariables"),
+        variableId: z.number().int().min(1),
+        endVariableId: z.number().int().min(1).optional().describe("Last variable of a range"),
+        operation: z.enum(["set", "add", "sub", "mul", "div", "mod"]).optional().describe("Default: set"),
+        value: z.number().int().optional().describe("Constant operand"),
+        otherVariableId: z.number().int().min(1).optional().describe("Variable operand"),
+        random: z.object({ min: z.number().int(), max: z.number().int() }).optional().describe("Random operand"),
+        script: z.string().optional().describe("Script operand"),
+    }),
+    z.object({ type: z.literal("controlSelfSwitch"), selfSwitch: selfSwitchSchema, value: z.boolean() }),
+    z.object({ type: z.literal("controlTimer"), seconds: z.number().int().min(0).optional().describe("Start the timer with this many seconds; omit to stop it") }),
+    z.object({ type: z.literal("changeGold"), operation: operationSchema.optional(), value: z.number().int().min(0).optional(), variableId: z.number().int().min(1).optional().describe("Use a variable as the amount") }),
+    z.object({ type: z.literal("changeItems"), itemId: z.number().int().min(1), operation: operationSchema.optional(), value: z.number().int().min(0).optional(), variableId: z.number().int().min(1).optional() }),
+    z.object({ type: z.literal("changeWeapons"), weaponId: z.number().int().min(1), operation: operationSchema.optional(), value: z.number().int().min(0).optional(), variableId: z.number().int().min(1).optional(), includeEquip: z.boolean().optional() }),
+    z.object({ type: z.literal("changeArmors"), armorId: z.number().int().min(1), operation: operationSchema.optional(), value: z.number().int().min(0).optional(), variableId: z.number().int().min(1).optional(), includeEquip: z.boolean().optional() }),
+    z.object({ type: z.literal("changePartyMember"), actorId: z.number().int().min(1), operation: z.enum(["add", "remove"]), initialize: z.boolean().optional() }),
+    z.object({ type: z.literal("changeState"), actorId: z.number().int().min(0).describe("0=Entire party"), operation: z.enum(["add", "remove"]), stateId: z.number().int().min(1) }),
+    z.object({ type: z.literal("recoverAll"), actorId: z.number().int().min(0).describe("0=Entire party") }),
+    z.object({
+        type: z.literal("transferPlayer"),
+        mapId: z.number().int().min(1),
+        x: z.number().int().min(0),
+        y: z.number().int().min(0),
+        useVariables: z.boolean().optional().describe("Treat mapId/x/y as variable IDs"),
+        direction: z.union([z.literal(0), z.literal(2), z.literal(4), z.literal(6), z.literal(8)]).optional().describe("0=Retain (default), 2=Down, 4=Left, 6=Right, 8=Up"),
+        fade: z.enum(["black", "white", "none"]).optional(),
+    }),
+    z.object({ type: z.literal("showAnimation"), characterId: z.number().int().min(-1), animationId: z.number().int().min(1), wait: z.boolean().optional() }),
+    z.object({ type: z.literal("showBalloon"), characterId: z.number().int().min(-1), balloonId: z.number().int().min(1).max(15), wait: z.boolean().optional() }),
+    z.object({ type: z.literal("eraseEvent") }),
+    z.object({ type: z.literal("fadeoutScreen") }),
+    z.object({ type: z.literal("fadeinScreen") }),
+    z.object({ type: z.literal("wait"), frames: z.number().int().min(1).max(999) }),
+    z.object({ type: z.literal("playBgm"), ...audioSchema }),
+    z.object({ type: z.literal("playBgs"), ...audioSchema }),
+    z.object({ type: z.literal("playMe"), ...audioSchema }),
+    z.object({ type: z.literal("playSe"), ...audioSchema }),
+    z.object({
+        type: z.literal("shopProcessing"),
+        goods: z.array(z.object({
+            kind: z.enum(["item", "weapon", "armor"]),
+            id: z.number().int().min(1),
+            price: z.number().int().min(0).optional().describe("Custom price; omit for the database price"),
+        })).min(1),
+        purchaseOnly: z.boolean().optional(),
+    }),
+    z.object({ type: z.literal("nameInput"), actorId: z.number().int().min(1), maxCharacters: z.number().int().min(1).max(16).optional() }),
+    z.object({ type: z.literal("openMenu") }),
+    z.object({ type: z.literal("openSave") }),
+    z.object({ type: z.literal("gameOver") }),
+    z.object({ type: z.literal("returnToTitle") }),
+    z.object({ type: z.literal("script"), script: z.string().describe("JavaScript; multiple lines are allowed") }),
+    z.object({
+        type: z.literal("pluginCommand"),
+        pluginName: z.string(),
+        commandName: z.string(),
+        commandText: z.string().optional().describe("Display name of the command"),
+        args: z.record(z.string()).optional().describe("Command arguments as strings"),
+    }),
+    z.object({ type: z.literal("raw"), code: z.number().int(), parameters: z.array(z.unknown()).optional() }),
+]);
+
+type SimpleCommandSpec = z.infer<typeof simpleCommandSchema>;
+
+export interface ConditionalBranchSpec {
+    type: "conditionalBranch";
+    condition: BranchCondition;
+    then: EventCommandSpec[];
+    else?: EventCommandSpec[];
+}
+
+export interface ShowChoicesSpec {
+    type: "showChoices";
+    choices: { text: string; commands: EventCommandSpec[] }[];
+    cancel?: "disallow" | "branch" | number;
+    defaultChoice?: number;
+    background?: number;
+    position?: number;
+    onCancel?: EventCommandSpec[];
+}
+
+export interface LoopSpec {
+    type: "loop";
+    commands: EventCommandSpec[];
+}
+
+export interface BattleProcessingSpec {
+    type: "battleProcessing";
+    troopId?: number;
+    troopVariableId?: number;
+    canEscape?: boolean;
+    canLose?: boolean;
+    onWin?: EventCommandSpec[];
+    onEscape?: EventCommandSpec[];
+    onLose?: EventCommandSpec[];
+}
+
+export type EventCommandSpec = SimpleCommandSpec | ConditionalBranchSpec | ShowChoicesSpec | LoopSpec | BattleProcessingSpec;
+
+export const eventCommandSpecSchema: z.ZodType<EventCommandSpec> = z.lazy(() =>
+    z.union([
+        simpleCommandSchema,
+        z.object({
+            type: z.literal("conditionalBranch"),
+            condition: branchConditionSchema,
+            then: z.array(eventCommandSpecSchema),
+            else: z.array(eventCommandSpecSchema).optional().describe("Adds an Else branch"),
+        }),
+        z.object({
+            type: z.literal("showChoices"),
+            choices: z.array(z.object({
+                text: z.string(),
+                commands: z.array(eventCommandSpecSchema),
+            })).min(1).max(6),
+            cancel: z.union([z.enum(["disallow", "branch"]), z.number().int().min(0).max(5)]).optional().describe("'disallow', 'branch' (uses onCancel) or the index of the choice cancel selects"),
+            defaultChoice: z.number().int().min(-1).max(5).optional().describe("Initially selected choice, -1 for none (default 0)"),
+            background: z.number().int().min(0).max(2).optional(),
+            position: z.number().int().min(0).max(2).optional().describe("0=Left, 1=Middle, 2=Right (default)"),
+            onCancel: z.array(eventCommandSpecSchema).optional(),
+        }),
+        z.object({
+            type: z.literal("loop"),
+            commands: z.array(eventCommandSpecSchema),
+        }),
+        z.object({
+            type: z.literal("battleProcessing"),
+            troopId: z.number().int().min(1).optional().describe("Troop ID; omit both troop fields for a random encounter"),
+            troopVariableId: z.number().int().min(1).optional().describe("Variable holding the troop ID"),
+            canEscape: z.boolean().optional(),
+            canLose: z.boolean().optional(),
+            onWin: z.array(eventCommandSpecSchema).optional(),
+            onEscape: z.array(eventCommandSpecSchema).optional(),
+            onLose: z.array(eventCommandSpecSchema).optional(),
+        }),
+    ])
+);
+
+// ============================================================================
+// Compiler
+// ============================================================================
+
+const comparisonCodes: Record<z.infer<typeof comparisonSchema>, number> = {
+    "==": 0, ">=": 1, "<=": 2, ">": 3, "<": 4, "!=": 5,
+};
+
+const variableOperationCodes = { set: 0, add: 1, sub: 2, mul: 3, div: 4, mod: 5 } as const;
+const actorCheckCodes = { inParty: 0, name: 1, class: 2, skill: 3, weapon: 4, armor: 5, state: 6 } as const;
+const fadeCodes = { black: 0, white: 1, none: 2 } as const;
+const goodsKindCodes = { item: 0, weapon: 1, armor: 2 } as const;
+const buttonModeCodes = { pressed: 0, triggered: 1, repeated: 2 } as const;
+
+function cmd(code: number, indent: number, parameters: unknown[] = []): RPGEventCommand {
+    return { code, indent, parameters };
+}
+
+function audio(spec: { name: string; volume?: number; pitch?: number; pan?: number }) {
+    return { name: spec.name, volume: spec.volume ?? 90, pitch: spec.pitch ?? 100, pan: spec.pan ?? 0 };
+}
+
+function splitLines(text: string): string[] {
+    return text.replace(/\r\n/g, "\n").split("\n");
+}
+
+/**
+ * Compile a child block: its commands one level deeper, closed by a code 0
+ */
+function compileBlock(specs: EventCommandSpec[], indent: number): RPGEventCommand[] {
+    return [...compileCommands(specs, indent + 1), cmd(0, indent + 1)];
+}
+
+function branchParameters(condition: BranchCondition): unknown[] {
+    switch (condition.kind) {
+        case "switch":
+            return [0, condition.switchId, condition.value === false ? 1 : 0];
+        case "variable":
+            return condition.otherVariableId !== undefined
+                ? [1, condition.variableId, 1, condition.otherVariableId, comparisonCodes[condition.operator]]
+                : [1, condition.variableId, 0, condition.value ?? 0, comparisonCodes[condition.operator]];
+        case "selfSwitch":
+            return [2, condition.selfSwitch, condition.value === false ? 1 : 0];
+        case "timer":
+            return [3, condition.operator === ">=" ? 0 : 1, condition.seconds];
+        case "actor": {
+            const params: unknown[] = [4, condition.actorId, actorCheckCodes[condition.check]];
+            if (condition.check !== "inParty") params.push(condition.value ?? (condition.check === "name" ? "" : 1));
+            return params;
+        }
+        case "enemy":
+            return condition.stateId !== undefined
+                ? [5, condition.enemyIndex, 1, condition.stateId]
+                : [5, condition.enemyIndex, 0];
+        case "character":
+            return [6, condition.characterId, condition.direction];
+        case "gold":
+            return [7, condition.amount, condition.operator === ">=" ? 0 : condition.operator === "<=" ? 1 : 2];
+        case "item":
+            return [8, condition.itemId];
+        case "weapon":
+            return [9, condition.weaponId, condition.includeEquip ?? false];
+        case "armor":
+            return [10, condition.armorId, condition.includeEquip ?? false];
+        case "button":
+            return [11, condition.button, buttonModeCodes[condition.mode ?? "pressed"]];
+        case "script":
+            return [12, condition.script];
+        case "vehicle":
+            return [13, condition.vehicleId];
+    }
+}
+
+/**
+ * Operand triple used by Change Gold/Items/Weapons/Armors: [operation, operandType, operand]
+ */
+function amountOperand(spec: { operation?: "increase" | "decrease"; value?: number; variableId?: number }): number[] {
+    const operation = spec.operation === "decrease" ? 1 : 0;
+    return spec.variableId !== undefined ? [operation, 1, spec.variableId] : [operation, 0, spec.value ?? 1];
+}
+
+function compileCommand(spec: EventCommandSpec, indent: number): RPGEventCommand[] {
+    switch (spec.type) {
+        case "showText": {
+            const lines = splitLines(spec.text);
+            const result: RPGEventCommand[] = [];
+            for (let i = 0; i < lines.length; i += 4) {
+                result.push(cmd(101, indent, [spec.faceName ?? "", spec.faceIndex ?? 0, spec.background ?? 0, spec.position ?? 2, spec.speakerName ?? ""]));
+                for (const line of lines.slice(i, i + 4)) {
+                    result.push(cmd(401, indent, [line]));
+                }
+            }
+            return result;
+        }
+        case "showChoices": {
+            const cancelType = spec.cancel === "branch" || (spec.cancel === undefined && spec.onCancel)
+                ? -2
+                : spec.cancel === "disallow" || spec.cancel === undefined ? -1 : spec.cancel;
+            const result = [cmd(102, indent, [
+                spec.choices.map((c) => c.text),
+                cancelType,
+                spec.defaultChoice ?? 0,
+                spec.position ?? 2,
+                spec.background ?? 0,
+            ])];
+            spec.choices.forEach((choice, index) => {
+                result.push(cmd(402, indent, [index, choice.text]));
+                result.push(...compileBlock(choice.commands, indent));
+            });
+            if (cancelType === -2) {
+                result.push(cmd(403, indent, [6, null]));
+                result.push(...compileBlock(spec.onCancel ?? [], indent));
+            }
+            result.push(cmd(404, indent));
+            return result;
+        }
+        case "showScrollingText":
+            return [
+                cmd(105, indent, [spec.speed ?? 2, spec.noFastForward ?? false]),
+                ...splitLines(spec.text).map((line) => cmd(405, indent, [line])),
+            ];
+        case "inputNumber":
+            return [cmd(103, indent, [spec.variableId, spec.digits])];
+        case "selectItem":
+            return [cmd(104, indent, [spec.variableId, spec.itemType ?? 2])];
+        case "comment": {
+            const [first, ...rest] = splitLines(spec.text);
+            return [cmd(108, indent, [first]), ...rest.map((line) => cmd(408, indent, [line]))];
+        }
+        case "conditionalBranch": {
+            const result = [cmd(111, indent, branchParameters(spec.condition)), ...compileBlock(spec.then, indent)];
+            if (spec.else) {
+                result.push(cmd(411, indent), ...compileBlock(spec.else, indent));
+            }
+            result.push(cmd(412, indent));
+            return result;
+        }
+        case "loop":
+            return [cmd(112, indent), ...compileBlock(spec.commands, indent), cmd(413, indent)];
+        case "breakLoop":
+            return [cmd(113, indent)];
+        case "exitEvent":
+            return [cmd(115, indent)];
+        case "commonEvent":
+            return [cmd(117, indent, [spec.commonEventId])];
+        case "label":
+            return [cmd(118, indent, [spec.name])];
+        case "jumpToLabel":
+            return [cmd(119, indent, [spec.name])];
+        case "controlSwitches":
+            return [cmd(121, indent, [spec.switchId, spec.endSwitchId ?? spec.switchId, spec.value ? 0 : 1])];
+        case "controlVariables": {
+            const params: unknown[] = [spec.variableId, spec.endVariableId ?? spec.variableId, variableOperationCodes[spec.operation ?? "set"]];
+            if (spec.otherVariableId !== undefined) {
+                params.push(1, spec.otherVariableId);
+            } else if (spec.random) {
+                params.push(2, spec.random.min, spec.random.max);
+            } else if (spec.script !== undefined) {
+                params.push(4, spec.script);
+            } else {
+                params.push(0, spec.value ?? 0);
+            }
+            return [cmd(122, indent, params)];
+        }
+        case "controlSelfSwitch":
+            return [cmd(123, indent, [spec.selfSwitch, spec.value ? 0 : 1])];
+        case "controlTimer":
+            return [cmd(124, indent, spec.seconds !== undefined ? [0, spec.seconds] : [1, 0])];
+        case "changeGold":
+            return [cmd(125, indent, amountOperand(spec))];
+        case "changeItems":
+            return [cmd(126, indent, [spec.itemId, ...amountOperand(spec)])];
+        case "changeWeapons":
+            return [cmd(127, indent, [spec.weaponId, ...amountOperand(spec), spec.includeEquip ?? false])];
+        case "changeArmors":
+            return [cmd(128, indent, [spec.armorId, ...amountOperand(spec), spec.includeEquip ?? false])];
+        case "changePartyMember":
+            return [cmd(129, indent, [spec.actorId, spec.operation === "add" ? 0 : 1, spec.initialize ?? false])];
+        case "transferPlayer":
+            return [cmd(201, indent, [
+                spec.useVariables ? 1 : 0,
+                spec.mapId,
+                spec.x,
+                spec.y,
+                spec.direction ?? 0,
+                fadeCodes[spec.fade ?? "black"],
+            ])];
+        case "showAnimation":
+            return [cmd(212, indent, [spec.characterId, spec.animationId, spec.wait ?? false])];
+        case "showBalloon":
+            return [cmd(213, indent, [spec.characterId, spec.balloonId, spec.wait ?? false])];
+        case "eraseEvent":
+            return [cmd(214, indent)];
+        case "fadeoutScreen":
+            return [cmd(221, indent)];
+        case "fadeinScreen":
+            return [cmd(222, indent)];
+        case "wait":
+            return [cmd(230, indent, [spec.frames])];
+        case "playBgm":
+            return [cmd(241, indent, [audio(spec)])];
+        case "playBgs":
+            return [cmd(245, indent, [audio(spec)])];
+        case "playMe":
+            return [cmd(249, indent, [audio(spec)])];
+        case "playSe":
+            return [cmd(250, indent, [audio(spec)])];
+        case "battleProcessing": {
+            const designation = spec.troopId !== undefined ? 0 : spec.troopVariableId !== undefined ? 1 : 2;
+            const troopParam = spec.troopId ?? spec.troopVariableId ?? 0;
+            const canEscape = spec.canEscape ?? false;
+            const canLose = spec.canLose ?? false;
+            const result = [cmd(301, indent, [designation, troopParam, canEscape, canLose])];
+            // Result branches only exist when escaping or losing is allowed
+            if (canEscape || canLose) {
+                result.push(cmd(601, indent), ...compileBlock(spec.onWin ?? [], indent));
+                if (canEscape) result.push(cmd(602, indent), ...compileBlock(spec.onEscape ?? [], indent));
+                if (canLose) result.push(cmd(603, indent), ...compileBlock(spec.onLose ?? [], indent));
+                result.push(cmd(604, indent));
+            }
+            return result;
+        }
+        case "shopProcessing":
+            return spec.goods.map((good, index) => {
+                const params: unknown[] = [goodsKindCodes[good.kind], good.id, good.price !== undefined ? 1 : 0, good.price ?? 0];
+                return index === 0
+                    ? cmd(302, indent, [...params, spec.purchaseOnly ?? false])
+                    : cmd(605, indent, params);
+            });
+        case "nameInput":
+            return [cmd(303, indent, [spec.actorId, spec.maxCharacters ?? 8])];
+        case "changeState":
+            return [cmd(313, indent, [0, spec.actorId, spec.operation === "add" ? 0 : 1, spec.stateId])];
+        case "recoverAll":
+            return [cmd(314, indent, [0, spec.actorId])];
+        case "openMenu":
+            return [cmd(351, indent)];
+        case "openSave":
+            return [cmd(352, indent)];
+        case "gameOver":
+            return [cmd(353, indent)];
+        case "returnToTitle":
+            return [cmd(354, indent)];
+        case "script": {
+            const [first, ...rest] = splitLines(spec.script);
+            return [cmd(355, indent, [first]), ...rest.map((line) => cmd(655, indent, [line]))];
+        }
+        case "pluginCommand": {
+            const args = spec.args ?? {};
+            return [
+                cmd(357, indent, [spec.pluginName, spec.commandName, spec.commandText ?? spec.commandName, args]),
+                ...Object.entries(args).map(([key, value]) => cmd(657, indent, [`${key} = ${value}`])),
+            ];
+        }
+        case "raw":
+            return [cmd(spec.code, indent, spec.parameters ?? [])];
+    }
+}
+
+/**
+ * Compile command specs at the given indent level (no terminator)
+ */
+export function compileCommands(specs: EventCommandSpec[], indent = 0): RPGEventCommand[] {
+    return specs.flatMap((spec) => compileCommand(spec, indent));
+}
+
+/**
+ * Compile command specs into a complete list for an event page, common event
+ * or troop page, terminated by code 0
+ */
+export function compileCommandList(specs: EventCommandSpec[]): RPGEventCommand[] {
+    return [...compileCommands(specs, 0), cmd(0, 0)];
+}
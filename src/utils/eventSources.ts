@@ -0,0 +1,122 @@
+/**
+ * Event Sources - Every command list in the project
+ *
+ * Map event pages, common events and troop pages, each with a readable
+ * source label, for tools that search event data.
+ */
+
+import type { FileHandler } from "./fileHandler.js";
+import type {
+    RPGMap, RPGMapInfo, RPGCommonEvent, RPGTroop, RPGTroopPage, RPGEventCommand, RPGEventPage,
+} from "./types.js";
+
+export interface EventSource {
+    source: string;     // e.g. "Map 3 (Town) event 5 \"Door\" page 2"
+    list: RPGEventCommand[];
+    mapPage?: RPGEventPage;
+    commonEvent?: RPGCommonEvent;
+    troopPage?: RPGTroopPage;
+}
+
+export const commandNames: Record<number, string> = {
+    103: "Input Number",
+    104: "Select Item",
+    111: "Conditional Branch",
+    121: "Control Switches",
+    122: "Control Variables",
+    125: "Change Gold",
+    126: "Change Items",
+    127: "Change Weapons",
+    128: "Change Armors",
+    129: "Change Party Member",
+    201: "Transfer Player",
+    202: "Set Vehicle Location",
+    203: "Set Event Location",
+    205: "Set Movement Route",
+    231: "Show Picture",
+    232: "Move Picture",
+    285: "Get Location Info",
+    301: "Battle Processing",
+    302: "Shop Processing",
+    303: "Name Input Processing",
+    311: "Change HP",
+    312: "Change MP",
+    313: "Change State",
+    314: "Recover All",
+    315: "Change EXP",
+    316: "Change Level",
+    317: "Change Parameter",
+    318: "Change Skill",
+    319: "Change Equipment",
+    320: "Change Name",
+    321: "Change Class",
+    322: "Change Actor Images",
+    324: "Change Nickname",
+    325: "Change Profile",
+    326: "Change TP",
+    333: "Change Enemy State",
+    336: "Enemy Transform",
+    339: "Force Action",
+    605: "Shop Processing",
+};
+
+/**
+ * Label for a command at a position in its list
+ */
+export function commandLabel(command: RPGEventCommand, index: number): string {
+    return `line ${index + 1}: ${commandNames[command.code] ?? `Command ${command.code}`}`;
+}
+
+/**
+ * Load every map event page, common event and troop page in the project
+ */
+export async function collectEventSources(fileHandler: FileHandler): Promise<EventSource[]> {
+    const sources: EventSource[] = [];
+
+    const mapInfos = await fileHandler.readJson<(RPGMapInfo | null)[]>("data/MapInfos.json");
+    for (const mapInfo of mapInfos) {
+        if (!mapInfo) continue;
+        const mapFile = `data/Map${String(mapInfo.id).padStart(3, "0")}.json`;
+        if (!(await fileHandler.exists(mapFile))) continue;
+
+        const map = await fileHandler.readJson<RPGMap>(mapFile);
+        for (const event of map.events) {
+            if (!event) continue;
+            event.pages.forEach((page, i) => {
+                sources.push({
+                    source: `Map ${mapInfo.id} (${mapInfo.name}) event ${event.id} "${event.name}" page ${i + 1}`,
+                    list: page.list,
+                    mapPage: page,
+                });
+            });
+        }
+    }
+
+    if (await fileHandler.exists("data/CommonEvents.json")) {
+        const commonEvents = await fileHandler.readJson<(RPGCommonEvent | null)[]>("data/CommonEvents.json");
+        for (const commonEvent of commonEvents) {
+            if (!commonEvent) continue;
+            sources.push({
+                source: `Common event ${commonEvent.id} "${commonEvent.name}"`,
+                list: commonEvent.list,
+                commonEvent,
+            });
+        }
+    }
+
+    if (await fileHandler.exists("data/Troops.json")) {
+        const troops = await fileHandler.readJson<(RPGTroop | null)[]>("data/Troops.json");
+        for (const troop of troops) {
+            if (!troop) continue;
+            troop.pages.forEach((page, i) => {
+                sources.push({
+                    source: `Troop ${troop.id} "${troop.name}" page ${i + 1}`,
+                    list: page.list,
+                    troopPage: page,
+                });
+            });
+        }
+    }
+
+    return sources;
+}
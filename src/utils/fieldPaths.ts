@@ -0,0 +1,52 @@
+/**
+ * Field Paths - Dotted paths into database records
+ *
+ * A path names nested fields and array indexes with dots, e.g.
+ * "damage.formula", "params.2" or "traits.0.code".
+ */
+
+export function splitPath(path: string): string[] {
+    return path.split(".").filter((part) => part !== "");
+}
+
+/**
+ * Value at a path, or undefined when any part of it is missing
+ */
+export function getPath(value: unknown, path: string): unknown {
+    let current = value;
+    for (const part of splitPath(path)) {
+        if (current === null || typeof current !== "object") return undefined;
+        current = (current as Record<string, unknown>)[part];
+    }
+    return current;
+}
+
+/**
+ * Copy only the given paths of a record, keeping their nesting
+ *
+ * Array indexes become object keys ("params.2" -> { params: { "2": ... } }),
+ * so the result shows which index each value came from.
+ */
+export function pickFields(record: unknown, paths: string[]): { picked: Record<string, unknown>; missing: string[] } {
+    const picked: Record<string, unknown> = {};
+    const missing: string[] = [];
+
+    for (const path of paths) {
+        const parts = splitPath(path);
+        const value = getPath(record, path);
+        if (parts.length === 0 || value === undefined) {
+            missing.push(path);
+            continue;
+        }
+        let target = picked;
+        for (const part of parts.slice(0, -1)) {
+            if (typeof target[part] !== "object" || target[part] === null) {
+                target[part] = {};
+            }
+            target = target[part] as Record<string, unknown>;
+        }
+        target[parts[parts.length - 1]] = value;
+    }
+
+    return { picked, missing };
+}
@@ -20,6 +20,14 @@ export class FileHandler {
         return JSON.parse(content) as T;
     }
 
+    /**
+     * Read a binary file (images, audio)
+     */
+    async readBuffer(filePath: string): Promise<Buffer> {
+        const fullPath = this.resolvePath(filePath);
+        return fs.readFile(fullPath);
+    }
+
     /**
      * Write JSON to file with pretty formatting
      */
@@ -0,0 +1,209 @@
+/**
+ * JSON Patch - RFC 6902 operations and RFC 7386 merge patches
+ *
+ * Both work on a deep copy and return the patched value, so a failing
+ * operation never leaves a half-applied record behind.
+ */
+
+import { z } from "zod";
+
+const pointerSchema = z.string().describe("JSON Pointer, e.g. \"/damage/formula\" or \"/traits/-\"");
+
+export const jsonPatchOperationSchema = z.discriminatedUnion("op", [
+    z.object({ op: z.literal("add"), path: pointerSchema, value: z.unknown() }),
+    z.object({ op: z.literal("remove"), path: pointerSchema }),
+    z.object({ op: z.literal("replace"), path: pointerSchema, value: z.unknown() }),
+    z.object({ op: z.literal("move"), from: pointerSchema, path: pointerSchema }),
+    z.object({ op: z.literal("copy"), from: pointerSchema, path: pointerSchema }),
+    z.object({ op: z.literal("test"), path: pointerSchema, value: z.unknown() }),
+]);
+
+export type JsonPatchOperation = z.infer<typeof jsonPatchOperationSchema>;
+
+type Container = Record<string, unknown> | unknown[];
+
+function parsePointer(pointer: string): string[] {
+    if (pointer === "") return [];
+    if (!pointer.startsWith("/")) {
+        throw new Error(`Invalid JSON Pointer "${pointer}" (must start with "/")`);
+    }
+    return pointer.slice(1).split("/").map((token) => token.replace(/~1/g, "/").replace(/~0/g, "~"));
+}
+
+function isContainer(value: unknown): value is Container {
+    return value !== null && typeof value === "object";
+}
+
+function hasMember(container: unknown, token: string): container is Record<string, unknown> {
+    return isContainer(container) && !Array.isArray(container) && Object.hasOwn(container, token);
+}
+
+// Keys that would reach the prototype instead of creating a field
+const forbiddenKeys = new Set(["__proto__", "constructor", "prototype"]);
+
+function arrayIndex(array: unknown[], token: string, pointer: string, allowEnd: boolean): number {
+    if (allowEnd && token === "-") return array.length;
+    if (!/^(0|[1-9]\d*)$/.test(token)) {
+        throw new Error(`Invalid array index "${token}" in "${pointer}"`);
+    }
+    const index = Number(token);
+    if (index > array.length || (!allowEnd && index === array.length)) {
+        throw new Error(`Index ${index} is out of range in "${pointer}"`);
+    }
+    return index;
+}
+
+/**
+ * Container holding the last token of a pointer, and that token
+ */
+function resolveParent(document: unknown, pointer: string): { parent: Container; key: string } {
+    const tokens = parsePointer(pointer);
+    if (tokens.length === 0) {
+        throw new Error("The whole entry cannot be replaced; patch its fields instead");
+    }
+    let current = document;
+    for (const token of tokens.slice(0, -1)) {
+        if (Array.isArray(current)) {
+            current = current[arrayIndex(current, token, pointer, false)];
+        } else if (hasMember(current, token)) {
+            current = current[token];
+        } else {
+            throw new Error(`Path "${pointer}" not found`);
+        }
+    }
+    if (!isContainer(current)) {
+        throw new Error(`Path "${pointer}" not found`);
+    }
+    return { parent: current, key: tokens[tokens.length - 1] };
+}
+
+function getValue(document: unknown, pointer: string): unknown {
+    let current = document;
+    for (const token of parsePointer(pointer)) {
+        if (Array.isArray(current)) {
+            current = current[arrayIndex(current, token, pointer, false)];
+        } else if (hasMember(current, token)) {
+            current = current[token];
+        } else {
+            throw new Error(`Path "${pointer}" not found`);
+        }
+    }
+    return current;
+}
+
+function addValue(document: unknown, pointer: string, value: unknown): void {
+    const { parent, key } = resolveParent(document, pointer);
+    if (Array.isArray(parent)) {
+        parent.splice(arrayIndex(parent, key, pointer, true), 0, value);
+    } else {
+        if (forbiddenKeys.has(key)) {
+            throw new Error(`Field name "${key}" is not allowed in "${pointer}"`);
+        }
+        parent[key] = value;
+    }
+}
+
+function removeValue(document: unknown, pointer: string): unknown {
+    const { parent, key } = resolveParent(document, pointer);
+    if (Array.isArray(parent)) {
+        return parent.splice(arrayIndex(parent, key, pointer, false), 1)[0];
+    }
+    if (!hasMember(parent, key)) {
+        throw new Error(`Path "${pointer}" not found`);
+    }
+    const value = parent[key];
+    delete parent[key];
+    return value;
+}
+
+function requireValue(operation: { op: string; path: string; value?: unknown }): unknown {
+    if (operation.value === undefined) {
+        throw new Error(`"${operation.op}" at "${operation.path}" needs a value`);
+    }
+    return operation.value;
+}
+
+/**
+ * Structural equality; object member order does not matter (RFC 6902 §4.6)
+ */
+function deepEqual(a: unknown, b: unknown): boolean {
+    if (Array.isArray(a) || Array.isArray(b)) {
+        return Array.isArray(a) && Array.isArray(b) &&
+            a.length === b.length && a.every((element, index) => deepEqual(element, b[index]));
+    }
+    if (isContainer(a) && isContainer(b)) {
+        const keysA = Object.keys(a).sort();
+        const keysB = Object.keys(b).sort();
+        return keysA.length === keysB.length &&
+            keysA.every((key, index) => key === keysB[index] && deepEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]));
+    }
+    return a === b;
+}
+
+/**
+ * Apply RFC 6902 operations in order
+ */
+export function applyJsonPatch<T>(document: T, operations: JsonPatchOperation[]): T {
+    const result = structuredClone(document);
+    operations.forEach((operation, index) => {
+        try {
+            switch (operation.op) {
+                case "add":
+                    addValue(result, operation.path, structuredClone(requireValue(operation)));
+                    break;
+                case "remove":
+                    removeValue(result, operation.path);
+                    break;
+                case "replace":
+                    removeValue(result, operation.path);
+                    addValue(result, operation.path, structuredClone(requireValue(operation)));
+                    break;
+                case "move": {
+                    if (operation.path.startsWith(`${operation.from}/`)) {
+                        throw new Error(`Cannot move "${operation.from}" into itself`);
+                    }
+                    addValue(result, operation.path, removeValue(result, operation.from));
+                    break;
+                }
+                case "copy":
+                    addValue(result, operation.path, structuredClone(getValue(result, operation.from)));
+                    break;
+                case "test":
+                    if (!deepEqual(getValue(result, operation.path), requireValue(operation))) {
+                        throw new Error(`Test failed: "${operation.path}" does not equal ${JSON.stringify(operation.value)}`);
+                    }
+                    break;
+            }
+        } catch (error) {
+            throw new Error(`Operation ${index} (${operation.op}): ${error instanceof Error ? error.message : error}`);
+        }
+    });
+    return result;
+}
+
+/**
+ * Apply an RFC 7386 merge patch: objects merge recursively, arrays and other
+ * values replace, and null removes a field
+ */
+export function applyMergePatch<T>(document: T, patch: Record<string, unknown>): T {
+    const merge = (target: unknown, source: unknown): unknown => {
+        if (source === null || typeof source !== "object" || Array.isArray(source)) {
+            return structuredClone(source);
+        }
+        const result: Record<string, unknown> = target !== null && typeof target === "object" && !Array.isArray(target)
+            ? { ...(target as Record<string, unknown>) }
+            : {};
+        for (const [key, value] of Object.entries(source)) {
+            if (forbiddenKeys.has(key)) {
+                throw new Error(`Field name "${key}" is not allowed`);
+            }
+            if (value === null) {
+                delete result[key];
+            } else {
+                result[key] = merge(result[key], value);
+            }
+        }
+        return result;
+    };
+    return merge(structuredClone(document), patch) as T;
+}
@@ -0,0 +1,414 @@
+/**
+ * Map Generator - Seeded procedural layouts for dungeons, caves, towns and overworlds
+ *
+ * Generators only decide what terrain goes where; painting the terrain with
+ * tiles from a tileset is done by the generate_map tool. The same seed and
+ * options always produce the same layout.
+ */
+
+import type { Cell } from "./tilemap.js";
+
+export const Terrain = {
+    Wall: 0,
+    WallSide: 1,
+    Floor: 2,
+    Road: 3,
+    Roof: 4,
+    BuildingWall: 5,
+    DeepWater: 6,
+    Water: 7,
+    Sand: 8,
+    Grass: 9,
+    Forest: 10,
+    Hills: 11,
+    Mountain: 12,
+} as const;
+
+export type GeneratorType = "dungeon" | "cave" | "town" | "overworld";
+
+export interface GeneratedLayout {
+    width: number;
+    height: number;
+    terrain: Uint8Array;
+    regions: Uint8Array;
+    exits: Cell[];      // Walkable spots suitable for transfer events, best first
+}
+
+// ============================================================================
+// Seeded Random
+// ============================================================================
+
+/**
+ * Turn a numeric or string seed into a 32-bit integer
+ */
+export function normalizeSeed(seed: number | string): number {
+    if (typeof seed === "number") {
+        return seed >>> 0;
+    }
+    let hash = 2166136261;
+    for (let i = 0; i < seed.length; i++) {
+        hash ^= seed.charCodeAt(i);
+        hash = Math.imul(hash, 16777619);
+    }
+    return hash >>> 0;
+}
+
+/**
+ * Mulberry32 PRNG
+ */
+export class Random {
+    private state: number;
+
+    constructor(seed: number) {
+        this.state = seed >>> 0;
+    }
+
+    next(): number {
+        this.state = (this.state + 0x6d2b79f5) >>> 0;
+        let t = this.state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    }
+
+    int(min: number, max: number): number {
+        return min + Math.floor(this.next() * (max - min + 1));
+    }
+
+    pick<T>(items: T[]): T {
+        return items[Math.floor(this.next() * items.length)];
+    }
+
+    shuffle<T>(items: T[]): T[] {
+        for (let i = items.length - 1; i > 0; i--) {
+            const j = Math.floor(this.next() * (i + 1));
+            [items[i], items[j]] = [items[j], items[i]];
+        }
+        return items;
+    }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function createLayout(width: number, height: number, fill: number): GeneratedLayout {
+    return {
+        width,
+        height,
+        terrain: new Uint8Array(width * height).fill(fill),
+        regions: new Uint8Array(width * height),
+        exits: [],
+    };
+}
+
+function at(layout: GeneratedLayout, x: number, y: number): number {
+    return layout.terrain[y * layout.width + x];
+}
+
+function put(layout: GeneratedLayout, x: number, y: number, terrain: number, region = 0): void {
+    const i = y * layout.width + x;
+    layout.terrain[i] = terrain;
+    layout.regions[i] = region;
+}
+
+/**
+ * Give walls that face an open cell below them a wall side
+ */
+function markWallSides(layout: GeneratedLayout): void {
+    for (let y = 0; y < layout.height - 1; y++) {
+        for (let x = 0; x < layout.width; x++) {
+            if (at(layout, x, y) === Terrain.Wall && at(layout, x, y + 1) === Terrain.Floor) {
+                put(layout, x, y, Terrain.WallSide);
+            }
+        }
+    }
+}
+
+/**
+ * Pick spread-out floor cells: each next exit is the candidate farthest from those already chosen
+ */
+function spreadExits(candidates: Cell[], count: number, random: Random): Cell[] {
+    if (candidates.length === 0) return [];
+    const exits = [random.pick(candidates)];
+    while (exits.length < Math.min(count, candidates.length)) {
+        let best = candidates[0];
+        let bestDistance = -1;
+        for (const c of candidates) {
+            const distance = Math.min(...exits.map((e) => Math.abs(e.x - c.x) + Math.abs(e.y - c.y)));
+            if (distance > bestDistance) {
+                best = c;
+                bestDistance = distance;
+            }
+        }
+        exits.push(best);
+    }
+    return exits;
+}
+
+// ============================================================================
+// Dungeon - Rooms and corridors
+// ============================================================================
+
+interface Room {
+    x: number;
+    y: number;
+    w: number;
+    h: number;
+}
+
+function generateDungeon(width: number, height: number, random: Random, exitCount: number): GeneratedLayout {
+    const layout = createLayout(width, height, Terrain.Wall);
+    const rooms: Room[] = [];
+    const maxRooms = Math.max(2, Math.floor((width * height) / 80));
+
+    // Rooms keep 2 rows of wall above them for the wall side and 1 tile of border elsewhere
+    for (let attempt = 0; attempt < maxRooms * 10 && rooms.length < maxRooms; attempt++) {
+        const w = random.int(4, Math.max(4, Math.min(10, width - 4)));
+        const h = random.int(3, Math.max(3, Math.min(8, height - 5)));
+        const x = random.int(1, Math.max(1, width - w - 1));
+        const y = random.int(2, Math.max(2, height - h - 1));
+        if (x + w > width - 1 || y + h > height - 1) continue;
+        const overlaps = rooms.some((r) =>
+            x <= r.x + r.w + 1 && x + w + 1 >= r.x && y <= r.y + r.h + 2 && y + h + 2 >= r.y
+        );
+        if (!overlaps) {
+            rooms.push({ x, y, w, h });
+        }
+    }
+
+    rooms.forEach((room) => {
+        for (let y = room.y; y < room.y + room.h; y++) {
+            for (let x = room.x; x < room.x + room.w; x++) {
+                put(layout, x, y, Terrain.Floor, 1);
+            }
+        }
+    });
+
+    // Connect rooms left to right with L-shaped corridors
+    const ordered = [...rooms].sort((a, b) => a.x + a.w / 2 - (b.x + b.w / 2));
+    for (let i = 1; i < ordered.length; i++) {
+        const from = ordered[i - 1];
+        const to = ordered[i];
+        const x1 = Math.floor(from.x + from.w / 2);
+        const y1 = Math.floor(from.y + from.h / 2);
+        const x2 = Math.floor(to.x + to.w / 2);
+        const y2 = Math.floor(to.y + to.h / 2);
+        const horizontalFirst = random.next() < 0.5;
+        const carve = (x: number, y: number) => {
+            if (at(layout, x, y) !== Terrain.Floor) put(layout, x, y, Terrain.Floor, 2);
+        };
+        if (horizontalFirst) {
+            for (let x = Math.min(x1, x2); x <= Math.max(x1, x2); x++) carve(x, y1);
+            for (let y = Math.min(y1, y2); y <= Math.max(y1, y2); y++) carve(x2, y);
+        } else {
+            for (let y = Math.min(y1, y2); y <= Math.max(y1, y2); y++) carve(x1, y);
+            for (let x = Math.min(x1, x2); x <= Math.max(x1, x2); x++) carve(x, y2);
+        }
+    }
+
+    markWallSides(layout);
+
+    // Exits go in room centres, starting with the outermost rooms
+    const centres = ordered.map((r) => ({ x: Math.floor(r.x + r.w / 2), y: Math.floor(r.y + r.h / 2) }));
+    layout.exits = spreadExits(centres, exitCount, random);
+    return layout;
+}
+
+// ============================================================================
+// Cave - Cellular automata
+// ============================================================================
+
+function generateCave(width: number, height: number, random: Random, exitCount: number): GeneratedLayout {
+    let open = new Uint8Array(width * height);
+    const border = (x: number, y: number) => x < 1 || y < 2 || x >= width - 1 || y >= height - 1;
+
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            open[y * width + x] = !border(x, y) && random.next() >= 0.45 ? 1 : 0;
+        }
+    }
+
+    // Smooth: a cell becomes wall with 5+ wall neighbours, open with 3 or fewer
+    for (let step = 0; step < 5; step++) {
+        const next = new Uint8Array(width * height);
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                if (border(x, y)) continue;
+                let walls = 0;
+                for (let dy = -1; dy <= 1; dy++) {
+                    for (let dx = -1; dx <= 1; dx++) {
+                        if ((dx !== 0 || dy !== 0) && !open[(y + dy) * width + x + dx]) walls++;
+                    }
+                }
+                const i = y * width + x;
+                next[i] = walls >= 5 ? 0 : walls <= 3 ? 1 : open[i];
+            }
+        }
+        open = next;
+    }
+
+    // Keep only the largest connected cave so every floor cell is reachable
+    const label = new Int32Array(width * height).fill(-1);
+    let largest: number[] = [];
+    for (let start = 0; start < open.length; start++) {
+        if (!open[start] || label[start] !== -1) continue;
+        const component: number[] = [];
+        const stack = [start];
+        label[start] = start;
+        while (stack.length > 0) {
+            const i = stack.pop()!;
+            component.push(i);
+            const x = i % width;
+            const y = Math.floor(i / width);
+            for (const [nx, ny] of [[x + 1, y], [x - 1, y], [x, y + 1], [x, y - 1]]) {
+                const j = ny * width + nx;
+                if (nx >= 0 && ny >= 0 && nx < width && ny < height && open[j] && label[j] === -1) {
+                    label[j] = start;
+                    stack.push(j);
+                }
+            }
+        }
+        if (component.length > largest.length) largest = component;
+    }
+
+    const layout = createLayout(width, height, Terrain.Wall);
+    for (const i of largest) {
+        put(layout, i % width, Math.floor(i / width), Terrain.Floor, 1);
+    }
+    markWallSides(layout);
+
+    const candidates = largest.map((i) => ({ x: i % width, y: Math.floor(i / width) }));
+    layout.exits = spreadExits(candidates, exitCount, random);
+    return layout;
+}
+
+// ============================================================================
+// Town - Road grid with buildings
+// ============================================================================
+
+function generateTown(width: number, height: number, random: Random, exitCount: number): GeneratedLayout {
+    const layout = createLayout(width, height, Terrain.Grass);
+    const blockW = random.int(8, 11);
+    const blockH = random.int(7, 9);
+    const offsetX = random.int(2, 4);
+    const offsetY = random.int(2, 4);
+
+    const isRoadX = (x: number) => (x - offsetX) % blockW === 0 || (x - offsetX) % blockW === 1;
+    const isRoadY = (y: number) => (y - offsetY) % blockH === 0 || (y - offsetY) % blockH === 1;
+
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            if ((x >= offsetX && isRoadX(x)) || (y >= offsetY && isRoadY(y))) {
+                put(layout, x, y, Terrain.Road);
+            }
+        }
+    }
+
+    // One building per block, its wall row facing the road below
+    for (let by = offsetY + 2; by + 4 < height; by += blockH) {
+        for (let bx = offsetX + 2; bx + 4 < width; bx += blockW) {
+            const maxW = Math.min(blockW - 4, width - bx - 1);
+            const maxH = Math.min(blockH - 4, height - by - 1);
+            if (maxW < 3 || maxH < 3 || random.next() < 0.15) continue;
+            const w = random.int(3, maxW);
+            const h = random.int(3, maxH);
+            const x0 = bx + random.int(0, maxW - w);
+            const y0 = by + random.int(0, maxH - h);
+            for (let y = y0; y < y0 + h; y++) {
+                for (let x = x0; x < x0 + w; x++) {
+                    put(layout, x, y, y >= y0 + h - 1 ? Terrain.BuildingWall : Terrain.Roof);
+                }
+            }
+        }
+    }
+
+    // Exits where roads leave the map
+    const candidates: Cell[] = [];
+    for (let x = 0; x < width; x++) {
+        if (at(layout, x, 0) === Terrain.Road) candidates.push({ x, y: 0 });
+        if (at(layout, x, height - 1) === Terrain.Road) candidates.push({ x, y: height - 1 });
+    }
+    for (let y = 0; y < height; y++) {
+        if (at(layout, 0, y) === Terrain.Road) candidates.push({ x: 0, y });
+        if (at(layout, width - 1, y) === Terrain.Road) candidates.push({ x: width - 1, y });
+    }
+    layout.exits = spreadExits(candidates, exitCount, random);
+    return layout;
+}
+
+// ============================================================================
+// Overworld - Value noise
+// ============================================================================
+
+function createNoise(random: Random, width: number, height: number, cellSize: number) {
+    const gw = Math.ceil(width / cellSize) + 2;
+    const gh = Math.ceil(height / cellSize) + 2;
+    const grid = Array.from({ length: gw * gh }, () => random.next());
+    const smooth = (t: number) => t * t * (3 - 2 * t);
+
+    return (x: number, y: number): number => {
+        const fx = x / cellSize;
+        const fy = y / cellSize;
+        const x0 = Math.floor(fx);
+        const y0 = Math.floor(fy);
+        const tx = smooth(fx - x0);
+        const ty = smooth(fy - y0);
+        const v = (gx: number, gy: number) => grid[gy * gw + gx];
+        const top = v(x0, y0) * (1 - tx) + v(x0 + 1, y0) * tx;
+        const bottom = v(x0, y0 + 1) * (1 - tx) + v(x0 + 1, y0 + 1) * tx;
+        return top * (1 - ty) + bottom * ty;
+    };
+}
+
+function generateOverworld(width: number, height: number, random: Random, exitCount: number): GeneratedLayout {
+    const layout = createLayout(width, height, Terrain.Water);
+    const octaves = [16, 8, 4].map((size) => createNoise(random, width, height, size));
+    const moisture = createNoise(random, width, height, 12);
+    const weights = [0.6, 0.3, 0.1];
+
+    const candidates: Cell[] = [];
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            let elevation = octaves.reduce((sum, noise, i) => sum + noise(x, y) * weights[i], 0);
+            // Fade towards the edges so the world is surrounded by sea
+            const edge = Math.min(x, y, width - 1 - x, height - 1 - y) / Math.max(1, Math.min(width, height) / 6);
+            elevation *= Math.min(1, 0.4 + edge * 0.6);
+
+            if (elevation < 0.3) {
+                put(layout, x, y, Terrain.DeepWater);
+            } else if (elevation < 0.42) {
+                put(layout, x, y, Terrain.Water);
+            } else if (elevation < 0.46) {
+                put(layout, x, y, Terrain.Sand, 1);
+            } else if (elevation < 0.62) {
+                put(layout, x, y, moisture(x, y) > 0.55 ? Terrain.Forest : Terrain.Grass, moisture(x, y) > 0.55 ? 2 : 1);
+                candidates.push({ x, y });
+            } else if (elevation < 0.7) {
+                put(layout, x, y, Terrain.Hills, 3);
+            } else {
+                put(layout, x, y, Terrain.Mountain, 3);
+            }
+        }
+    }
+
+    layout.exits = spreadExits(candidates, exitCount, random);
+    return layout;
+}
+
+/**
+ * Generate a layout of the given type; exitCount spots are reserved for transfer events
+ */
+export function generateLayout(type: GeneratorType, width: number, height: number, seed: number, exitCount = 0): GeneratedLayout {
+    const random = new Random(seed);
+    switch (type) {
+        case "dungeon":
+            return generateDungeon(width, height, random, exitCount);
+        case "cave":
+            return generateCave(width, height, random, exitCount);
+        case "town":
+            return generateTown(width, height, random, exitCount);
+        case "overworld":
+            return generateOverworld(width, height, random, exitCount);
+    }
+}
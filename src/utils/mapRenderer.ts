@@ -0,0 +1,467 @@
+/**
+ * Map Renderer - Composite an RPGMap with its tileset images into an RGBA image
+ *
+ * Follows the engine's Tilemap drawing (normal tiles, autotile quarters,
+ * table edges and shadows) for a single still frame. Event graphics are drawn
+ * above every tile layer; overlays are drawn last at output resolution.
+ */
+
+import type { RPGMap, RPGTileset, RPGEvent } from "./types.js";
+import { createImage } from "./png.js";
+import type { RGBAImage } from "./png.js";
+import {
+    AutotileTables, Layer, getTile, isAutotile, getAutotileKind, getAutotileShape, getAutotileType,
+    isTileA1, isTileA2, isTileA3, isTileA4, getTileSheet, sheetSlots, TileFlag,
+} from "./tilemap.js";
+import type { TileSheet } from "./tilemap.js";
+
+export const TILE_SIZE = 48;
+
+export interface RenderArea {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface RenderOptions {
+    area: RenderArea;
+    scale: number;
+    eventGraphics: boolean;
+    eventMarkers: boolean;
+    regions: boolean;
+    passability: boolean;
+}
+
+export interface RenderAssets {
+    tilesetImages: (RGBAImage | null)[];            // By sheet slot
+    characterImages: Map<string, RGBAImage | null>; // By characterName
+}
+
+type Color = [number, number, number, number];
+
+const SHADOW_COLOR: Color = [0, 0, 0, 128];
+const BLOCKED_COLOR: Color = [255, 32, 32, 110];
+const EDGE_COLOR: Color = [255, 64, 32, 220];
+const MARKER_COLOR: Color = [0, 224, 255, 255];
+const LABEL_BACKGROUND: Color = [0, 0, 0, 170];
+const LABEL_COLOR: Color = [255, 255, 255, 255];
+
+// 3x5 pixel digits for region and event labels
+const DIGIT_FONT = [
+    "111101101101111", "010110010010111", "111001111100111", "111001111001111", "101101111001001",
+    "111100111001111", "111100111101111", "111001001001001", "111101111101111", "111101111001111",
+];
+
+// Passage flag bits per direction (down, left, right, up), as in Game_Map.isPassable
+const DIRECTION_BITS = [TileFlag.ImpassableDown, TileFlag.ImpassableLeft, TileFlag.ImpassableRight, TileFlag.ImpassableUp];
+
+/**
+ * Drawing target that maps map-pixel coordinates to scaled output pixels
+ */
+class Surface {
+    readonly image: RGBAImage;
+
+    constructor(
+        width: number,
+        height: number,
+        private scale: number,
+        private originX: number,
+        private originY: number
+    ) {
+        this.image = createImage(width, height);
+    }
+
+    /**
+     * Blend one output pixel (source-over)
+     */
+    private blend(ox: number, oy: number, r: number, g: number, b: number, a: number): void {
+        if (a === 0) return;
+        const d = this.image.data;
+        const i = (oy * this.image.width + ox) * 4;
+        if (a === 255 || d[i + 3] === 0) {
+            d[i] = r;
+            d[i + 1] = g;
+            d[i + 2] = b;
+            d[i + 3] = a;
+            return;
+        }
+        const srcA = a / 255;
+        const dstA = d[i + 3] / 255;
+        const outA = srcA + dstA * (1 - srcA);
+        d[i] = Math.round((r * srcA + d[i] * dstA * (1 - srcA)) / outA);
+        d[i + 1] = Math.round((g * srcA + d[i + 1] * dstA * (1 - srcA)) / outA);
+        d[i + 2] = Math.round((b * srcA + d[i + 2] * dstA * (1 - srcA)) / outA);
+        d[i + 3] = Math.round(outA * 255);
+    }
+
+    /**
+     * Output pixel range covered by a map-pixel span
+     */
+    private span(start: number, length: number, origin: number, limit: number): [number, number] {
+        const from = Math.round((start - origin) * this.scale);
+        const to = Math.round((start + length - origin) * this.scale);
+        return [Math.max(0, from), Math.min(limit, to)];
+    }
+
+    /**
+     * Draw part of an image (nearest-neighbour), like Bitmap.blt
+     */
+    draw(src: RGBAImage, sx: number, sy: number, sw: number, sh: number, dx: number, dy: number, dw = sw, dh = sh): void {
+        const [x0, x1] = this.span(dx, dw, this.originX, this.image.width);
+        const [y0, y1] = this.span(dy, dh, this.originY, this.image.height);
+        for (let oy = y0; oy < y1; oy++) {
+            const v = Math.floor(((oy + 0.5) / this.scale + this.originY - dy) * (sh / dh));
+            const srcY = sy + Math.min(sh - 1, Math.max(0, v));
+            if (srcY < 0 || srcY >= src.height) continue;
+            for (let ox = x0; ox < x1; ox++) {
+                const u = Math.floor(((ox + 0.5) / this.scale + this.originX - dx) * (sw / dw));
+                const srcX = sx + Math.min(sw - 1, Math.max(0, u));
+                if (srcX < 0 || srcX >= src.width) continue;
+                const i = (srcY * src.width + srcX) * 4;
+                this.blend(ox, oy, src.data[i], src.data[i + 1], src.data[i + 2], src.data[i + 3]);
+            }
+        }
+    }
+
+    /**
+     * Fill a rectangle given in map pixels
+     */
+    fillRect(x: number, y: number, width: number, height: number, color: Color): void {
+        const [x0, x1] = this.span(x, width, this.originX, this.image.width);
+        const [y0, y1] = this.span(y, height, this.originY, this.image.height);
+        this.fillOutputRect(x0, y0, x1 - x0, y1 - y0, color);
+    }
+
+    /**
+     * Fill a rectangle given in output pixels
+     */
+    fillOutputRect(x: number, y: number, width: number, height: number, color: Color): void {
+        const x0 = Math.max(0, x);
+        const y0 = Math.max(0, y);
+        const x1 = Math.min(this.image.width, x + width);
+        const y1 = Math.min(this.image.height, y + height);
+        for (let oy = y0; oy < y1; oy++) {
+            for (let ox = x0; ox < x1; ox++) {
+                this.blend(ox, oy, color[0], color[1], color[2], color[3]);
+            }
+        }
+    }
+
+    /**
+     * Outline a tile cell with a border of the given output-pixel thickness
+     */
+    outlineTile(tx: number, ty: number, thickness: number, color: Color): void {
+        const [x0, x1] = this.span(tx * TILE_SIZE, TILE_SIZE, this.originX, this.image.width);
+        const [y0, y1] = this.span(ty * TILE_SIZE, TILE_SIZE, this.originY, this.image.height);
+        this.fillOutputRect(x0, y0, x1 - x0, thickness, color);
+        this.fillOutputRect(x0, y1 - thickness, x1 - x0, thickness, color);
+        this.fillOutputRect(x0, y0, thickness, y1 - y0, color);
+        this.fillOutputRect(x1 - thickness, y0, thickness, y1 - y0, color);
+    }
+
+    /**
+     * Draw a number label on a dark box at the top-left of a tile
+     */
+    drawLabel(tx: number, ty: number, value: number, pixelSize: number): void {
+        const text = String(value);
+        const ox = Math.round((tx * TILE_SIZE - this.originX) * this.scale) + pixelSize;
+        const oy = Math.round((ty * TILE_SIZE - this.originY) * this.scale) + pixelSize;
+        const width = (text.length * 4 + 1) * pixelSize;
+        this.fillOutputRect(ox, oy, width, 7 * pixelSize, LABEL_BACKGROUND);
+
+        for (let c = 0; c < text.length; c++) {
+            const glyph = DIGIT_FONT[Number(text[c])];
+            for (let i = 0; i < 15; i++) {
+                if (glyph[i] !== "1") continue;
+                const px = ox + (1 + c * 4 + (i % 3)) * pixelSize;
+                const py = oy + (1 + Math.floor(i / 3)) * pixelSize;
+                this.fillOutputRect(px, py, pixelSize, pixelSize, LABEL_COLOR);
+            }
+        }
+    }
+}
+
+// ============================================================================
+// Tile Drawing
+// ============================================================================
+
+class TileDrawer {
+    readonly missingSheets = new Set<TileSheet>();
+
+    constructor(
+        private surface: Surface,
+        private tileset: RPGTileset,
+        private images: (RGBAImage | null)[]
+    ) { }
+
+    private sheetImage(tileId: number): RGBAImage | null {
+        const sheet = getTileSheet(tileId);
+        const image = this.images[sheetSlots[sheet]];
+        if (!image) this.missingSheets.add(sheet);
+        return image ?? null;
+    }
+
+    private isTableTile(tileId: number): boolean {
+        return isTileA2(tileId) && ((this.tileset.flags[tileId] ?? 0) & TileFlag.Counter) !== 0;
+    }
+
+    drawTile(tileId: number, dx: number, dy: number): void {
+        if (tileId <= 0 || tileId >= 8192) return;
+        if (isAutotile(tileId)) {
+            this.drawAutotile(tileId, dx, dy);
+        } else {
+            this.drawNormalTile(tileId, dx, dy);
+        }
+    }
+
+    private drawNormalTile(tileId: number, dx: number, dy: number): void {
+        const image = this.sheetImage(tileId);
+        if (!image) return;
+        const sx = ((Math.floor(tileId / 128) % 2) * 8 + (tileId % 8)) * TILE_SIZE;
+        const sy = (Math.floor((tileId % 256) / 8) % 16) * TILE_SIZE;
+        this.surface.draw(image, sx, sy, TILE_SIZE, TILE_SIZE, dx, dy);
+    }
+
+    /**
+     * Source block (in half-tile pairs) of an autotile kind, as in Tilemap._drawAutotile
+     */
+    private autotileBlock(tileId: number): [number, number] {
+        const kind = getAutotileKind(tileId);
+        const tx = kind % 8;
+        const ty = Math.floor(kind / 8);
+        if (isTileA1(tileId)) {
+            // Frame 0 of the water animation
+            if (kind === 0) return [0, 0];
+            if (kind === 1) return [0, 3];
+            if (kind === 2) return [6, 0];
+            if (kind === 3) return [6, 3];
+            const bx = Math.floor(tx / 4) * 8;
+            const by = ty * 6 + (Math.floor(tx / 2) % 2) * 3;
+            return kind % 2 === 0 ? [bx, by] : [bx + 6, by];
+        }
+        if (isTileA2(tileId)) return [tx * 2, (ty - 2) * 3];
+        if (isTileA3(tileId)) return [tx * 2, (ty - 6) * 2];
+        return [tx * 2, Math.floor((ty - 10) * 2.5 + (ty % 2 === 1 ? 0.5 : 0))];
+    }
+
+    private drawAutotile(tileId: number, dx: number, dy: number): void {
+        const image = this.sheetImage(tileId);
+        if (!image) return;
+        const [bx, by] = this.autotileBlock(tileId);
+        const table = AutotileTables[getAutotileType(tileId)][getAutotileShape(tileId)];
+        if (!table) return;
+        const isTable = this.isTableTile(tileId);
+        const w1 = TILE_SIZE / 2;
+        const h1 = TILE_SIZE / 2;
+
+        for (let i = 0; i < 4; i++) {
+            const [qsx, qsy] = table[i];
+            const sx1 = (bx * 2 + qsx) * w1;
+            const sy1 = (by * 2 + qsy) * h1;
+            const dx1 = dx + (i % 2) * w1;
+            let dy1 = dy + Math.floor(i / 2) * h1;
+            if (isTable && (qsy === 1 || qsy === 5)) {
+                const qsx2 = qsy === 1 ? [0, 3, 2, 1][qsx] : qsx;
+                const sx2 = (bx * 2 + qsx2) * w1;
+                const sy2 = (by * 2 + 3) * h1;
+                this.surface.draw(image, sx2, sy2, w1, h1, dx1, dy1);
+                dy1 += h1 / 2;
+                this.surface.draw(image, sx1, sy1, w1, h1 / 2, dx1, dy1);
+            } else {
+                this.surface.draw(image, sx1, sy1, w1, h1, dx1, dy1);
+            }
+        }
+    }
+
+    /**
+     * Lower half of a table tile hanging into the cell below, as in Tilemap._addTableEdge
+     */
+    drawTableEdge(tileId: number, dx: number, dy: number): void {
+        const image = this.sheetImage(tileId);
+        if (!image) return;
+        const [bx, by] = this.autotileBlock(tileId);
+        const table = AutotileTables.floor[getAutotileShape(tileId)];
+        const w1 = TILE_SIZE / 2;
+        const h1 = TILE_SIZE / 2;
+        for (let i = 0; i < 2; i++) {
+            const [qsx, qsy] = table[2 + i];
+            const sx1 = (bx * 2 + qsx) * w1;
+            const sy1 = (by * 2 + qsy) * h1 + h1 / 2;
+            this.surface.draw(image, sx1, sy1, w1, h1 / 2, dx + i * w1, dy);
+        }
+    }
+
+    drawShadow(shadowBits: number, dx: number, dy: number): void {
+        const half = TILE_SIZE / 2;
+        for (let i = 0; i < 4; i++) {
+            if (shadowBits & (1 << i)) {
+                this.surface.fillRect(dx + (i % 2) * half, dy + Math.floor(i / 2) * half, half, half, SHADOW_COLOR);
+            }
+        }
+    }
+
+    isTable(tileId: number): boolean {
+        return this.isTableTile(tileId);
+    }
+}
+
+// ============================================================================
+// Events and Overlays
+// ============================================================================
+
+/**
+ * Draw the first page graphic of an event, like Sprite_Character
+ */
+function drawEventGraphic(surface: Surface, tiles: TileDrawer, event: RPGEvent, assets: RenderAssets): void {
+    const image = event.pages[0]?.image;
+    if (!image) return;
+    const dx = event.x * TILE_SIZE;
+    const dy = event.y * TILE_SIZE;
+
+    if (image.tileId > 0) {
+        tiles.drawTile(image.tileId, dx, dy);
+        return;
+    }
+    if (!image.characterName) return;
+
+    const bitmap = assets.characterImages.get(image.characterName);
+    if (!bitmap) return;
+    const isBig = /^[!$]*\$/.test(image.characterName);
+    const isObject = /^[!$]*!/.test(image.characterName);
+    const pw = Math.floor(bitmap.width / (isBig ? 3 : 12));
+    const ph = Math.floor(bitmap.height / (isBig ? 4 : 8));
+    const blockX = isBig ? 0 : (image.characterIndex % 4) * 3;
+    const blockY = isBig ? 0 : Math.floor(image.characterIndex / 4) * 4;
+    const sx = (blockX + image.pattern) * pw;
+    const sy = (blockY + Math.max(0, (image.direction - 2) / 2)) * ph;
+    const shiftY = isObject ? 0 : 6;
+    surface.draw(bitmap, sx, sy, pw, ph, dx + TILE_SIZE / 2 - pw / 2, dy + TILE_SIZE - shiftY - ph);
+}
+
+/**
+ * Whether the tiles at a cell allow passage in a direction, as in Game_Map.checkPassage
+ */
+function checkPassage(map: RPGMap, tileset: RPGTileset, x: number, y: number, bit: number): boolean {
+    for (let layer = Layer.Upper; layer >= Layer.Ground; layer--) {
+        const flag = tileset.flags[getTile(map, x, y, layer)] ?? 0;
+        if ((flag & TileFlag.Star) !== 0) continue;
+        if ((flag & bit) === 0) return true;
+        if ((flag & bit) === bit) return false;
+    }
+    return false;
+}
+
+function regionColor(regionId: number): Color {
+    // Spread hues with the golden angle so neighbouring IDs differ clearly
+    const hue = (regionId * 137.508) % 360;
+    const f = (n: number) => {
+        const k = (n + hue / 60) % 6;
+        return Math.round(255 * (1 - Math.max(0, Math.min(k, 4 - k, 1))));
+    };
+    return [f(5), f(3), f(1), 100];
+}
+
+// ============================================================================
+// Renderer
+// ============================================================================
+
+export interface RenderResult {
+    image: RGBAImage;
+    missingSheets: TileSheet[];
+}
+
+export function renderMap(map: RPGMap, tileset: RPGTileset, assets: RenderAssets, options: RenderOptions): RenderResult {
+    const { area, scale } = options;
+    const width = Math.max(1, Math.round(area.width * TILE_SIZE * scale));
+    const height = Math.max(1, Math.round(area.height * TILE_SIZE * scale));
+    const surface = new Surface(width, height, scale, area.x * TILE_SIZE, area.y * TILE_SIZE);
+    const tiles = new TileDrawer(surface, tileset, assets.tilesetImages);
+
+    for (let y = area.y; y < area.y + area.height; y++) {
+        for (let x = area.x; x < area.x + area.width; x++) {
+            const dx = x * TILE_SIZE;
+            const dy = y * TILE_SIZE;
+            const tileId0 = getTile(map, x, y, Layer.Ground);
+            const tileId1 = getTile(map, x, y, Layer.GroundDecoration);
+            const upperTileId1 = y > 0 ? getTile(map, x, y - 1, Layer.GroundDecoration) : 0;
+
+            tiles.drawTile(tileId0, dx, dy);
+            tiles.drawTile(tileId1, dx, dy);
+            tiles.drawShadow(getTile(map, x, y, Layer.Shadow), dx, dy);
+            if (tiles.isTable(upperTileId1) && !tiles.isTable(tileId1) && !isTileA3(tileId0) && !isTileA4(tileId0)) {
+                tiles.drawTableEdge(upperTileId1, dx, dy);
+            }
+            tiles.drawTile(getTile(map, x, y, Layer.Lower), dx, dy);
+            tiles.drawTile(getTile(map, x, y, Layer.Upper), dx, dy);
+        }
+    }
+
+    const inArea = (x: number, y: number) =>
+        x >= area.x && y >= area.y && x < area.x + area.width && y < area.y + area.height;
+    const events = map.events.filter((e): e is RPGEvent => e !== null && inArea(e.x, e.y));
+
+    if (options.eventGraphics) {
+        for (const event of [...events].sort((a, b) => a.y - b.y)) {
+            drawEventGraphic(surface, tiles, event, assets);
+        }
+    }
+
+    const tileOutputSize = TILE_SIZE * scale;
+    const labelPixel = Math.max(1, Math.floor(tileOutputSize / 16));
+
+    if (options.passability) {
+        const edge = Math.max(1, Math.round(tileOutputSize / 12));
+        for (let y = area.y; y < area.y + area.height; y++) {
+            for (let x = area.x; x < area.x + area.width; x++) {
+                const blocked = DIRECTION_BITS.map((bit) => !checkPassage(map, tileset, x, y, bit));
+                const dx = x * TILE_SIZE;
+                const dy = y * TILE_SIZE;
+                if (blocked.every(Boolean)) {
+                    surface.fillRect(dx, dy, TILE_SIZE, TILE_SIZE, BLOCKED_COLOR);
+                    continue;
+                }
+                const edgeSize = edge / scale;
+                if (blocked[0]) surface.fillRect(dx, dy + TILE_SIZE - edgeSize, TILE_SIZE, edgeSize, EDGE_COLOR);
+                if (blocked[1]) surface.fillRect(dx, dy, edgeSize, TILE_SIZE, EDGE_COLOR);
+                if (blocked[2]) surface.fillRect(dx + TILE_SIZE - edgeSize, dy, edgeSize, TILE_SIZE, EDGE_COLOR);
+                if (blocked[3]) surface.fillRect(dx, dy, TILE_SIZE, edgeSize, EDGE_COLOR);
+            }
+        }
+    }
+
+    if (options.regions) {
+        for (let y = area.y; y < area.y + area.height; y++) {
+            for (let x = area.x; x < area.x + area.width; x++) {
+                const regionId = getTile(map, x, y, Layer.Region);
+                if (regionId === 0) continue;
+                surface.fillRect(x * TILE_SIZE, y * TILE_SIZE, TILE_SIZE, TILE_SIZE, regionColor(regionId));
+                surface.drawLabel(x, y, regionId, labelPixel);
+            }
+        }
+    }
+
+    if (options.eventMarkers) {
+        const thickness = Math.max(1, Math.round(tileOutputSize / 16));
+        for (const event of events) {
+            surface.outlineTile(event.x, event.y, thickness, MARKER_COLOR);
+            surface.drawLabel(event.x, event.y, event.id, labelPixel);
+        }
+    }
+
+    return { image: surface.image, missingSheets: [...tiles.missingSheets] };
+}
+
+/**
+ * Character sheet names used by the first page of each event
+ */
+export function getEventCharacterNames(map: RPGMap): string[] {
+    const names = new Set<string>();
+    for (const event of map.events) {
+        const image = event?.pages[0]?.image;
+        if (image && image.tileId === 0 && image.characterName) {
+            names.add(image.characterName);
+        }
+    }
+    return [...names];
+}
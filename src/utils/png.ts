@@ -0,0 +1,271 @@
+/**
+ * PNG - Minimal pure-JS PNG decoder/encoder (zlib from node:zlib)
+ *
+ * Decodes every standard color type and bit depth, including palette
+ * transparency and Adam7 interlacing, into 8-bit RGBA. Encodes RGBA only.
+ */
+
+import { inflateSync, deflateSync } from "node:zlib";
+
+export interface RGBAImage {
+    width: number;
+    height: number;
+    data: Uint8Array;   // RGBA, 4 bytes per pixel, row-major
+}
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+// Adam7 passes: [startX, startY, stepX, stepY]
+const ADAM7_PASSES = [
+    [0, 0, 8, 8], [4, 0, 8, 8], [0, 4, 4, 8], [2, 0, 4, 4],
+    [0, 2, 2, 4], [1, 0, 2, 2], [0, 1, 1, 2],
+];
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+function crc32(buffer: Uint8Array): number {
+    let crc = 0xffffffff;
+    for (let i = 0; i < buffer.length; i++) {
+        crc = CRC_TABLE[(crc ^ buffer[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+export function createImage(width: number, height: number): RGBAImage {
+    return { width, height, data: new Uint8Array(width * height * 4) };
+}
+
+// ============================================================================
+// Decoder
+// ============================================================================
+
+function paeth(a: number, b: number, c: number): number {
+    const p = a + b - c;
+    const pa = Math.abs(p - a);
+    const pb = Math.abs(p - b);
+    const pc = Math.abs(p - c);
+    if (pa <= pb && pa <= pc) return a;
+    if (pb <= pc) return b;
+    return c;
+}
+
+/**
+ * Undo scanline filters; returns the unfiltered rows without filter bytes
+ */
+function unfilter(data: Uint8Array, offset: number, rowBytes: number, rows: number, bpp: number): Uint8Array {
+    const out = new Uint8Array(rowBytes * rows);
+    for (let y = 0; y < rows; y++) {
+        const filter = data[offset + y * (rowBytes + 1)];
+        const src = offset + y * (rowBytes + 1) + 1;
+        const row = y * rowBytes;
+        const prev = row - rowBytes;
+        for (let x = 0; x < rowBytes; x++) {
+            const raw = data[src + x];
+            const a = x >= bpp ? out[row + x - bpp] : 0;
+            const b = y > 0 ? out[prev + x] : 0;
+            const c = x >= bpp && y > 0 ? out[prev + x - bpp] : 0;
+            let value: number;
+            switch (filter) {
+                case 0: value = raw; break;
+                case 1: value = raw + a; break;
+                case 2: value = raw + b; break;
+                case 3: value = raw + ((a + b) >> 1); break;
+                case 4: value = raw + paeth(a, b, c); break;
+                default: throw new Error(`Invalid PNG filter type ${filter}`);
+            }
+            out[row + x] = value & 0xff;
+        }
+    }
+    return out;
+}
+
+export function decodePng(buffer: Buffer): RGBAImage {
+    if (buffer.length < 8 || !buffer.subarray(0, 8).equals(PNG_SIGNATURE)) {
+        throw new Error("Not a PNG file");
+    }
+
+    let width = 0;
+    let height = 0;
+    let bitDepth = 0;
+    let colorType = 0;
+    let interlace = 0;
+    let palette: Uint8Array | null = null;
+    let transparency: Uint8Array | null = null;
+    const idat: Buffer[] = [];
+
+    let pos = 8;
+    while (pos < buffer.length) {
+        const length = buffer.readUInt32BE(pos);
+        const type = buffer.toString("ascii", pos + 4, pos + 8);
+        const chunk = buffer.subarray(pos + 8, pos + 8 + length);
+        pos += 12 + length;
+
+        if (type === "IHDR") {
+            width = chunk.readUInt32BE(0);
+            height = chunk.readUInt32BE(4);
+            bitDepth = chunk[8];
+            colorType = chunk[9];
+            interlace = chunk[12];
+        } else if (type === "PLTE") {
+            palette = new Uint8Array(chunk);
+        } else if (type === "tRNS") {
+            transparency = new Uint8Array(chunk);
+        } else if (type === "IDAT") {
+            idat.push(chunk);
+        } else if (type === "IEND") {
+            break;
+        }
+    }
+
+    const channels = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 }[colorType];
+    if (!channels) {
+        throw new Error(`Unsupported PNG color type ${colorType}`);
+    }
+
+    const raw = inflateSync(Buffer.concat(idat));
+    const bitsPerPixel = channels * bitDepth;
+    const bpp = Math.max(1, bitsPerPixel >> 3);
+    const image = createImage(width, height);
+    const maxValue = (1 << bitDepth) - 1;
+
+    const readSample = (row: Uint8Array, rowStart: number, index: number): number => {
+        if (bitDepth === 8) return row[rowStart + index];
+        if (bitDepth === 16) return row[rowStart + index * 2]; // Keep the high byte
+        const bitOffset = index * bitDepth;
+        const byte = row[rowStart + (bitOffset >> 3)];
+        return (byte >> (8 - bitDepth - (bitOffset & 7))) & maxValue;
+    };
+
+    const readRawSample = (row: Uint8Array, rowStart: number, index: number): number =>
+        bitDepth === 16 ? (row[rowStart + index * 2] << 8) | row[rowStart + index * 2 + 1] : readSample(row, rowStart, index);
+
+    const scale = (v: number) => (bitDepth >= 8 ? v : Math.round((v * 255) / maxValue));
+
+    const writePixel = (rows: Uint8Array, rowStart: number, px: number, x: number, y: number) => {
+        const out = (y * width + x) * 4;
+        const d = image.data;
+        switch (colorType) {
+            case 0: {
+                const v = scale(readSample(rows, rowStart, px));
+                const transparent = transparency !== null && readRawSample(rows, rowStart, px) === ((transparency[0] << 8) | transparency[1]);
+                d[out] = d[out + 1] = d[out + 2] = v;
+                d[out + 3] = transparent ? 0 : 255;
+                break;
+            }
+            case 2: {
+                d[out] = readSample(rows, rowStart, px * 3);
+                d[out + 1] = readSample(rows, rowStart, px * 3 + 1);
+                d[out + 2] = readSample(rows, rowStart, px * 3 + 2);
+                const transparent = transparency !== null
+                    && readRawSample(rows, rowStart, px * 3) === ((transparency[0] << 8) | transparency[1])
+                    && readRawSample(rows, rowStart, px * 3 + 1) === ((transparency[2] << 8) | transparency[3])
+                    && readRawSample(rows, rowStart, px * 3 + 2) === ((transparency[4] << 8) | transparency[5]);
+                d[out + 3] = transparent ? 0 : 255;
+                break;
+            }
+            case 3: {
+                const index = readSample(rows, rowStart, px);
+                d[out] = palette?.[index * 3] ?? 0;
+                d[out + 1] = palette?.[index * 3 + 1] ?? 0;
+                d[out + 2] = palette?.[index * 3 + 2] ?? 0;
+                d[out + 3] = transparency && index < transparency.length ? transparency[index] : 255;
+                break;
+            }
+            case 4: {
+                const v = readSample(rows, rowStart, px * 2);
+                d[out] = d[out + 1] = d[out + 2] = v;
+                d[out + 3] = readSample(rows, rowStart, px * 2 + 1);
+                break;
+            }
+            case 6:
+                d[out] = readSample(rows, rowStart, px * 4);
+                d[out + 1] = readSample(rows, rowStart, px * 4 + 1);
+                d[out + 2] = readSample(rows, rowStart, px * 4 + 2);
+                d[out + 3] = readSample(rows, rowStart, px * 4 + 3);
+                break;
+        }
+    };
+
+    if (interlace === 0) {
+        const rowBytes = Math.ceil((width * bitsPerPixel) / 8);
+        const rows = unfilter(raw, 0, rowBytes, height, bpp);
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                writePixel(rows, y * rowBytes, x, x, y);
+            }
+        }
+    } else {
+        let offset = 0;
+        for (const [startX, startY, stepX, stepY] of ADAM7_PASSES) {
+            const passWidth = Math.ceil((width - startX) / stepX);
+            const passHeight = Math.ceil((height - startY) / stepY);
+            if (passWidth <= 0 || passHeight <= 0) continue;
+            const rowBytes = Math.ceil((passWidth * bitsPerPixel) / 8);
+            const rows = unfilter(raw, offset, rowBytes, passHeight, bpp);
+            offset += (rowBytes + 1) * passHeight;
+            for (let y = 0; y < passHeight; y++) {
+                for (let x = 0; x < passWidth; x++) {
+                    writePixel(rows, y * rowBytes, x, startX + x * stepX, startY + y * stepY);
+                }
+            }
+        }
+    }
+
+    return image;
+}
+
+// ============================================================================
+// Encoder
+// ============================================================================
+
+function chunk(type: string, data: Uint8Array): Buffer {
+    const buffer = Buffer.alloc(12 + data.length);
+    buffer.writeUInt32BE(data.length, 0);
+    buffer.write(type, 4, "ascii");
+    buffer.set(data, 8);
+    buffer.writeUInt32BE(crc32(buffer.subarray(4, 8 + data.length)), 8 + data.length);
+    return buffer;
+}
+
+export function encodePng(image: RGBAImage): Buffer {
+    const { width, height, data } = image;
+
+    const header = Buffer.alloc(13);
+    header.writeUInt32BE(width, 0);
+    header.writeUInt32BE(height, 4);
+    header[8] = 8;  // Bit depth
+    header[9] = 6;  // RGBA
+    header[10] = 0; // Compression
+    header[11] = 0; // Filter
+    header[12] = 0; // No interlace
+
+    // Sub filter on every row: cheap and compresses map renders well
+    const rowBytes = width * 4;
+    const filtered = Buffer.alloc((rowBytes + 1) * height);
+    for (let y = 0; y < height; y++) {
+        const src = y * rowBytes;
+        const dst = y * (rowBytes + 1);
+        filtered[dst] = 1;
+        for (let x = 0; x < rowBytes; x++) {
+            const left = x >= 4 ? data[src + x - 4] : 0;
+            filtered[dst + 1 + x] = (data[src + x] - left) & 0xff;
+        }
+    }
+
+    return Buffer.concat([
+        PNG_SIGNATURE,
+        chunk("IHDR", header),
+        chunk("IDAT", deflateSync(filtered)),
+        chunk("IEND", new Uint8Array(0)),
+    ]);
+}
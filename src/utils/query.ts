@@ -0,0 +1,175 @@
+/**
+ * Query - Filters for searching database entries
+ *
+ * Filters are combined with AND. Fields are dotted paths (see fieldPaths.ts);
+ * trait and effect matchers look inside the entry's traits/effects lists and
+ * note tag matchers read <tag> and <tag:value> tags from the note field.
+ */
+
+import { z } from "zod";
+import { EffectCode, TraitCode } from "./types.js";
+import { getPath } from "./fieldPaths.js";
+
+const scalarSchema = z.union([z.number(), z.string(), z.boolean()]);
+
+const traitCodeSchema = z.union([
+    z.number().int(),
+    z.enum(Object.keys(TraitCode) as [keyof typeof TraitCode, ...(keyof typeof TraitCode)[]]),
+]);
+
+const effectCodeSchema = z.union([
+    z.number().int(),
+    z.enum(Object.keys(EffectCode) as [keyof typeof EffectCode, ...(keyof typeof EffectCode)[]]),
+]);
+
+export const filterSchema = z.discriminatedUnion("type", [
+    z.object({
+        type: z.literal("compare"),
+        field: z.string().min(1).describe("Dotted field path, e.g. \"price\", \"params.2\", \"damage.elementId\""),
+        op: z.enum(["=", "!=", "<", "<=", ">", ">="]),
+        value: scalarSchema,
+    }),
+    z.object({
+        type: z.literal("in"),
+        field: z.string().min(1).describe("Dotted field path"),
+        values: z.array(scalarSchema).min(1).describe("Matches when the field equals any of these"),
+    }),
+    z.object({
+        type: z.literal("contains"),
+        field: z.string().min(1).describe("Text field (substring match) or array field (element match)"),
+        value: scalarSchema,
+        caseSensitive: z.boolean().default(false),
+    }),
+    z.object({
+        type: z.literal("trait"),
+        code: traitCodeSchema.describe("Trait code or name (e.g. 11 or \"ElementRate\")"),
+        dataId: z.number().int().optional().describe("Only traits with this dataId"),
+        minValue: z.number().optional().describe("Only traits with at least this stored value (rates are fractions)"),
+        maxValue: z.number().optional().describe("Only traits with at most this stored value"),
+    }),
+    z.object({
+        type: z.literal("effect"),
+        code: effectCodeSchema.describe("Effect code or name (e.g. 21 or \"AddState\")"),
+        dataId: z.number().int().optional().describe("Only effects with this dataId"),
+    }),
+    z.object({
+        type: z.literal("noteTag"),
+        tag: z.string().min(1).describe("Tag name, matching <tag> or <tag:value> in the note (case-insensitive)"),
+        value: z.string().optional().describe("Only tags with this value"),
+    }),
+]);
+
+export type QueryFilter = z.infer<typeof filterSchema>;
+
+export const sortSchema = z.object({
+    field: z.string().min(1).describe("Dotted field path to sort by"),
+    order: z.enum(["asc", "desc"]).default("asc"),
+});
+
+export type QuerySort = z.infer<typeof sortSchema>;
+
+/**
+ * Note tags of an entry: <tag> gives "", <tag:value> gives the value
+ */
+export function parseNoteTags(note: string): { tag: string; value: string }[] {
+    const tags: { tag: string; value: string }[] = [];
+    for (const match of note.matchAll(/<([^<>:]+)(?::([^>]*))?>/g)) {
+        tags.push({ tag: match[1].trim(), value: (match[2] ?? "").trim() });
+    }
+    return tags;
+}
+
+function compare(actual: unknown, op: string, expected: z.infer<typeof scalarSchema>): boolean {
+    switch (op) {
+        case "=": return actual === expected;
+        case "!=": return actual !== expected;
+    }
+    // Ordering only between two numbers or two strings
+    if (typeof actual !== typeof expected || (typeof actual !== "number" && typeof actual !== "string")) {
+        return false;
+    }
+    const a = actual as number | string;
+    const b = expected as number | string;
+    switch (op) {
+        case "<": return a < b;
+        case "<=": return a <= b;
+        case ">": return a > b;
+        case ">=": return a >= b;
+        default: return false;
+    }
+}
+
+function listAt(entry: unknown, field: string): { code: number; dataId: number; value?: number }[] {
+    const list = getPath(entry, field);
+    return Array.isArray(list) ? list : [];
+}
+
+export function matchesFilter(entry: unknown, filter: QueryFilter): boolean {
+    switch (filter.type) {
+        case "compare":
+            return compare(getPath(entry, filter.field), filter.op, filter.value);
+        case "in": {
+            const actual = getPath(entry, filter.field);
+            return filter.values.some((value) => value === actual);
+        }
+        case "contains": {
+            const actual = getPath(entry, filter.field);
+            const normalize = (value: unknown) => (!filter.caseSensitive && typeof value === "string" ? value.toLowerCase() : value);
+            const expected = normalize(filter.value);
+            if (typeof actual === "string") {
+                return typeof expected === "string" && (normalize(actual) as string).includes(expected);
+            }
+            return Array.isArray(actual) && actual.some((element) => normalize(element) === expected);
+        }
+        case "trait": {
+            const code = typeof filter.code === "number" ? filter.code : TraitCode[filter.code];
+            return listAt(entry, "traits").some((trait) =>
+                trait.code === code &&
+                (filter.dataId === undefined || trait.dataId === filter.dataId) &&
+                (filter.minValue === undefined || (trait.value ?? 0) >= filter.minValue) &&
+                (filter.maxValue === undefined || (trait.value ?? 0) <= filter.maxValue)
+            );
+        }
+        case "effect": {
+            const code = typeof filter.code === "number" ? filter.code : EffectCode[filter.code];
+            return listAt(entry, "effects").some((effect) =>
+                effect.code === code && (filter.dataId === undefined || effect.dataId === filter.dataId)
+            );
+        }
+        case "noteTag": {
+            const note = getPath(entry, "note");
+            if (typeof note !== "string") return false;
+            const tag = filter.tag.toLowerCase();
+            return parseNoteTags(note).some((t) => t.tag.toLowerCase() === tag && (filter.value === undefined || t.value === filter.value));
+        }
+    }
+}
+
+/**
+ * Order by a field; entries without a value go last in either order
+ */
+export function compareByField(a: unknown, b: unknown, sort: QuerySort): number {
+    const x = getPath(a, sort.field);
+    const y = getPath(b, sort.field);
+    if (x === undefined || x === null) return y === undefined || y === null ? 0 : 1;
+    if (y === undefined || y === null) return -1;
+    const result = typeof x === "number" && typeof y === "number"
+        ? x - y
+        : String(x).localeCompare(String(y));
+    return sort.order === "desc" ? -result : result;
+}
+
+/**
+ * Fields a filter reads, shown by default in query results
+ */
+export function filterFields(filter: QueryFilter): string[] {
+    switch (filter.type) {
+        case "compare":
+        case "in":
+        case "contains":
+            return [filter.field];
+        case "trait": return ["traits"];
+        case "effect": return ["effects"];
+        case "noteTag": return ["note"];
+    }
+}
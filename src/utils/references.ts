@@ -0,0 +1,295 @@
+/**
+ * References - Find what points at a database entry
+ *
+ * Used before deleting an entry to list the data that would be left pointing
+ * at a blank ID: other databases, System.json, map event pages, common events
+ * and troop pages. Scripts and plugin commands are not parsed.
+ */
+
+import type { FileHandler } from "./fileHandler.js";
+import type {
+    RPGActor, RPGClass, RPGItem, RPGSkill, RPGWeapon, RPGArmor, RPGEnemy, RPGState, RPGTroop,
+    RPGSystem, RPGTrait, RPGEffect, RPGEventCommand,
+} from "./types.js";
+import { EffectCode, TraitCode } from "./types.js";
+import { collectEventSources, commandLabel } from "./eventSources.js";
+import { WEAPON_ETYPE, actorTraits, equipSlots } from "./equipment.js";
+
+export type DatabaseKind = "items" | "weapons" | "armors" | "skills" | "states" | "enemies" | "actors" | "classes";
+
+export interface Reference {
+    source: string;     // e.g. "Enemy 3 \"Slime\"", "Map 1 (Town) event 2 \"Shop\" page 1"
+    usage: string;      // e.g. "drop item", "line 4: Change Items"
+}
+
+const traitNames: Record<number, string> = {
+    [TraitCode.StateRate]: "State Rate trait",
+    [TraitCode.StateResist]: "State Resist trait",
+    [TraitCode.AttackState]: "Attack State trait",
+    [TraitCode.AttackSkill]: "Attack Skill trait",
+    [TraitCode.AddSkill]: "Add Skill trait",
+    [TraitCode.SealSkill]: "Seal Skill trait",
+};
+
+const traitCodesByKind: Partial<Record<DatabaseKind, number[]>> = {
+    states: [TraitCode.StateRate, TraitCode.StateResist, TraitCode.AttackState],
+    skills: [TraitCode.AttackSkill, TraitCode.AddSkill, TraitCode.SealSkill],
+};
+
+const effectNames: Record<number, string> = {
+    [EffectCode.AddState]: "Add State effect",
+    [EffectCode.RemoveState]: "Remove State effect",
+    [EffectCode.LearnSkill]: "Learn Skill effect",
+};
+
+const effectCodesByKind: Partial<Record<DatabaseKind, number[]>> = {
+    states: [EffectCode.AddState, EffectCode.RemoveState],
+    skills: [EffectCode.LearnSkill],
+};
+
+// Enemy drop kinds: 1=Item, 2=Weapon, 3=Armor
+const dropKinds: Partial<Record<DatabaseKind, number>> = { items: 1, weapons: 2, armors: 3 };
+
+// Shop goods types: 0=Item, 1=Weapon, 2=Armor
+const goodsTypes: Partial<Record<DatabaseKind, number>> = { items: 0, weapons: 1, armors: 2 };
+
+// Conditional Branch actor subtypes that compare against another database
+const actorBranchSubtypes: Partial<Record<DatabaseKind, number>> = { classes: 2, skills: 3, weapons: 4, armors: 5, states: 6 };
+
+async function readDatabase<T>(fileHandler: FileHandler, filename: string): Promise<(T | null)[]> {
+    const filePath = `data/${filename}`;
+    if (!(await fileHandler.exists(filePath))) return [];
+    return fileHandler.readJson<(T | null)[]>(filePath);
+}
+
+/**
+ * Equip slots of an actor that hold the kind of equipment being deleted
+ */
+function equipSlotsOfKind(
+    kind: DatabaseKind, actor: RPGActor, classes: (RPGClass | null)[], system: RPGSystem | undefined,
+): (slot: number) => boolean {
+    const slots = equipSlots(actorTraits(actor, classes[actor.classId]), system);
+    const isWeaponSlot = (slot: number) => (slots[slot] ?? slot + 1) === WEAPON_ETYPE;
+    return kind === "weapons" ? isWeaponSlot : (slot) => !isWeaponSlot(slot);
+}
+
+/**
+ * IDs of the given database referenced by one command
+ */
+export function commandIds(kind: DatabaseKind, command: RPGEventCommand): number[] {
+    const p = command.parameters as number[];
+    const code = command.code;
+
+    // Conditional Branch: 4=Actor, 5=Enemy, 8=Item, 9=Weapon, 10=Armor
+    if (code === 111) {
+        if (p[0] === 4) {
+            if (kind === "actors") return [p[1]];
+            return actorBranchSubtypes[kind] === p[2] ? [p[3]] : [];
+        }
+        if (p[0] === 5) return kind === "states" && p[2] === 1 ? [p[3]] : [];
+        const branchTypes: Partial<Record<DatabaseKind, number>> = { items: 8, weapons: 9, armors: 10 };
+        return branchTypes[kind] === p[0] ? [p[1]] : [];
+    }
+    if (code === 302 || code === 605) {
+        return goodsTypes[kind] === p[0] ? [p[1]] : [];
+    }
+
+    switch (kind) {
+        case "items":
+            return code === 126 ? [p[0]] : [];
+        case "weapons":
+            if (code === 127) return [p[0]];
+            return code === 319 && p[1] === 1 ? [p[2]] : [];
+        case "armors":
+            if (code === 128) return [p[0]];
+            return code === 319 && p[1] !== 1 ? [p[2]] : [];
+        case "skills":
+            if (code === 318) return [p[3]];
+            return code === 339 ? [p[2]] : [];
+        case "states":
+            if (code === 313) return [p[3]];
+            return code === 333 ? [p[2]] : [];
+        case "enemies":
+            return code === 336 ? [p[1]] : [];
+        case "classes":
+            return code === 321 ? [p[1]] : [];
+        case "actors":
+            // Actor designation 0 = fixed actor (ID 0 = entire party)
+            if ([311, 312, 313, 314, 315, 316, 317, 318, 326].includes(code)) return p[0] === 0 ? [p[1]] : [];
+            if ([129, 303, 319, 320, 321, 322, 324, 325].includes(code)) return [p[0]];
+            // Force Action subject type 1 = actor
+            return code === 339 && p[0] === 1 ? [p[1]] : [];
+    }
+}
+
+function scanTraits(
+    kind: DatabaseKind, id: number, source: string, traits: RPGTrait[] | undefined, references: Reference[],
+): void {
+    const codes = traitCodesByKind[kind];
+    if (!codes || !traits) return;
+    for (const trait of traits) {
+        if (codes.includes(trait.code) && trait.dataId === id) {
+            references.push({ source, usage: traitNames[trait.code] });
+        }
+    }
+}
+
+function scanEffects(
+    kind: DatabaseKind, id: number, source: string, effects: RPGEffect[], references: Reference[],
+): void {
+    const codes = effectCodesByKind[kind];
+    if (!codes) return;
+    for (const effect of effects) {
+        if (codes.includes(effect.code) && effect.dataId === id) {
+            references.push({ source, usage: effectNames[effect.code] });
+        }
+    }
+}
+
+/**
+ * Find every reference to an entry of a database
+ */
+export async function findReferences(fileHandler: FileHandler, kind: DatabaseKind, id: number): Promise<Reference[]> {
+    const references: Reference[] = [];
+    const isSelf = (database: DatabaseKind, entryId: number) => database === kind && entryId === id;
+
+    const [actors, classes, items, skills, weapons, armors, enemies, states, troops] = await Promise.all([
+        readDatabase<RPGActor>(fileHandler, "Actors.json"),
+        readDatabase<RPGClass>(fileHandler, "Classes.json"),
+        readDatabase<RPGItem>(fileHandler, "Items.json"),
+        readDatabase<RPGSkill>(fileHandler, "Skills.json"),
+        readDatabase<RPGWeapon>(fileHandler, "Weapons.json"),
+        readDatabase<RPGArmor>(fileHandler, "Armors.json"),
+        readDatabase<RPGEnemy>(fileHandler, "Enemies.json"),
+        readDatabase<RPGState>(fileHandler, "States.json"),
+        readDatabase<RPGTroop>(fileHandler, "Troops.json"),
+    ]);
+    const system = (await fileHandler.exists("data/System.json"))
+        ? await fileHandler.readJson<RPGSystem>("data/System.json")
+        : undefined;
+
+    for (const actor of actors) {
+        if (!actor) continue;
+        const source = `Actor ${actor.id} "${actor.name}"`;
+        if (kind === "classes" && actor.classId === id) {
+            references.push({ source, usage: "class" });
+        }
+        if (kind === "weapons" || kind === "armors") {
+            const inSlot = equipSlotsOfKind(kind, actor, classes, system);
+            actor.equips.forEach((equipId, slot) => {
+                if (equipId === id && inSlot(slot)) {
+                    references.push({ source, usage: `initial equipment (slot ${slot + 1})` });
+                }
+            });
+        }
+        scanTraits(kind, id, source, actor.traits, references);
+    }
+
+    for (const cls of classes) {
+        if (!cls) continue;
+        const source = `Class ${cls.id} "${cls.name}"`;
+        if (kind === "skills") {
+            for (const learning of cls.learnings) {
+                if (learning.skillId === id) {
+                    references.push({ source, usage: `learned at level ${learning.level}` });
+                }
+            }
+        }
+        scanTraits(kind, id, source, cls.traits, references);
+    }
+
+    for (const [label, database, entries] of [["Item", "items", items], ["Skill", "skills", skills]] as const) {
+        for (const entry of entries) {
+            if (!entry || isSelf(database, entry.id)) continue;
+            scanEffects(kind, id, `${label} ${entry.id} "${entry.name}"`, entry.effects, references);
+        }
+    }
+
+    for (const [label, database, entries] of [
+        ["Weapon", "weapons", weapons], ["Armor", "armors", armors], ["State", "states", states],
+    ] as const) {
+        for (const entry of entries) {
+            if (!entry || isSelf(database, entry.id)) continue;
+            scanTraits(kind, id, `${label} ${entry.id} "${entry.name}"`, entry.traits, references);
+        }
+    }
+
+    for (const enemy of enemies) {
+        if (!enemy || isSelf("enemies", enemy.id)) continue;
+        const source = `Enemy ${enemy.id} "${enemy.name}"`;
+        const dropKind = dropKinds[kind];
+        for (const drop of enemy.dropItems) {
+            if (dropKind !== undefined && drop.kind === dropKind && drop.dataId === id) {
+                references.push({ source, usage: "drop item" });
+            }
+        }
+        for (const action of enemy.actions) {
+            if (kind === "skills" && action.skillId === id) {
+                references.push({ source, usage: "action pattern" });
+            }
+            // Action condition type 4 = State
+            if (kind === "states" && action.conditionType === 4 && action.conditionParam1 === id) {
+                references.push({ source, usage: "action condition" });
+            }
+        }
+        scanTraits(kind, id, source, enemy.traits, references);
+    }
+
+    if (kind === "enemies") {
+        for (const troop of troops) {
+            if (!troop) continue;
+            const count = troop.members.filter((m) => m.enemyId === id).length;
+            if (count > 0) {
+                references.push({ source: `Troop ${troop.id} "${troop.name}"`, usage: `member (x${count})` });
+            }
+        }
+    }
+
+    if ((kind === "actors" || kind === "weapons" || kind === "armors") && system) {
+        if (kind === "actors" && system.partyMembers.includes(id)) {
+            references.push({ source: "System", usage: "starting party" });
+        }
+        for (const battler of system.testBattlers ?? []) {
+            if (kind === "actors" && battler.actorId === id) {
+                references.push({ source: "System", usage: "test battler" });
+            }
+            const actor = actors[battler.actorId];
+            if ((kind === "weapons" || kind === "armors") && actor) {
+                const inSlot = equipSlotsOfKind(kind, actor, classes, system);
+                if (battler.equips.some((equipId, slot) => equipId === id && inSlot(slot))) {
+                    references.push({ source: "System", usage: `test battler equipment (actor ${battler.actorId})` });
+                }
+            }
+        }
+    }
+
+    for (const { source, list, mapPage, troopPage } of await collectEventSources(fileHandler)) {
+        if (kind === "items" && mapPage?.conditions.itemValid && mapPage.conditions.itemId === id) {
+            references.push({ source, usage: "page condition (item)" });
+        }
+        if (kind === "actors" && mapPage?.conditions.actorValid && mapPage.conditions.actorId === id) {
+            references.push({ source, usage: "page condition (actor)" });
+        }
+        if (kind === "actors" && troopPage?.conditions.actorValid && troopPage.conditions.actorId === id) {
+            references.push({ source, usage: "page condition (actor HP)" });
+        }
+        list.forEach((command, index) => {
+            if (commandIds(kind, command).includes(id)) {
+                references.push({ source, usage: commandLabel(command, index) });
+            }
+        });
+    }
+
+    return references;
+}
+
+/**
+ * One line per reference, capped so large projects stay readable
+ */
+export function formatReferences(references: Reference[], limit = 20): string {
+    const lines = references.slice(0, limit).map((r) => `- ${r.source}: ${r.usage}`);
+    if (references.length > limit) {
+        lines.push(`- ... and ${references.length - limit} more`);
+    }
+    return lines.join("\n");
+}
@@ -0,0 +1,541 @@
+/**
+ * Schemas - zod schemas for every MZ data file
+ *
+ * Mirror the interfaces in types.ts with the value ranges the editor allows.
+ * Objects are not strict: fields added by plugins or newer editor versions
+ * pass validation and are kept.
+ */
+
+import { z } from "zod";
+import { EffectCode, TraitCode } from "./types.js";
+
+const int = (min: number, max: number) => z.number().int().min(min).max(max);
+
+const idSchema = z.number().int().min(1);
+const refSchema = z.number().int().min(0);  // ID reference, 0 = none
+const iconIndexSchema = z.number().int().min(0);
+const paramsSchema = z.array(int(-9999, 999999)).length(8);
+
+const effectCodes: number[] = Object.values(EffectCode);
+const traitCodes: number[] = Object.values(TraitCode);
+
+export const rpgAudioFileSchema = z.object({
+    name: z.string(),
+    pan: int(-100, 100),
+    pitch: int(50, 150),
+    volume: int(0, 100),
+});
+
+export const rpgEventCommandSchema = z.object({
+    code: z.number().int().min(0),
+    indent: z.number().int().min(0),
+    parameters: z.array(z.unknown()),
+});
+
+export const rpgTraitSchema = z.object({
+    code: z.number().int().refine((code) => traitCodes.includes(code), "Unknown trait code"),
+    dataId: z.number().int().min(0),
+    value: z.number(),
+});
+
+export const rpgEffectSchema = z.object({
+    code: z.number().int().refine((code) => effectCodes.includes(code), "Unknown effect code"),
+    dataId: z.number().int().min(0),
+    value1: z.number(),
+    value2: z.number(),
+});
+
+export const rpgDamageSchema = z.object({
+    type: int(0, 6),
+    elementId: z.number().int().min(-1),
+    formula: z.string(),
+    variance: int(0, 100),
+    critical: z.boolean(),
+});
+
+// Fields shared by items and skills
+const usableItemShape = {
+    id: idSchema,
+    name: z.string(),
+    description: z.string(),
+    iconIndex: iconIndexSchema,
+    scope: int(0, 14),
+    occasion: int(0, 3),
+    animationId: z.number().int().min(-1),
+    damage: rpgDamageSchema,
+    effects: z.array(rpgEffectSchema),
+    hitType: int(0, 2),
+    repeats: int(1, 9),
+    speed: int(-2000, 2000),
+    successRate: int(0, 100),
+    tpGain: int(0, 100),
+    note: z.string(),
+};
+
+export const rpgItemSchema = z.object({
+    ...usableItemShape,
+    price: int(0, 9999999),
+    itypeId: int(1, 4),
+    consumable: z.boolean(),
+});
+
+export const rpgSkillSchema = z.object({
+    ...usableItemShape,
+    stypeId: refSchema,
+    mpCost: int(0, 9999),
+    tpCost: int(0, 100),
+    requiredWtypeId1: refSchema,
+    requiredWtypeId2: refSchema,
+    message1: z.string(),
+    message2: z.string(),
+    messageType: int(1, 3).optional(),
+});
+
+export const rpgWeaponSchema = z.object({
+    id: idSchema,
+    name: z.string(),
+    description: z.string(),
+    iconIndex: iconIndexSchema,
+    price: int(0, 9999999),
+    wtypeId: refSchema,
+    etypeId: idSchema,
+    params: paramsSchema,
+    traits: z.array(rpgTraitSchema),
+    animationId: z.number().int().min(0),
+    note: z.string(),
+});
+
+export const rpgArmorSchema = z.object({
+    id: idSchema,
+    name: z.string(),
+    description: z.string(),
+    iconIndex: iconIndexSchema,
+    price: int(0, 9999999),
+    atypeId: refSchema,
+    etypeId: idSchema,
+    params: paramsSchema,
+    traits: z.array(rpgTraitSchema),
+    note: z.string(),
+});
+
+export const rpgActorSchema = z.object({
+    id: idSchema,
+    name: z.string(),
+    nickname: z.string(),
+    classId: idSchema,
+    initialLevel: int(1, 99),
+    maxLevel: int(1, 99),
+    characterName: z.string(),
+    characterIndex: int(0, 7),
+    faceName: z.string(),
+    faceIndex: int(0, 7),
+    battlerName: z.string(),
+    equips: z.array(refSchema),
+    profile: z.string(),
+    traits: z.array(rpgTraitSchema),
+    note: z.string(),
+}).refine((actor) => actor.initialLevel <= actor.maxLevel, { message: "initialLevel is above maxLevel", path: ["initialLevel"] });
+
+export const rpgClassSchema = z.object({
+    id: idSchema,
+    name: z.string(),
+    expParams: z.tuple([int(10, 50), int(0, 40), int(10, 50), int(10, 50)]),
+    params: z.array(z.array(int(0, 9999)).length(100)).length(8),
+    learnings: z.array(z.object({
+        level: int(1, 99),
+        skillId: idSchema,
+        note: z.string(),
+    })),
+    traits: z.array(rpgTraitSchema),
+    note: z.string(),
+});
+
+export const rpgEnemySchema = z.object({
+    id: idSchema,
+    name: z.string(),
+    battlerName: z.string(),
+    battlerHue: int(0, 360),
+    params: paramsSchema,
+    exp: int(0, 9999999),
+    gold: int(0, 9999999),
+    dropItems: z.array(z.object({
+        kind: int(0, 3),
+        dataId: z.number().int().min(0),
+        denominator: int(1, 1000),
+    })).max(3),
+    actions: z.array(z.object({
+        conditionParam1: z.number(),
+        conditionParam2: z.number(),
+        conditionType: int(0, 6),
+        rating: int(1, 9),
+        skillId: idSchema,
+    })),
+    traits: z.array(rpgTraitSchema),
+    note: z.string(),
+});
+
+export const rpgStateSchema = z.object({
+    id: idSchema,
+    name: z.string(),
+    iconIndex: iconIndexSchema,
+    restriction: int(0, 4),
+    priority: int(0, 100),
+    motion: int(0, 3),
+    overlay: int(0, 10),
+    removeAtBattleEnd: z.boolean(),
+    removeByRestriction: z.boolean(),
+    autoRemovalTiming: int(0, 2),
+    minTurns: int(0, 9999),
+    maxTurns: int(0, 9999),
+    removeByDamage: z.boolean(),
+    chanceByDamage: int(0, 100),
+    removeByWalking: z.boolean(),
+    stepsToRemove: int(0, 9999),
+    message1: z.string(),
+    message2: z.string(),
+    message3: z.string(),
+    message4: z.string(),
+    messageType: int(1, 3).optional(),
+    traits: z.array(rpgTraitSchema),
+    note: z.string(),
+}).refine((state) => state.minTurns <= state.maxTurns, { message: "minTurns is above maxTurns", path: ["minTurns"] });
+
+export const rpgTroopSchema = z.object({
+    id: idSchema,
+    name: z.string(),
+    members: z.array(z.object({
+        enemyId: idSchema,
+        x: z.number().int(),
+        y: z.number().int(),
+        hidden: z.boolean(),
+    })).max(8),
+    pages: z.array(z.object({
+        conditions: z.object({
+            actorHp: int(0, 100),
+            actorId: z.number().int().min(0),
+            actorValid: z.boolean(),
+            enemyHp: int(0, 100),
+            enemyIndex: int(0, 7),
+            enemyValid: z.boolean(),
+            switchId: z.number().int().min(0),
+            switchValid: z.boolean(),
+            turnA: z.number().int().min(0),
+            turnB: z.number().int().min(0),
+            turnEnding: z.boolean(),
+            turnValid: z.boolean(),
+        }),
+        list: z.array(rpgEventCommandSchema),
+        span: int(0, 2),
+    })).min(1),
+});
+
+const flashTimingSchema = z.object({
+    frame: z.number().int().min(0),
+    duration: int(1, 200),
+    color: z.array(int(0, 255)).length(4),
+});
+
+export const rpgAnimationSchema = z.object({
+    id: idSchema,
+    name: z.string(),
+    displayType: int(0, 2),
+    effectName: z.string(),
+    alignBottom: z.boolean(),
+    offsetX: z.number().int(),
+    offsetY: z.number().int(),
+    rotation: z.object({ x: z.number(), y: z.number(), z: z.number() }),
+    scale: int(1, 1000),
+    speed: int(1, 1000),
+    flashTimings: z.array(flashTimingSchema),
+    screenFlashTimings: z.array(flashTimingSchema),
+    soundTimings: z.array(z.object({
+        frame: z.number().int().min(0),
+        se: rpgAudioFileSchema,
+    })),
+});
+
+export const rpgTilesetSchema = z.object({
+    id: idSchema,
+    name: z.string(),
+    mode: int(0, 1),
+    tilesetNames: z.array(z.string()).length(9),
+    flags: z.array(int(0, 0xffff)),
+    note: z.string(),
+});
+
+export const rpgCommonEventSchema = z.object({
+    id: idSchema,
+    name: z.string(),
+    trigger: int(0, 2),
+    switchId: z.number().int().min(0),
+    list: z.array(rpgEventCommandSchema),
+});
+
+export const rpgMapInfoSchema = z.object({
+    id: idSchema,
+    name: z.string(),
+    parentId: z.number().int().min(0),
+    expanded: z.boolean(),
+    scrollX: z.number(),
+    scrollY: z.number(),
+    order: z.number().int().min(0),
+});
+
+const moveRouteSchema = z.object({
+    list: z.array(z.object({
+        code: int(0, 45),
+        parameters: z.array(z.unknown()),
+    })),
+    repeat: z.boolean(),
+    skippable: z.boolean(),
+    wait: z.boolean(),
+});
+
+export const rpgEventPageSchema = z.object({
+    conditions: z.object({
+        actorId: z.number().int().min(0),
+        actorValid: z.boolean(),
+        itemId: z.number().int().min(0),
+        itemValid: z.boolean(),
+        selfSwitchCh: z.enum(["A", "B", "C", "D"]),
+        selfSwitchValid: z.boolean(),
+        switch1Id: z.number().int().min(0),
+        switch1Valid: z.boolean(),
+        switch2Id: z.number().int().min(0),
+        switch2Valid: z.boolean(),
+        variableId: z.number().int().min(0),
+        variableValid: z.boolean(),
+        variableValue: z.number().int(),
+    }),
+    directionFix: z.boolean(),
+    image: z.object({
+        tileId: z.number().int().min(0),
+        characterName: z.string(),
+        direction: z.union([z.literal(2), z.literal(4), z.literal(6), z.literal(8)]),
+        pattern: int(0, 2),
+        characterIndex: int(0, 7),
+    }),
+    list: z.array(rpgEventCommandSchema).min(1),
+    moveFrequency: int(1, 5),
+    moveRoute: moveRouteSchema,
+    moveSpeed: int(1, 6),
+    moveType: int(0, 3),
+    priorityType: int(0, 2),
+    stepAnime: z.boolean(),
+    through: z.boolean(),
+    trigger: int(0, 4),
+    walkAnime: z.boolean(),
+});
+
+export const rpgEventSchema = z.object({
+    id: idSchema,
+    name: z.string(),
+    x: z.number().int().min(0),
+    y: z.number().int().min(0),
+    pages: z.array(rpgEventPageSchema).min(1),
+    note: z.string(),
+});
+
+export const rpgMapSchema = z.object({
+    displayName: z.string(),
+    tilesetId: idSchema,
+    width: int(1, 256),
+    height: int(1, 256),
+    scrollType: int(0, 3),
+    specifyBattleback: z.boolean(),
+    battleback1Name: z.string(),
+    battleback2Name: z.string(),
+    autoplayBgm: z.boolean(),
+    bgm: rpgAudioFileSchema,
+    autoplayBgs: z.boolean(),
+    bgs: rpgAudioFileSchema,
+    disableDashing: z.boolean(),
+    encounterList: z.array(z.object({
+        regionSet: z.array(int(1, 255)),
+        troopId: idSchema,
+        weight: int(1, 100),
+    })),
+    encounterStep: int(1, 999),
+    parallaxName: z.string(),
+    parallaxLoopX: z.boolean(),
+    parallaxLoopY: z.boolean(),
+    parallaxSx: z.number().int(),
+    parallaxSy: z.number().int(),
+    parallaxShow: z.boolean(),
+    data: z.array(z.number().int().min(0)),
+    events: z.array(rpgEventSchema.nullable()),
+    note: z.string(),
+}).superRefine((map, ctx) => {
+    // Six layers: four tile layers, shadows and regions
+    if (map.data.length !== map.width * map.height * 6) {
+        ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ["data"],
+            message: `Expected ${map.width * map.height * 6} tiles (width * height * 6), found ${map.data.length}`,
+        });
+    }
+    map.events.forEach((event, index) => {
+        if (event && event.id !== index) {
+            ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["events", index, "id"], message: `Event at index ${index} has id ${event.id}` });
+        }
+        if (event && (event.x >= map.width || event.y >= map.height)) {
+            ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["events", index], message: `Event is outside the ${map.width}x${map.height} map` });
+        }
+    });
+});
+
+const vehicleSchema = z.object({
+    bgm: rpgAudioFileSchema,
+    characterIndex: int(0, 7),
+    characterName: z.string(),
+    startMapId: z.number().int().min(0),
+    startX: z.number().int().min(0),
+    startY: z.number().int().min(0),
+});
+
+// Type name lists keep an empty string at index 0
+const typeNamesSchema = z.array(z.string()).min(1);
+
+export const rpgSystemSchema = z.object({
+    advanced: z.object({
+        gameId: z.number().int(),
+        screenWidth: int(0, 4000),
+        screenHeight: int(0, 4000),
+        uiAreaWidth: int(0, 4000),
+        uiAreaHeight: int(0, 4000),
+        numberFontFilename: z.string(),
+        fallbackFonts: z.string(),
+        fontSize: int(1, 108),
+        mainFontFilename: z.string(),
+        windowOpacity: int(0, 255),
+        screenScale: z.number().positive(),
+        picturesUpperLimit: int(1, 999),
+    }),
+    airship: vehicleSchema,
+    armorTypes: typeNamesSchema,
+    attackMotions: z.array(z.object({ type: int(0, 2), weaponImageId: z.number().int().min(0) })),
+    battleBgm: rpgAudioFileSchema,
+    battleback1Name: z.string(),
+    battleback2Name: z.string(),
+    battlerHue: int(0, 360),
+    battlerName: z.string(),
+    battleSystem: int(0, 2),
+    boat: vehicleSchema,
+    currencyUnit: z.string(),
+    defeatMe: rpgAudioFileSchema,
+    editMapId: z.number().int().min(0),
+    elements: typeNamesSchema,
+    equipTypes: typeNamesSchema,
+    gameTitle: z.string(),
+    gameoverMe: rpgAudioFileSchema,
+    itemCategories: z.array(z.boolean()).length(4),
+    locale: z.string(),
+    magicSkills: z.array(z.number().int().min(1)),
+    menuCommands: z.array(z.boolean()).length(6),
+    optAutosave: z.boolean(),
+    optDisplayTp: z.boolean(),
+    optDrawTitle: z.boolean(),
+    optExtraExp: z.boolean(),
+    optFloorDeath: z.boolean(),
+    optFollowers: z.boolean(),
+    optKeyItemsNumber: z.boolean(),
+    optMessageSkip: z.boolean(),
+    optSideView: z.boolean(),
+    optSlipDeath: z.boolean(),
+    optSplashScreen: z.boolean(),
+    optTransparent: z.boolean(),
+    partyMembers: z.array(idSchema),
+    ship: vehicleSchema,
+    skillTypes: typeNamesSchema,
+    sounds: z.array(rpgAudioFileSchema).length(24),
+    startMapId: z.number().int().min(0),
+    startX: z.number().int().min(0),
+    startY: z.number().int().min(0),
+    switches: typeNamesSchema,
+    terms: z.object({
+        basic: z.array(z.string()).length(10),
+        commands: z.array(z.string().nullable()),
+        params: z.array(z.string()).length(10),
+        messages: z.record(z.string()),
+    }),
+    testBattlers: z.array(z.object({
+        actorId: idSchema,
+        equips: z.array(z.number().int().min(0)),
+        level: int(1, 99),
+    })),
+    testTroopId: z.number().int().min(0),
+    tileSize: z.number().int().positive(),
+    title1Name: z.string(),
+    title2Name: z.string(),
+    titleBgm: rpgAudioFileSchema,
+    titleCommandWindow: z.object({ background: int(0, 2), offsetX: z.number().int(), offsetY: z.number().int() }),
+    variables: typeNamesSchema,
+    versionId: z.number().int(),
+    victoryMe: rpgAudioFileSchema,
+    weaponTypes: typeNamesSchema,
+    windowTone: z.tuple([int(-255, 255), int(-255, 255), int(-255, 255), int(0, 255)]),
+});
+
+/**
+ * Entry schema of each database file
+ */
+export const databaseEntrySchemas: Record<string, z.ZodTypeAny> = {
+    "Items.json": rpgItemSchema,
+    "Weapons.json": rpgWeaponSchema,
+    "Armors.json": rpgArmorSchema,
+    "Skills.json": rpgSkillSchema,
+    "Actors.json": rpgActorSchema,
+    "Classes.json": rpgClassSchema,
+    "Enemies.json": rpgEnemySchema,
+    "States.json": rpgStateSchema,
+    "Animations.json": rpgAnimationSchema,
+    "Tilesets.json": rpgTilesetSchema,
+    "Troops.json": rpgTroopSchema,
+    "CommonEvents.json": rpgCommonEventSchema,
+};
+
+/**
+ * One line per problem, e.g. "damage.variance: Number must be less than or equal to 100"
+ */
+export function formatIssues(error: z.ZodError): string[] {
+    return error.issues.map((issue) => `${issue.path.length > 0 ? issue.path.join(".") : "(entry)"}: ${issue.message}`);
+}
+
+function unwrap(schema: z.ZodTypeAny): z.ZodTypeAny {
+    if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) return unwrap(schema.unwrap());
+    if (schema instanceof z.ZodDefault) return unwrap(schema.removeDefault());
+    if (schema instanceof z.ZodEffects) return unwrap(schema.innerType());
+    return schema;
+}
+
+/**
+ * Paths of fields present in after but neither in before nor in the schema
+ *
+ * Catches misspelled field names in updates while keeping unknown fields
+ * that were already there.
+ */
+export function unknownAddedFields(schema: z.ZodTypeAny, before: unknown, after: unknown, path = ""): string[] {
+    const inner = unwrap(schema);
+    const result: string[] = [];
+    const isObject = (value: unknown): value is Record<string, unknown> =>
+        value !== null && typeof value === "object" && !Array.isArray(value);
+
+    if (inner instanceof z.ZodObject && isObject(after)) {
+        const shape = inner.shape as Record<string, z.ZodTypeAny>;
+        const old = isObject(before) ? before : {};
+        for (const key of Object.keys(after)) {
+            const keyPath = path ? `${path}.${key}` : key;
+            if (shape[key]) {
+                result.push(...unknownAddedFields(shape[key], old[key], after[key], keyPath));
+            } else if (!(key in old)) {
+                result.push(keyPath);
+            }
+        }
+    } else if (inner instanceof z.ZodArray && Array.isArray(after)) {
+        after.forEach((element, index) => {
+            const old = Array.isArray(before) ? before[index] : undefined;
+            result.push(...unknownAddedFields(inner.element, old, element, `${path}.${index}`));
+        });
+    }
+    return result;
+}
@@ -0,0 +1,158 @@
+/**
+ * Switch Usage - Find where switches and variables are referenced
+ *
+ * Scans page conditions and event commands of every map event, common event
+ * and troop page. Only parameters that hold a switch or variable ID count;
+ * scripts and plugin commands are not parsed.
+ */
+
+import type { FileHandler } from "./fileHandler.js";
+import type { RPGEventCommand, RPGEventPage } from "./types.js";
+import { collectEventSources, commandLabel } from "./eventSources.js";
+
+export type SwitchKind = "switch" | "variable";
+
+export interface UsageReference {
+    id: number;
+    source: string;     // e.g. "Map 3 (Town) event 5 \"Door\" page 2"
+    usage: string;      // e.g. "page condition", "line 4: Control Switches"
+}
+
+// Move route command codes that turn a switch on or off
+const ROUTE_SWITCH_ON = 27;
+const ROUTE_SWITCH_OFF = 28;
+
+function range(start: number, end: number): number[] {
+    const ids: number[] = [];
+    for (let id = Math.min(start, end); id <= Math.max(start, end); id++) {
+        ids.push(id);
+    }
+    return ids;
+}
+
+/**
+ * Switch IDs referenced by one command
+ */
+export function commandSwitches(command: RPGEventCommand): number[] {
+    const p = command.parameters as number[];
+    switch (command.code) {
+        case 111:
+            return p[0] === 0 ? [p[1]] : [];
+        case 121:
+            return range(p[0], p[1]);
+        case 205: {
+            const route = command.parameters[1] as RPGEventPage["moveRoute"] | undefined;
+            return (route?.list ?? [])
+                .filter((c) => c.code === ROUTE_SWITCH_ON || c.code === ROUTE_SWITCH_OFF)
+                .map((c) => c.parameters[0] as number);
+        }
+        default:
+            return [];
+    }
+}
+
+/**
+ * Variable IDs referenced by one command
+ */
+export function commandVariables(command: RPGEventCommand): number[] {
+    const p = command.parameters as number[];
+    // Actor designation 1 = actor ID from a variable; operand type 1 = value from a variable
+    const actorTarget = (designationIndex: number) => (p[designationIndex] === 1 ? [p[designationIndex + 1]] : []);
+    const operand = (typeIndex: number) => (p[typeIndex] === 1 ? [p[typeIndex + 1]] : []);
+
+    switch (command.code) {
+        case 103:
+        case 104:
+            return [p[0]];
+        case 111:
+            if (p[0] !== 1) return [];
+            return p[2] === 1 ? [p[1], p[3]] : [p[1]];
+        case 122:
+            return [...range(p[0], p[1]), ...(p[3] === 1 ? [p[4]] : [])];
+        case 125:
+            return operand(1);
+        case 126:
+        case 127:
+        case 128:
+            return operand(2);
+        case 201:
+            return p[0] === 1 ? [p[1], p[2], p[3]] : [];
+        case 202:
+            return p[1] === 1 ? [p[2], p[3], p[4]] : [];
+        case 203:
+            return p[1] === 1 ? [p[2], p[3]] : [];
+        case 231:
+        case 232:
+            return p[3] === 1 ? [p[4], p[5]] : [];
+        case 285:
+            return [p[0], ...(p[2] === 1 ? [p[3], p[4]] : [])];
+        case 301:
+            return p[0] === 1 ? [p[1]] : [];
+        case 311:
+        case 312:
+        case 315:
+        case 316:
+        case 326:
+            return [...actorTarget(0), ...operand(3)];
+        case 313:
+        case 314:
+        case 318:
+            return actorTarget(0);
+        case 317:
+            return [...actorTarget(0), ...operand(4)];
+        default:
+            return [];
+    }
+}
+
+function scanCommands(list: RPGEventCommand[], kind: SwitchKind, source: string, references: UsageReference[]): void {
+    list.forEach((command, index) => {
+        const ids = kind === "switch" ? commandSwitches(command) : commandVariables(command);
+        for (const id of new Set(ids)) {
+            if (typeof id !== "number" || id <= 0) continue;
+            references.push({ id, source, usage: commandLabel(command, index) });
+        }
+    });
+}
+
+function scanEventPage(page: RPGEventPage, kind: SwitchKind, source: string, references: UsageReference[]): void {
+    const c = page.conditions;
+    if (kind === "switch") {
+        if (c.switch1Valid) references.push({ id: c.switch1Id, source, usage: "page condition (switch 1)" });
+        if (c.switch2Valid) references.push({ id: c.switch2Id, source, usage: "page condition (switch 2)" });
+        // Autonomous movement type 3 = Custom
+        if (page.moveType === 3) {
+            for (const routeCommand of page.moveRoute.list) {
+                if (routeCommand.code === ROUTE_SWITCH_ON || routeCommand.code === ROUTE_SWITCH_OFF) {
+                    references.push({ id: routeCommand.parameters[0] as number, source, usage: "custom move route" });
+                }
+            }
+        }
+    } else if (c.variableValid) {
+        references.push({ id: c.variableId, source, usage: "page condition (variable)" });
+    }
+    scanCommands(page.list, kind, source, references);
+}
+
+/**
+ * Collect every reference to switches or variables in the project
+ */
+export async function collectUsage(fileHandler: FileHandler, kind: SwitchKind): Promise<UsageReference[]> {
+    const references: UsageReference[] = [];
+
+    for (const { source, list, mapPage, commonEvent, troopPage } of await collectEventSources(fileHandler)) {
+        if (mapPage) {
+            scanEventPage(mapPage, kind, source, references);
+            continue;
+        }
+        if (kind === "switch" && commonEvent && commonEvent.trigger > 0) {
+            references.push({ id: commonEvent.switchId, source, usage: "trigger condition" });
+        }
+        if (kind === "switch" && troopPage?.conditions.switchValid) {
+            references.push({ id: troopPage.conditions.switchId, source, usage: "page condition" });
+        }
+        scanCommands(list, kind, source, references);
+    }
+
+    return references;
+}
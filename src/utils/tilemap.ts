@@ -0,0 +1,551 @@
+/**
+ * Tilemap - Tile ID ranges and layer access for RPGMap.data
+ *
+ * Map data is stored as 6 layers of width * height cells:
+ * 0-1 = A tiles (ground / ground decoration), 2-3 = B-E tiles (lower / upper),
+ * 4 = shadow bits, 5 = region ID. Index = (layer * height + y) * width + x.
+ *
+ * Autotiles (A1-A4) store kind * 48 + shape; the shape is recomputed from the
+ * neighbouring cells whenever tiles are painted.
+ */
+
+import { z } from "zod";
+import type { RPGMap } from "./types.js";
+
+// ============================================================================
+// Tile ID Ranges (same values as the engine's Tilemap.TILE_ID_*)
+// ============================================================================
+
+export const TileId = {
+    B: 0,
+    C: 256,
+    D: 512,
+    E: 768,
+    A5: 1536,
+    A1: 2048,
+    A2: 2816,
+    A3: 4352,
+    A4: 5888,
+    Max: 8192,
+} as const;
+
+export const Layer = {
+    Ground: 0,
+    GroundDecoration: 1,
+    Lower: 2,
+    Upper: 3,
+    Shadow: 4,
+    Region: 5,
+} as const;
+
+export type TileSheet = "A1" | "A2" | "A3" | "A4" | "A5" | "B" | "C" | "D" | "E";
+
+// Number of tiles (or autotile kinds for A1-A4) each sheet holds
+export const sheetSizes: Record<TileSheet, number> = {
+    A1: 16, A2: 32, A3: 32, A4: 48, A5: 128, B: 256, C: 256, D: 256, E: 256,
+};
+
+// Index of each sheet's image in RPGTileset.tilesetNames
+export const sheetSlots: Record<TileSheet, number> = {
+    A1: 0, A2: 1, A3: 2, A4: 3, A5: 4, B: 5, C: 6, D: 7, E: 8,
+};
+
+export const tileSchema = z.union([
+    z.number().int().min(0).max(8191).describe("Raw tile ID (or shadow bits / region ID on layers 4-5)"),
+    z.object({
+        sheet: z.enum(["A1", "A2", "A3", "A4", "A5", "B", "C", "D", "E"]).describe("Tileset sheet"),
+        index: z.number().int().min(0).describe("Tile index in the sheet, left to right then top to bottom (autotile kind for A1-A4)"),
+    }).describe("Tile by sheet position"),
+]);
+
+export type TileInput = z.infer<typeof tileSchema>;
+
+// ============================================================================
+// Tile ID Helpers
+// ============================================================================
+
+export function isAutotile(tileId: number): boolean {
+    return tileId >= TileId.A1;
+}
+
+export function getAutotileKind(tileId: number): number {
+    return Math.floor((tileId - TileId.A1) / 48);
+}
+
+export function getAutotileShape(tileId: number): number {
+    return (tileId - TileId.A1) % 48;
+}
+
+export function makeAutotileId(kind: number, shape: number): number {
+    return TileId.A1 + kind * 48 + shape;
+}
+
+export function isTileA1(tileId: number): boolean {
+    return tileId >= TileId.A1 && tileId < TileId.A2;
+}
+
+export function isTileA2(tileId: number): boolean {
+    return tileId >= TileId.A2 && tileId < TileId.A3;
+}
+
+export function isTileA3(tileId: number): boolean {
+    return tileId >= TileId.A3 && tileId < TileId.A4;
+}
+
+export function isTileA4(tileId: number): boolean {
+    return tileId >= TileId.A4 && tileId < TileId.Max;
+}
+
+export function isTileA5(tileId: number): boolean {
+    return tileId >= TileId.A5 && tileId < TileId.A1;
+}
+
+/**
+ * Get the sheet a tile ID belongs to
+ */
+export function getTileSheet(tileId: number): TileSheet {
+    if (tileId >= TileId.A4) return "A4";
+    if (tileId >= TileId.A3) return "A3";
+    if (tileId >= TileId.A2) return "A2";
+    if (tileId >= TileId.A1) return "A1";
+    if (tileId >= TileId.A5) return "A5";
+    if (tileId >= TileId.E) return "E";
+    if (tileId >= TileId.D) return "D";
+    if (tileId >= TileId.C) return "C";
+    return "B";
+}
+
+/**
+ * Resolve a tile input to a tile ID (autotiles resolve to shape 0)
+ */
+export function resolveTileId(tile: TileInput): number {
+    if (typeof tile === "number") {
+        return tile;
+    }
+    const { sheet, index } = tile;
+    if (index >= sheetSizes[sheet]) {
+        throw new Error(`Tile index ${index} is out of range for sheet ${sheet} (0-${sheetSizes[sheet] - 1})`);
+    }
+    switch (sheet) {
+        case "A1": return makeAutotileId(index, 0);
+        case "A2": return makeAutotileId(16 + index, 0);
+        case "A3": return makeAutotileId(48 + index, 0);
+        case "A4": return makeAutotileId(80 + index, 0);
+        default: return TileId[sheet] + index;
+    }
+}
+
+/**
+ * Describe a tile ID for display, e.g. "A2:3 (shape 46)" or "B:12"
+ */
+export function describeTileId(tileId: number): string {
+    if (tileId === 0) return "empty";
+    const sheet = getTileSheet(tileId);
+    if (isAutotile(tileId)) {
+        const kind = getAutotileKind(tileId);
+        const offsets: Record<string, number> = { A1: 0, A2: 16, A3: 48, A4: 80 };
+        return `${sheet}:${kind - offsets[sheet]} (shape ${getAutotileShape(tileId)})`;
+    }
+    return `${sheet}:${tileId - TileId[sheet]}`;
+}
+
+/**
+ * Default layer for a tile: A tiles go on the ground layer, B-E on the lower layer
+ */
+export function getDefaultLayer(tileId: number): number {
+    return tileId >= TileId.A5 ? Layer.Ground : Layer.Lower;
+}
+
+/**
+ * Whether two tiles count as the same tile for flood fill (autotiles match by kind)
+ */
+export function isSameTile(a: number, b: number): boolean {
+    if (isAutotile(a) && isAutotile(b)) {
+        return getAutotileKind(a) === getAutotileKind(b);
+    }
+    return a === b;
+}
+
+// ============================================================================
+// Tile Flags (RPGTileset.flags, indexed by tile ID)
+// ============================================================================
+
+export const TileFlag = {
+    ImpassableDown: 0x01,
+    ImpassableLeft: 0x02,
+    ImpassableRight: 0x04,
+    ImpassableUp: 0x08,
+    Star: 0x10,         // Drawn above characters, no effect on passage
+    Ladder: 0x20,
+    Bush: 0x40,
+    Counter: 0x80,      // Also marks A2 table tiles
+    DamageFloor: 0x100,
+    TerrainTag: 0xf000, // Bits 12-15
+} as const;
+
+export interface TileFlags {
+    passage: { down: boolean; left: boolean; right: boolean; up: boolean };
+    star: boolean;
+    ladder: boolean;
+    bush: boolean;
+    counter: boolean;
+    damageFloor: boolean;
+    terrainTag: number;
+}
+
+export const tileFlagsSchema = z.object({
+    passage: z.union([
+        z.enum(["passable", "impassable"]),
+        z.object({
+            down: z.boolean().optional(),
+            left: z.boolean().optional(),
+            right: z.boolean().optional(),
+            up: z.boolean().optional(),
+        }).describe("Per-direction passability (true = can move that way)"),
+    ]).optional().describe("Passability: \"passable\", \"impassable\" or per direction"),
+    star: z.boolean().optional().describe("Star: drawn above characters, ignored for passage"),
+    ladder: z.boolean().optional(),
+    bush: z.boolean().optional(),
+    counter: z.boolean().optional().describe("Counter (on A2 also makes the tile a table)"),
+    damageFloor: z.boolean().optional(),
+    terrainTag: z.number().int().min(0).max(7).optional(),
+});
+
+export type TileFlagsInput = z.infer<typeof tileFlagsSchema>;
+
+const passageBits = {
+    down: TileFlag.ImpassableDown,
+    left: TileFlag.ImpassableLeft,
+    right: TileFlag.ImpassableRight,
+    up: TileFlag.ImpassableUp,
+} as const;
+
+export function decodeTileFlags(flag: number): TileFlags {
+    return {
+        passage: {
+            down: (flag & TileFlag.ImpassableDown) === 0,
+            left: (flag & TileFlag.ImpassableLeft) === 0,
+            right: (flag & TileFlag.ImpassableRight) === 0,
+            up: (flag & TileFlag.ImpassableUp) === 0,
+        },
+        star: (flag & TileFlag.Star) !== 0,
+        ladder: (flag & TileFlag.Ladder) !== 0,
+        bush: (flag & TileFlag.Bush) !== 0,
+        counter: (flag & TileFlag.Counter) !== 0,
+        damageFloor: (flag & TileFlag.DamageFloor) !== 0,
+        terrainTag: (flag & TileFlag.TerrainTag) >> 12,
+    };
+}
+
+/**
+ * Apply flag changes to a flag value; bits not mentioned are kept
+ */
+export function applyTileFlags(flag: number, changes: TileFlagsInput): number {
+    let result = flag;
+    const setBit = (bit: number, on: boolean) => {
+        result = on ? result | bit : result & ~bit;
+    };
+
+    if (changes.passage === "passable" || changes.passage === "impassable") {
+        for (const bit of Object.values(passageBits)) {
+            setBit(bit, changes.passage === "impassable");
+        }
+    } else if (changes.passage) {
+        for (const [direction, bit] of Object.entries(passageBits)) {
+            const passable = changes.passage[direction as keyof typeof passageBits];
+            if (passable !== undefined) setBit(bit, !passable);
+        }
+    }
+    if (changes.star !== undefined) setBit(TileFlag.Star, changes.star);
+    if (changes.ladder !== undefined) setBit(TileFlag.Ladder, changes.ladder);
+    if (changes.bush !== undefined) setBit(TileFlag.Bush, changes.bush);
+    if (changes.counter !== undefined) setBit(TileFlag.Counter, changes.counter);
+    if (changes.damageFloor !== undefined) setBit(TileFlag.DamageFloor, changes.damageFloor);
+    if (changes.terrainTag !== undefined) {
+        result = (result & ~TileFlag.TerrainTag) | (changes.terrainTag << 12);
+    }
+    return result;
+}
+
+/**
+ * Tile IDs sharing one flag entry in the editor: all 48 shapes of an autotile kind
+ */
+export function getFlagTileIds(tileId: number): number[] {
+    if (!isAutotile(tileId)) {
+        return [tileId];
+    }
+    const kind = getAutotileKind(tileId);
+    return Array.from({ length: 48 }, (_, shape) => makeAutotileId(kind, shape));
+}
+
+// ============================================================================
+// Layer Access
+// ============================================================================
+
+export function tileIndex(map: RPGMap, x: number, y: number, layer: number): number {
+    return (layer * map.height + y) * map.width + x;
+}
+
+export function isValidPosition(map: RPGMap, x: number, y: number): boolean {
+    return x >= 0 && y >= 0 && x < map.width && y < map.height;
+}
+
+export function getTile(map: RPGMap, x: number, y: number, layer: number): number {
+    return map.data[tileIndex(map, x, y, layer)] ?? 0;
+}
+
+export function setTile(map: RPGMap, x: number, y: number, layer: number, tileId: number): void {
+    map.data[tileIndex(map, x, y, layer)] = tileId;
+}
+
+// ============================================================================
+// Shapes
+// ============================================================================
+
+export interface Cell {
+    x: number;
+    y: number;
+}
+
+export function rectCells(x: number, y: number, width: number, height: number): Cell[] {
+    const cells: Cell[] = [];
+    for (let dy = 0; dy < height; dy++) {
+        for (let dx = 0; dx < width; dx++) {
+            cells.push({ x: x + dx, y: y + dy });
+        }
+    }
+    return cells;
+}
+
+/**
+ * Bresenham line, widened to a square brush when thickness > 1
+ */
+export function lineCells(x1: number, y1: number, x2: number, y2: number, thickness = 1): Cell[] {
+    const seen = new Set<string>();
+    const cells: Cell[] = [];
+    const offset = Math.floor((thickness - 1) / 2);
+    const add = (cx: number, cy: number) => {
+        for (let dy = 0; dy < thickness; dy++) {
+            for (let dx = 0; dx < thickness; dx++) {
+                const px = cx + dx - offset;
+                const py = cy + dy - offset;
+                const key = `${px},${py}`;
+                if (!seen.has(key)) {
+                    seen.add(key);
+                    cells.push({ x: px, y: py });
+                }
+            }
+        }
+    };
+
+    const dx = Math.abs(x2 - x1);
+    const dy = -Math.abs(y2 - y1);
+    const sx = x1 < x2 ? 1 : -1;
+    const sy = y1 < y2 ? 1 : -1;
+    let err = dx + dy;
+    let x = x1;
+    let y = y1;
+
+    for (;;) {
+        add(x, y);
+        if (x === x2 && y === y2) break;
+        const e2 = 2 * err;
+        if (e2 >= dy) {
+            err += dy;
+            x += sx;
+        }
+        if (e2 <= dx) {
+            err += dx;
+            y += sy;
+        }
+    }
+    return cells;
+}
+
+/**
+ * 4-connected flood fill over cells matching the start tile on a layer
+ */
+export function floodCells(map: RPGMap, x: number, y: number, layer: number): Cell[] {
+    const target = getTile(map, x, y, layer);
+    const visited = new Uint8Array(map.width * map.height);
+    const cells: Cell[] = [];
+    const stack: Cell[] = [{ x, y }];
+
+    while (stack.length > 0) {
+        const cell = stack.pop()!;
+        if (!isValidPosition(map, cell.x, cell.y)) continue;
+        const key = cell.y * map.width + cell.x;
+        if (visited[key]) continue;
+        visited[key] = 1;
+        if (!isSameTile(getTile(map, cell.x, cell.y, layer), target)) continue;
+
+        cells.push(cell);
+        stack.push(
+            { x: cell.x + 1, y: cell.y },
+            { x: cell.x - 1, y: cell.y },
+            { x: cell.x, y: cell.y + 1 },
+            { x: cell.x, y: cell.y - 1 }
+        );
+    }
+    return cells;
+}
+
+/**
+ * Write a tile to every in-bounds cell, resolve autotile shapes around them
+ * and return the cells that were written
+ */
+export function paintCells(map: RPGMap, cells: Cell[], layer: number, tileId: number): Cell[] {
+    const painted = cells.filter((c) => isValidPosition(map, c.x, c.y));
+    for (const cell of painted) {
+        setTile(map, cell.x, cell.y, layer, tileId);
+    }
+    if (layer < Layer.Shadow) {
+        refreshAutotiles(map, painted, layer);
+    }
+    return painted;
+}
+
+// ============================================================================
+// Autotile Shapes
+// ============================================================================
+
+// Quarter-tile sources [qx, qy] for each shape, in TL, TR, BL, BR order
+// (same tables as the engine's Tilemap.*_AUTOTILE_TABLE)
+const FLOOR_AUTOTILE_TABLE = [
+    [[2, 4], [1, 4], [2, 3], [1, 3]], [[2, 0], [1, 4], [2, 3], [1, 3]],
+    [[2, 4], [3, 0], [2, 3], [1, 3]], [[2, 0], [3, 0], [2, 3], [1, 3]],
+    [[2, 4], [1, 4], [2, 3], [3, 1]], [[2, 0], [1, 4], [2, 3], [3, 1]],
+    [[2, 4], [3, 0], [2, 3], [3, 1]], [[2, 0], [3, 0], [2, 3], [3, 1]],
+    [[2, 4], [1, 4], [2, 1], [1, 3]], [[2, 0], [1, 4], [2, 1], [1, 3]],
+    [[2, 4], [3, 0], [2, 1], [1, 3]], [[2, 0], [3, 0], [2, 1], [1, 3]],
+    [[2, 4], [1, 4], [2, 1], [3, 1]], [[2, 0], [1, 4], [2, 1], [3, 1]],
+    [[2, 4], [3, 0], [2, 1], [3, 1]], [[2, 0], [3, 0], [2, 1], [3, 1]],
+    [[0, 4], [1, 4], [0, 3], [1, 3]], [[0, 4], [3, 0], [0, 3], [1, 3]],
+    [[0, 4], [1, 4], [0, 3], [3, 1]], [[0, 4], [3, 0], [0, 3], [3, 1]],
+    [[2, 2], [1, 2], [2, 3], [1, 3]], [[2, 2], [1, 2], [2, 3], [3, 1]],
+    [[2, 2], [1, 2], [2, 1], [1, 3]], [[2, 2], [1, 2], [2, 1], [3, 1]],
+    [[2, 4], [3, 4], [2, 3], [3, 3]], [[2, 4], [3, 4], [2, 1], [3, 3]],
+    [[2, 0], [3, 4], [2, 3], [3, 3]], [[2, 0], [3, 4], [2, 1], [3, 3]],
+    [[2, 4], [1, 4], [2, 5], [1, 5]], [[2, 0], [1, 4], [2, 5], [1, 5]],
+    [[2, 4], [3, 0], [2, 5], [1, 5]], [[2, 0], [3, 0], [2, 5], [1, 5]],
+    [[0, 4], [3, 4], [0, 3], [3, 3]], [[2, 2], [1, 2], [2, 5], [1, 5]],
+    [[0, 2], [1, 2], [0, 3], [1, 3]], [[0, 2], [1, 2], [0, 3], [3, 1]],
+    [[2, 2], [3, 2], [2, 3], [3, 3]], [[2, 2], [3, 2], [2, 1], [3, 3]],
+    [[2, 4], [3, 4], [2, 5], [3, 5]], [[2, 0], [3, 4], [2, 5], [3, 5]],
+    [[0, 4], [1, 4], [0, 5], [1, 5]], [[0, 4], [3, 0], [0, 5], [1, 5]],
+    [[0, 2], [3, 2], [0, 3], [3, 3]], [[0, 2], [1, 2], [0, 5], [1, 5]],
+    [[0, 4], [3, 4], [0, 5], [3, 5]], [[2, 2], [3, 2], [2, 5], [3, 5]],
+    [[0, 2], [3, 2], [0, 5], [3, 5]], [[0, 0], [1, 0], [0, 1], [1, 1]],
+];
+
+const WALL_AUTOTILE_TABLE = [
+    [[2, 2], [1, 2], [2, 1], [1, 1]], [[0, 2], [1, 2], [0, 1], [1, 1]],
+    [[2, 0], [1, 0], [2, 1], [1, 1]], [[0, 0], [1, 0], [0, 1], [1, 1]],
+    [[2, 2], [3, 2], [2, 1], [3, 1]], [[0, 2], [3, 2], [0, 1], [3, 1]],
+    [[2, 0], [3, 0], [2, 1], [3, 1]], [[0, 0], [3, 0], [0, 1], [3, 1]],
+    [[2, 2], [1, 2], [2, 3], [1, 3]], [[0, 2], [1, 2], [0, 3], [1, 3]],
+    [[2, 0], [1, 0], [2, 3], [1, 3]], [[0, 0], [1, 0], [0, 3], [1, 3]],
+    [[2, 2], [3, 2], [2, 3], [3, 3]], [[0, 2], [3, 2], [0, 3], [3, 3]],
+    [[2, 0], [3, 0], [2, 3], [3, 3]], [[0, 0], [3, 0], [0, 3], [3, 3]],
+];
+
+const WATERFALL_AUTOTILE_TABLE = [
+    [[2, 0], [1, 0], [2, 1], [1, 1]], [[0, 0], [1, 0], [0, 1], [1, 1]],
+    [[2, 0], [3, 0], [2, 1], [3, 1]], [[0, 0], [3, 0], [0, 1], [3, 1]],
+];
+
+export const AutotileTables = {
+    floor: FLOOR_AUTOTILE_TABLE,
+    wall: WALL_AUTOTILE_TABLE,
+    waterfall: WATERFALL_AUTOTILE_TABLE,
+} as const;
+
+export type AutotileType = keyof typeof AutotileTables;
+
+// Reverse lookup from a quarter layout to its floor shape (shape 47 is never chosen)
+const floorShapeLookup = new Map(
+    FLOOR_AUTOTILE_TABLE.slice(0, 47).map((quarters, shape) => [JSON.stringify(quarters), shape])
+);
+
+/**
+ * Which shape table an autotile uses, following the engine's drawAutotile
+ */
+export function getAutotileType(tileId: number): AutotileType {
+    const kind = getAutotileKind(tileId);
+    if (isTileA1(tileId)) {
+        // Odd kinds from 5 on are waterfalls; 0-3 are water/deep sea decoration
+        return kind >= 4 && kind % 2 === 1 ? "waterfall" : "floor";
+    }
+    if (isTileA3(tileId)) {
+        return "wall";
+    }
+    if (isTileA4(tileId)) {
+        // A4 alternates wall-top rows (floor) and wall-side rows
+        return Math.floor(kind / 8) % 2 === 1 ? "wall" : "floor";
+    }
+    return "floor";
+}
+
+/**
+ * Compute the shape of the autotile at a cell from its neighbours.
+ * Cells outside the map count as connected, like in the editor.
+ */
+export function computeAutotileShape(map: RPGMap, x: number, y: number, layer: number): number {
+    const tileId = getTile(map, x, y, layer);
+    const connected = (dx: number, dy: number): boolean => {
+        const nx = x + dx;
+        const ny = y + dy;
+        if (!isValidPosition(map, nx, ny)) return true;
+        return isSameTile(getTile(map, nx, ny, layer), tileId);
+    };
+
+    const n = connected(0, -1);
+    const s = connected(0, 1);
+    const w = connected(-1, 0);
+    const e = connected(1, 0);
+
+    switch (getAutotileType(tileId)) {
+        case "waterfall":
+            return (w ? 0 : 1) | (e ? 0 : 2);
+        case "wall":
+            return (w ? 0 : 1) | (n ? 0 : 2) | (e ? 0 : 4) | (s ? 0 : 8);
+        case "floor": {
+            // Pick the quarter piece each corner needs, then find the matching shape
+            const quarter = (left: boolean, top: boolean, h: boolean, v: boolean, d: boolean): number[] => {
+                if (h && v && !d) return [left ? 2 : 3, top ? 0 : 1];
+                return [h ? (left ? 2 : 1) : (left ? 0 : 3), v ? (top ? 4 : 3) : (top ? 2 : 5)];
+            };
+            const quarters = [
+                quarter(true, true, w, n, connected(-1, -1)),
+                quarter(false, true, e, n, connected(1, -1)),
+                quarter(true, false, w, s, connected(-1, 1)),
+                quarter(false, false, e, s, connected(1, 1)),
+            ];
+            return floorShapeLookup.get(JSON.stringify(quarters)) ?? 0;
+        }
+    }
+}
+
+/**
+ * Recompute autotile shapes for the given cells and their 8 neighbours
+ */
+export function refreshAutotiles(map: RPGMap, cells: Cell[], layer: number): void {
+    const seen = new Set<number>();
+    for (const cell of cells) {
+        for (let dy = -1; dy <= 1; dy++) {
+            for (let dx = -1; dx <= 1; dx++) {
+                const x = cell.x + dx;
+                const y = cell.y + dy;
+                if (!isValidPosition(map, x, y)) continue;
+                const key = y * map.width + x;
+                if (seen.has(key)) continue;
+                seen.add(key);
+
+                const tileId = getTile(map, x, y, layer);
+                if (isAutotile(tileId)) {
+                    setTile(map, x, y, layer, makeAutotileId(getAutotileKind(tileId), computeAutotileShape(map, x, y, layer)));
+                }
+            }
+        }
+    }
+}
@@ -0,0 +1,228 @@
+/**
+ * Traits - Typed trait vocabulary
+ *
+ * Traits are shared by actors, classes, weapons, armors, enemies and states.
+ * Rates and chances are given in percent and stored as multipliers
+ * (150 -> 1.5); Ex-Parameters are added percentage points (10 -> +0.1).
+ */
+
+import { z } from "zod";
+import type { FileHandler } from "./fileHandler.js";
+import type { RPGSystem, RPGState, RPGSkill, RPGTrait } from "./types.js";
+import { TraitCode } from "./types.js";
+import { typeRefSchema, resolveTypeId, getRegistry } from "./typeRegistry.js";
+
+export const PARAM_NAMES = ["maxHp", "maxMp", "atk", "def", "mat", "mdf", "agi", "luk"] as const;
+export const XPARAM_NAMES = [
+    "hit", "evasion", "critical", "criticalEvasion", "magicEvasion",
+    "magicReflection", "counter", "hpRegen", "mpRegen", "tpRegen",
+] as const;
+export const SPARAM_NAMES = [
+    "targetRate", "guardEffect", "recoveryEffect", "pharmacology", "mpCostRate",
+    "tpChargeRate", "physicalDamage", "magicalDamage", "floorDamage", "experience",
+] as const;
+const SLOT_TYPES = ["normal", "dualWield"] as const;
+const SPECIAL_FLAGS = ["autoBattle", "guard", "substitute", "preserveTp"] as const;
+const COLLAPSE_EFFECTS = ["normal", "boss", "instant", "noDisappear"] as const;
+const PARTY_ABILITIES = [
+    "encounterHalf", "encounterNone", "cancelSurprise", "raisePreemptive", "goldDouble", "dropItemDouble",
+] as const;
+
+// Editor labels, indexed like the name lists above
+export const paramLabels = ["Max HP", "Max MP", "Attack", "Defense", "M.Attack", "M.Defense", "Agility", "Luck"];
+const xparamLabels = [
+    "Hit Rate", "Evasion Rate", "Critical Rate", "Critical Evasion", "Magic Evasion",
+    "Magic Reflection", "Counter Attack", "HP Regeneration", "MP Regeneration", "TP Regeneration",
+];
+const sparamLabels = [
+    "Target Rate", "Guard Effect", "Recovery Effect", "Pharmacology", "MP Cost Rate",
+    "TP Charge Rate", "Physical Damage", "Magic Damage", "Floor Damage", "Experience",
+];
+const slotTypeLabels = ["Normal", "Dual Wield"];
+const specialFlagLabels = ["Auto Battle", "Guard", "Substitute", "Preserve TP"];
+const collapseEffectLabels = ["Normal", "Boss", "Instant", "No Disappear"];
+const partyAbilityLabels = [
+    "Encounter Half", "Encounter None", "Cancel Surprise", "Raise Preemptive", "Gold Double", "Drop Item Double",
+];
+
+const stateIdSchema = z.number().int().min(1).describe("State ID");
+const skillIdSchema = z.number().int().min(1).describe("Skill ID");
+const rateSchema = z.number().min(0).max(1000).describe("Rate in percent (100 = unchanged, 0 = none)");
+const chanceSchema = z.number().min(0).max(100).describe("Chance in percent");
+
+export const traitSchema = z.discriminatedUnion("type", [
+    z.object({ type: z.literal("elementRate"), element: typeRefSchema.describe("Element ID or name"), percent: rateSchema }),
+    z.object({ type: z.literal("debuffRate"), param: z.enum(PARAM_NAMES), percent: rateSchema }),
+    z.object({ type: z.literal("stateRate"), stateId: stateIdSchema, percent: rateSchema }),
+    z.object({ type: z.literal("stateResist"), stateId: stateIdSchema }),
+    z.object({ type: z.literal("param"), param: z.enum(PARAM_NAMES), percent: rateSchema }),
+    z.object({
+        type: z.literal("xparam"),
+        xparam: z.enum(XPARAM_NAMES),
+        percent: z.number().min(-1000).max(1000).describe("Percentage points added (e.g. 5 = +5%)"),
+    }),
+    z.object({ type: z.literal("sparam"), sparam: z.enum(SPARAM_NAMES), percent: rateSchema }),
+    z.object({ type: z.literal("attackElement"), element: typeRefSchema.describe("Element ID or name") }),
+    z.object({ type: z.literal("attackState"), stateId: stateIdSchema, percent: chanceSchema }),
+    z.object({ type: z.literal("attackSpeed"), value: z.number().int().min(-999).max(999) }),
+    z.object({ type: z.literal("attackTimes"), value: z.number().int().min(-9).max(9).describe("Extra hits per attack") }),
+    z.object({ type: z.literal("attackSkill"), skillId: skillIdSchema }),
+    z.object({ type: z.literal("addSkillType"), skillType: typeRefSchema.describe("Skill type ID or name") }),
+    z.object({ type: z.literal("sealSkillType"), skillType: typeRefSchema.describe("Skill type ID or name") }),
+    z.object({ type: z.literal("addSkill"), skillId: skillIdSchema }),
+    z.object({ type: z.literal("sealSkill"), skillId: skillIdSchema }),
+    z.object({ type: z.literal("equipWeapon"), weaponType: typeRefSchema.describe("Weapon type ID or name") }),
+    z.object({ type: z.literal("equipArmor"), armorType: typeRefSchema.describe("Armor type ID or name") }),
+    z.object({ type: z.literal("lockEquip"), equipType: typeRefSchema.describe("Equip type ID or name") }),
+    z.object({ type: z.literal("sealEquip"), equipType: typeRefSchema.describe("Equip type ID or name") }),
+    z.object({ type: z.literal("slotType"), slot: z.enum(SLOT_TYPES) }),
+    z.object({ type: z.literal("actionTimes"), percent: chanceSchema.describe("Chance of an extra action in percent") }),
+    z.object({ type: z.literal("specialFlag"), flag: z.enum(SPECIAL_FLAGS) }),
+    z.object({ type: z.literal("collapseEffect"), effect: z.enum(COLLAPSE_EFFECTS) }),
+    z.object({ type: z.literal("partyAbility"), ability: z.enum(PARTY_ABILITIES) }),
+]);
+
+export type TraitInput = z.infer<typeof traitSchema>;
+
+/**
+ * Throw unless a database entry exists
+ */
+export async function requireEntry(fileHandler: FileHandler, filename: string, label: string, id: number): Promise<void> {
+    const entries = await fileHandler.readJson<({ name: string } | null)[]>(`data/${filename}`);
+    if (id >= entries.length || !entries[id]) {
+        throw new Error(`${label} with ID ${id} not found`);
+    }
+}
+
+/**
+ * Build a trait from its typed form, resolving type names and checking IDs
+ */
+export async function encodeTrait(fileHandler: FileHandler, input: TraitInput): Promise<RPGTrait> {
+    const system = () => fileHandler.readJson<RPGSystem>("data/System.json");
+    const rate = (percent: number) => percent / 100;
+
+    switch (input.type) {
+        case "elementRate":
+            return { code: TraitCode.ElementRate, dataId: resolveTypeId(await system(), "elements", input.element), value: rate(input.percent) };
+        case "debuffRate":
+            return { code: TraitCode.DebuffRate, dataId: PARAM_NAMES.indexOf(input.param), value: rate(input.percent) };
+        case "stateRate":
+            await requireEntry(fileHandler, "States.json", "State", input.stateId);
+            return { code: TraitCode.StateRate, dataId: input.stateId, value: rate(input.percent) };
+        case "stateResist":
+            await requireEntry(fileHandler, "States.json", "State", input.stateId);
+            return { code: TraitCode.StateResist, dataId: input.stateId, value: 1 };
+        case "param":
+            return { code: TraitCode.Param, dataId: PARAM_NAMES.indexOf(input.param), value: rate(input.percent) };
+        case "xparam":
+            return { code: TraitCode.XParam, dataId: XPARAM_NAMES.indexOf(input.xparam), value: rate(input.percent) };
+        case "sparam":
+            return { code: TraitCode.SParam, dataId: SPARAM_NAMES.indexOf(input.sparam), value: rate(input.percent) };
+        case "attackElement":
+            return { code: TraitCode.AttackElement, dataId: resolveTypeId(await system(), "elements", input.element), value: 1 };
+        case "attackState":
+            await requireEntry(fileHandler, "States.json", "State", input.stateId);
+            return { code: TraitCode.AttackState, dataId: input.stateId, value: rate(input.percent) };
+        case "attackSpeed":
+            return { code: TraitCode.AttackSpeed, dataId: 0, value: input.value };
+        case "attackTimes":
+            return { code: TraitCode.AttackTimes, dataId: 0, value: input.value };
+        case "attackSkill":
+        case "addSkill":
+        case "sealSkill": {
+            await requireEntry(fileHandler, "Skills.json", "Skill", input.skillId);
+            const codes = { attackSkill: TraitCode.AttackSkill, addSkill: TraitCode.AddSkill, sealSkill: TraitCode.SealSkill };
+            return { code: codes[input.type], dataId: input.skillId, value: 1 };
+        }
+        case "addSkillType":
+        case "sealSkillType": {
+            const code = input.type === "addSkillType" ? TraitCode.AddSkillType : TraitCode.SealSkillType;
+            return { code, dataId: resolveTypeId(await system(), "skillTypes", input.skillType), value: 1 };
+        }
+        case "equipWeapon":
+            return { code: TraitCode.EquipWeaponType, dataId: resolveTypeId(await system(), "weaponTypes", input.weaponType), value: 1 };
+        case "equipArmor":
+            return { code: TraitCode.EquipArmorType, dataId: resolveTypeId(await system(), "armorTypes", input.armorType), value: 1 };
+        case "lockEquip":
+        case "sealEquip": {
+            const code = input.type === "lockEquip" ? TraitCode.LockEquip : TraitCode.SealEquip;
+            return { code, dataId: resolveTypeId(await system(), "equipTypes", input.equipType), value: 1 };
+        }
+        case "slotType":
+            return { code: TraitCode.SlotType, dataId: SLOT_TYPES.indexOf(input.slot), value: 1 };
+        case "actionTimes":
+            return { code: TraitCode.ActionTimes, dataId: 0, value: rate(input.percent) };
+        case "specialFlag":
+            return { code: TraitCode.SpecialFlag, dataId: SPECIAL_FLAGS.indexOf(input.flag), value: 1 };
+        case "collapseEffect":
+            return { code: TraitCode.CollapseEffect, dataId: COLLAPSE_EFFECTS.indexOf(input.effect), value: 1 };
+        case "partyAbility":
+            return { code: TraitCode.PartyAbility, dataId: PARTY_ABILITIES.indexOf(input.ability), value: 1 };
+    }
+}
+
+/**
+ * Names used to describe traits
+ */
+export interface TraitNames {
+    system: RPGSystem;
+    states: (RPGState | null)[];
+    skills: (RPGSkill | null)[];
+}
+
+export async function loadTraitNames(fileHandler: FileHandler): Promise<TraitNames> {
+    const [system, states, skills] = await Promise.all([
+        fileHandler.readJson<RPGSystem>("data/System.json"),
+        fileHandler.readJson<(RPGState | null)[]>("data/States.json"),
+        fileHandler.readJson<(RPGSkill | null)[]>("data/Skills.json"),
+    ]);
+    return { system, states, skills };
+}
+
+/**
+ * Stored fraction as a percent label (0.5 -> "50%")
+ */
+export function formatPercent(value: number): string {
+    return `${Math.round(value * 1000) / 10}%`;
+}
+
+/**
+ * Readable form of a trait, close to the editor's trait list
+ */
+export function describeTrait(trait: RPGTrait, names: TraitNames): string {
+    const { code, dataId, value } = trait;
+    const named = (list: string[] | undefined, id: number) => (list?.[id] ? `${list[id]} (${id})` : `#${id}`);
+    const registry = (name: Parameters<typeof getRegistry>[1]) => named(getRegistry(names.system, name), dataId);
+    const entry = (list: ({ name: string } | null)[]) => named(list.map((e) => e?.name ?? ""), dataId);
+    const label = (labels: string[]) => labels[dataId] ?? `#${dataId}`;
+    const sign = value >= 0 ? "+" : "-";
+
+    switch (code) {
+        case TraitCode.ElementRate: return `Element Rate: ${registry("elements")} * ${formatPercent(value)}`;
+        case TraitCode.DebuffRate: return `Debuff Rate: ${label(paramLabels)} * ${formatPercent(value)}`;
+        case TraitCode.StateRate: return `State Rate: ${entry(names.states)} * ${formatPercent(value)}`;
+        case TraitCode.StateResist: return `State Resist: ${entry(names.states)}`;
+        case TraitCode.Param: return `Parameter: ${label(paramLabels)} * ${formatPercent(value)}`;
+        case TraitCode.XParam: return `Ex-Parameter: ${label(xparamLabels)} ${sign} ${formatPercent(Math.abs(value))}`;
+        case TraitCode.SParam: return `Sp-Parameter: ${label(sparamLabels)} * ${formatPercent(value)}`;
+        case TraitCode.AttackElement: return `Attack Element: ${registry("elements")}`;
+        case TraitCode.AttackState: return `Attack State: ${entry(names.states)} + ${formatPercent(value)}`;
+        case TraitCode.AttackSpeed: return `Attack Speed ${sign} ${Math.abs(value)}`;
+        case TraitCode.AttackTimes: return `Attack Times ${sign} ${Math.abs(value)}`;
+        case TraitCode.AttackSkill: return `Attack Skill: ${entry(names.skills)}`;
+        case TraitCode.AddSkillType: return `Add Skill Type: ${registry("skillTypes")}`;
+        case TraitCode.SealSkillType: return `Seal Skill Type: ${registry("skillTypes")}`;
+        case TraitCode.AddSkill: return `Add Skill: ${entry(names.skills)}`;
+        case TraitCode.SealSkill: return `Seal Skill: ${entry(names.skills)}`;
+        case TraitCode.EquipWeaponType: return `Equip Weapon: ${registry("weaponTypes")}`;
+        case TraitCode.EquipArmorType: return `Equip Armor: ${registry("armorTypes")}`;
+        case TraitCode.LockEquip: return `Lock Equip: ${registry("equipTypes")}`;
+        case TraitCode.SealEquip: return `Seal Equip: ${registry("equipTypes")}`;
+        case TraitCode.SlotType: return `Slot Type: ${label(slotTypeLabels)}`;
+        case TraitCode.ActionTimes: return `Action Times + ${formatPercent(value)}`;
+        case TraitCode.SpecialFlag: return `Special Flag: ${label(specialFlagLabels)}`;
+        case TraitCode.CollapseEffect: return `Collapse Effect: ${label(collapseEffectLabels)}`;
+        case TraitCode.PartyAbility: return `Party Ability: ${label(partyAbilityLabels)}`;
+        default: return `Unknown trait ${code} (dataId ${dataId}, value ${value})`;
+    }
+}
@@ -0,0 +1,67 @@
+/**
+ * Type Registry - Named ID lists stored in System.json
+ *
+ * Elements, skill/weapon/armor/equip types, switches and variables are arrays
+ * of names where the index is the ID (index 0 is always unused).
+ */
+
+import { z } from "zod";
+import type { RPGSystem } from "./types.js";
+
+export const TYPE_REGISTRIES = [
+    "elements", "skillTypes", "weaponTypes", "armorTypes", "equipTypes", "switches", "variables",
+] as const;
+
+export type TypeRegistry = typeof TYPE_REGISTRIES[number];
+
+export const typeRegistrySchema = z.enum(TYPE_REGISTRIES);
+
+export const registryLabels: Record<TypeRegistry, string> = {
+    elements: "element",
+    skillTypes: "skill type",
+    weaponTypes: "weapon type",
+    armorTypes: "armor type",
+    equipTypes: "equip type",
+    switches: "switch",
+    variables: "variable",
+};
+
+/**
+ * An ID or a name to look up in a registry
+ */
+export const typeRefSchema = z.union([z.number().int().min(0), z.string().min(1)]);
+
+export type TypeRef = z.infer<typeof typeRefSchema>;
+
+export function getRegistry(system: RPGSystem, registry: TypeRegistry): string[] {
+    if (!system[registry]) {
+        system[registry] = [""];
+    }
+    return system[registry];
+}
+
+/**
+ * Resolve an ID or name (case-insensitive) to an ID in the registry.
+ * ID 0 passes through as "none"; other IDs must exist.
+ */
+export function resolveTypeId(system: RPGSystem, registry: TypeRegistry, ref: TypeRef): number {
+    const names = getRegistry(system, registry);
+    const label = registryLabels[registry];
+
+    if (typeof ref === "number") {
+        if (ref !== 0 && ref >= names.length) {
+            throw new Error(`Unknown ${label} ID ${ref} (1-${names.length - 1} available)`);
+        }
+        return ref;
+    }
+
+    const wanted = ref.trim().toLowerCase();
+    const id = names.findIndex((name, i) => i > 0 && name.toLowerCase() === wanted);
+    if (id < 0) {
+        const available = names
+            .map((name, i) => (i > 0 && name ? `${i}=${name}` : null))
+            .filter((entry) => entry !== null);
+        throw new Error(`Unknown ${label} "${ref}"${available.length > 0 && available.length <= 30 ? ` (available: ${available.join(", ")})` : ""}`);
+    }
+    return id;
+}
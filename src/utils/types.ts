@@ -57,6 +57,7 @@ export interface RPGActor {
     battlerName: string;
     equips: number[];
     profile: string;
+    traits: RPGTrait[];
     note: string;
 }
 
@@ -167,6 +168,66 @@ export interface RPGState {
     note: string;
 }
 
+export interface RPGTroopMember {
+    enemyId: number;
+    x: number;
+    y: number;
+    hidden: boolean;
+}
+
+export interface RPGTroopPage {
+    conditions: {
+        actorHp: number;
+        actorId: number;
+        actorValid: boolean;
+        enemyHp: number;
+        enemyIndex: number;
+        enemyValid: boolean;
+        switchId: number;
+        switchValid: boolean;
+        turnA: number;
+        turnB: number;
+        turnEnding: boolean;
+        turnValid: boolean;
+    };
+    list: RPGEventCommand[];
+    span: number;         // 0=Battle, 1=Turn, 2=Moment
+}
+
+export interface RPGTroop {
+    id: number;
+    name: string;
+    members: RPGTroopMember[];
+    pages: RPGTroopPage[];
+}
+
+export interface RPGAnimationFlashTiming {
+    frame: number;
+    duration: number;
+    color: number[]; // [red, green, blue, intensity]
+}
+
+export interface RPGAnimationSoundTiming {
+    frame: number;
+    se: RPGAudioFile;
+}
+
+export interface RPGAnimation {
+    id: number;
+    name: string;
+    displayType: number; // 0 = each target, 1 = center of targets, 2 = screen center
+    effectName: string;  // effects/<name>.efkefc
+    alignBottom: boolean;
+    offsetX: number;
+    offsetY: number;
+    rotation: { x: number; y: number; z: number };
+    scale: number;
+    speed: number;
+    flashTimings: RPGAnimationFlashTiming[];
+    screenFlashTimings: RPGAnimationFlashTiming[];
+    soundTimings: RPGAnimationSoundTiming[];
+}
+
 // ============================================================================
 // Map Interfaces
 // ============================================================================
@@ -191,9 +252,9 @@ export interface RPGMap {
     battleback1Name: string;
     battleback2Name: string;
     autoplayBgm: boolean;
-    bgm: { name: string; pan: number; pitch: number; volume: number };
+    bgm: RPGAudioFile;
     autoplayBgs: boolean;
-    bgs: { name: string; pan: number; pitch: number; volume: number };
+    bgs: RPGAudioFile;
     disableDashing: boolean;
     encounterList: { regionSet: number[]; troopId: number; weight: number }[];
     encounterStep: number;
@@ -259,6 +320,14 @@ export interface RPGEventCommand {
     parameters: unknown[];
 }
 
+export interface RPGCommonEvent {
+    id: number;
+    name: string;
+    trigger: number;      // 0=None, 1=Autorun, 2=Parallel
+    switchId: number;
+    list: RPGEventCommand[];
+}
+
 // ============================================================================
 // Plugin Interfaces
 // ============================================================================
@@ -274,16 +343,98 @@ export interface PluginConfig {
 // System Interfaces
 // ============================================================================
 
+export interface RPGAudioFile {
+    name: string;
+    pan: number;
+    pitch: number;
+    volume: number;
+}
+
+export interface RPGVehicle {
+    bgm: RPGAudioFile;
+    characterIndex: number;
+    characterName: string;
+    startMapId: number;
+    startX: number;
+    startY: number;
+}
+
+export interface RPGSystemTerms {
+    basic: string[];                    // Level, Lv, HP, HP(a), MP, MP(a), TP, TP(a), EXP, EXP(a)
+    commands: (string | null)[];        // Fight ... Sell (indices 20 and 23 unused)
+    params: string[];                   // Max HP ... Evasion
+    messages: Record<string, string>;   // actionFailure, victory, ...
+}
+
 export interface RPGSystem {
+    advanced: {
+        gameId: number;
+        screenWidth: number;
+        screenHeight: number;
+        uiAreaWidth: number;
+        uiAreaHeight: number;
+        numberFontFilename: string;
+        fallbackFonts: string;
+        fontSize: number;
+        mainFontFilename: string;
+        windowOpacity: number;
+        screenScale: number;
+        picturesUpperLimit: number;
+    };
+    airship: RPGVehicle;
+    armorTypes: string[];
+    attackMotions: { type: number; weaponImageId: number }[];
+    battleBgm: RPGAudioFile;
+    battleback1Name: string;
+    battleback2Name: string;
+    battlerHue: number;
+    battlerName: string;
+    battleSystem: number;       // 0=Turn-based, 1=Time Progress (Active), 2=Time Progress (Wait)
+    boat: RPGVehicle;
+    currencyUnit: string;
+    defeatMe: RPGAudioFile;
+    editMapId: number;
+    elements: string[];
+    equipTypes: string[];
     gameTitle: string;
-    versionId: number;
+    gameoverMe: RPGAudioFile;
+    itemCategories: boolean[];  // Item, Weapon, Armor, Key Item
     locale: string;
+    magicSkills: number[];
+    menuCommands: boolean[];    // Item, Skill, Equip, Status, Formation, Save
+    optAutosave: boolean;
+    optDisplayTp: boolean;
+    optDrawTitle: boolean;
+    optExtraExp: boolean;
+    optFloorDeath: boolean;
+    optFollowers: boolean;
+    optKeyItemsNumber: boolean;
+    optMessageSkip: boolean;
+    optSideView: boolean;
+    optSlipDeath: boolean;
+    optSplashScreen: boolean;
+    optTransparent: boolean;
     partyMembers: number[];
-    currencyUnit: string;
+    ship: RPGVehicle;
+    skillTypes: string[];
+    sounds: RPGAudioFile[];
     startMapId: number;
     startX: number;
     startY: number;
-    // ... many more fields
+    switches: string[];
+    terms: RPGSystemTerms;
+    testBattlers: { actorId: number; equips: number[]; level: number }[];
+    testTroopId: number;
+    tileSize: number;
+    title1Name: string;
+    title2Name: string;
+    titleBgm: RPGAudioFile;
+    titleCommandWindow: { background: number; offsetX: number; offsetY: number };
+    variables: string[];
+    versionId: number;
+    victoryMe: RPGAudioFile;
+    weaponTypes: string[];
+    windowTone: number[];       // Red, Green, Blue, Gray
 }
 
 // ============================================================================
@@ -348,6 +499,34 @@ export const EffectCode = {
     CommonEvent: 44,
 } as const;
 
+export const TraitCode = {
+    ElementRate: 11,
+    DebuffRate: 12,
+    StateRate: 13,
+    StateResist: 14,
+    Param: 21,
+    XParam: 22,
+    SParam: 23,
+    AttackElement: 31,
+    AttackState: 32,
+    AttackSpeed: 33,
+    AttackTimes: 34,
+    AttackSkill: 35,
+    AddSkillType: 41,
+    SealSkillType: 42,
+    AddSkill: 43,
+    SealSkill: 44,
+    EquipWeaponType: 51,
+    EquipArmorType: 52,
+    LockEquip: 53,
+    SealEquip: 54,
+    SlotType: 55,
+    ActionTimes: 61,
+    SpecialFlag: 62,
+    CollapseEffect: 63,
+    PartyAbility: 64,
+} as const;
+
 export const DamageType = {
     None: 0,
     HPDamage: 1,
@@ -0,0 +1,466 @@
+/**
+ * Validation - Check every data file of a project
+ *
+ * Structure and value ranges come from the zod schemas in schemas.ts; ID
+ * references (database entries, type lists, switches, variables, maps) are
+ * checked only on entries whose structure is valid. Scripts and plugin
+ * commands are not parsed.
+ */
+
+import type { z } from "zod";
+import type { FileHandler } from "./fileHandler.js";
+import type {
+    RPGActor, RPGClass, RPGItem, RPGSkill, RPGWeapon, RPGArmor, RPGEnemy, RPGState, RPGTroop,
+    RPGCommonEvent, RPGSystem, RPGMap, RPGMapInfo, RPGTrait, RPGEffect, RPGEventCommand, RPGEventPage,
+} from "./types.js";
+import { EffectCode, TraitCode } from "./types.js";
+import {
+    databaseEntrySchemas, rpgSystemSchema, rpgMapInfoSchema, rpgMapSchema,
+} from "./schemas.js";
+import { type DatabaseKind, commandIds } from "./references.js";
+import { commandSwitches, commandVariables } from "./switchUsage.js";
+import { WEAPON_ETYPE, actorTraits, equipSlots } from "./equipment.js";
+import { commandNames } from "./eventSources.js";
+
+export interface ValidationIssue {
+    file: string;       // e.g. "Skills.json", "Map003.json"
+    id?: number;        // Entry, map info or event ID
+    path: string;       // Field path inside the entry, e.g. "damage.variance"
+    message: string;
+}
+
+type Entries = (Record<string, unknown> | null)[];
+
+type TypeList = "elements" | "skillTypes" | "weaponTypes" | "armorTypes" | "equipTypes";
+
+const typeLabels: Record<TypeList, string> = {
+    elements: "Element",
+    skillTypes: "Skill type",
+    weaponTypes: "Weapon type",
+    armorTypes: "Armor type",
+    equipTypes: "Equipment type",
+};
+
+const databaseLabels: Record<string, string> = {
+    "Items.json": "Item",
+    "Weapons.json": "Weapon",
+    "Armors.json": "Armor",
+    "Skills.json": "Skill",
+    "Actors.json": "Actor",
+    "Classes.json": "Class",
+    "Enemies.json": "Enemy",
+    "States.json": "State",
+    "Animations.json": "Animation",
+    "Tilesets.json": "Tileset",
+    "Troops.json": "Troop",
+    "CommonEvents.json": "Common event",
+};
+
+// Databases whose entries may legitimately have no name
+const unnamedAllowed = ["Troops.json", "CommonEvents.json"];
+
+const kindFiles: Record<DatabaseKind, string> = {
+    items: "Items.json",
+    weapons: "Weapons.json",
+    armors: "Armors.json",
+    skills: "Skills.json",
+    states: "States.json",
+    enemies: "Enemies.json",
+    actors: "Actors.json",
+    classes: "Classes.json",
+};
+
+// Trait dataIds that point at other data
+const traitTargets: Record<number, { file: string } | { types: TypeList } | { max: number }> = {
+    [TraitCode.ElementRate]: { types: "elements" },
+    [TraitCode.DebuffRate]: { max: 7 },
+    [TraitCode.StateRate]: { file: "States.json" },
+    [TraitCode.StateResist]: { file: "States.json" },
+    [TraitCode.Param]: { max: 7 },
+    [TraitCode.XParam]: { max: 9 },
+    [TraitCode.SParam]: { max: 9 },
+    [TraitCode.AttackElement]: { types: "elements" },
+    [TraitCode.AttackState]: { file: "States.json" },
+    [TraitCode.AttackSkill]: { file: "Skills.json" },
+    [TraitCode.AddSkillType]: { types: "skillTypes" },
+    [TraitCode.SealSkillType]: { types: "skillTypes" },
+    [TraitCode.AddSkill]: { file: "Skills.json" },
+    [TraitCode.SealSkill]: { file: "Skills.json" },
+    [TraitCode.EquipWeaponType]: { types: "weaponTypes" },
+    [TraitCode.EquipArmorType]: { types: "armorTypes" },
+    [TraitCode.LockEquip]: { types: "equipTypes" },
+    [TraitCode.SealEquip]: { types: "equipTypes" },
+};
+
+function mapFilename(mapId: number): string {
+    return `Map${String(mapId).padStart(3, "0")}.json`;
+}
+
+function joinPath(path: (string | number)[]): string {
+    return path.length > 0 ? path.join(".") : "(entry)";
+}
+
+/**
+ * Collects issues while checking one project
+ */
+class ProjectValidator {
+    readonly issues: ValidationIssue[] = [];
+    readonly databases: Record<string, Entries> = {};
+    readonly invalid = new Set<string>();   // "file#id" of entries that failed their schema
+    system: RPGSystem | null = null;
+    mapInfos: (RPGMapInfo | null)[] = [];
+
+    constructor(private fileHandler: FileHandler) { }
+
+    add(file: string, id: number | undefined, path: string, message: string): void {
+        this.issues.push({ file, ...(id !== undefined ? { id } : {}), path, message });
+    }
+
+    addSchemaIssues(file: string, id: number | undefined, error: z.ZodError): void {
+        for (const issue of error.issues) {
+            this.add(file, id, joinPath(issue.path), issue.message);
+        }
+    }
+
+    /**
+     * Read a JSON file, reporting a missing or unreadable file
+     */
+    async read<T>(file: string): Promise<T | null> {
+        const filePath = `data/${file}`;
+        if (!(await this.fileHandler.exists(filePath))) {
+            this.add(file, undefined, "(file)", "File not found");
+            return null;
+        }
+        try {
+            return await this.fileHandler.readJson<T>(filePath);
+        } catch (error) {
+            this.add(file, undefined, "(file)", `Cannot be read: ${error instanceof Error ? error.message : error}`);
+            return null;
+        }
+    }
+
+    /**
+     * Check the array layout of a database file and each entry's schema
+     *
+     * Entries that fail their schema are remembered so reference checks
+     * skip them.
+     */
+    checkArray(file: string, data: unknown, schema: z.ZodTypeAny): Entries {
+        if (!Array.isArray(data)) {
+            this.add(file, undefined, "(file)", "Expected an array of entries");
+            return [];
+        }
+        if (data.length === 0 || data[0] !== null) {
+            this.add(file, undefined, "0", "Index 0 must be null");
+        }
+        data.forEach((entry, index) => {
+            if (index === 0 || entry === null) return;
+            const result = schema.safeParse(entry);
+            if (!result.success) {
+                this.addSchemaIssues(file, index, result.error);
+                this.invalid.add(`${file}#${index}`);
+            } else if (entry.id !== index) {
+                this.add(file, index, "id", `Entry at index ${index} has id ${entry.id}`);
+            }
+        });
+        return data as Entries;
+    }
+
+    /**
+     * Entries of a file that passed their schema
+     */
+    validEntries<T>(file: string): T[] {
+        return (this.databases[file] ?? [])
+            .filter((entry, index) => entry !== null && !this.invalid.has(`${file}#${index}`)) as T[];
+    }
+
+    /**
+     * Report a reference to a missing or deleted database entry (0 = none)
+     *
+     * The context, e.g. a command name, starts the message.
+     */
+    entry(file: string, id: number | undefined, path: string, target: string, refId: number, context = ""): void {
+        if (typeof refId !== "number" || refId <= 0) return;
+        const list = this.databases[target];
+        if (!list) return;
+        const label = `${context}${databaseLabels[target]}`;
+        if (refId >= list.length || !list[refId]) {
+            this.add(file, id, path, `${label} ${refId} not found`);
+        } else if (list[refId]!.name === "" && !unnamedAllowed.includes(target)) {
+            this.add(file, id, path, `${label} ${refId} is an empty (deleted) entry`);
+        }
+    }
+
+    type(file: string, id: number | undefined, path: string, types: TypeList, refId: number): void {
+        const names = this.system?.[types];
+        if (refId <= 0 || !names) return;
+        if (refId >= names.length) {
+            this.add(file, id, path, `${typeLabels[types]} ${refId} not found (${names.length - 1} defined)`);
+        }
+    }
+
+    switchOrVariable(file: string, id: number | undefined, path: string, kind: "switches" | "variables", refId: number, context = ""): void {
+        const names = this.system?.[kind];
+        if (typeof refId !== "number" || !names) return;
+        if (refId <= 0 || refId >= names.length) {
+            this.add(file, id, path, `${context}${kind === "switches" ? "Switch" : "Variable"} ${refId} not found (${names.length - 1} defined)`);
+        }
+    }
+
+    map(file: string, id: number | undefined, path: string, mapId: number, context = ""): void {
+        if (typeof mapId !== "number" || mapId <= 0) return;
+        if (mapId >= this.mapInfos.length || !this.mapInfos[mapId]) {
+            this.add(file, id, path, `${context}Map ${mapId} not found`);
+        }
+    }
+
+    traits(file: string, id: number, traits: RPGTrait[]): void {
+        traits.forEach((trait, index) => {
+            const target = traitTargets[trait.code];
+            const path = `traits.${index}.dataId`;
+            if (!target) return;
+            if ("file" in target) this.entry(file, id, path, target.file, trait.dataId);
+            else if ("types" in target) this.type(file, id, path, target.types, trait.dataId);
+            else if (trait.dataId > target.max) this.add(file, id, path, `Parameter ${trait.dataId} is out of range (0-${target.max})`);
+        });
+    }
+
+    effects(file: string, id: number, effects: RPGEffect[]): void {
+        effects.forEach((effect, index) => {
+            const path = `effects.${index}.dataId`;
+            switch (effect.code) {
+                case EffectCode.AddState:
+                case EffectCode.RemoveState:
+                    // Add State 0 = the user's Normal Attack states
+                    this.entry(file, id, path, "States.json", effect.dataId);
+                    break;
+                case EffectCode.LearnSkill:
+                    this.entry(file, id, path, "Skills.json", effect.dataId);
+                    break;
+                case EffectCode.CommonEvent:
+                    this.entry(file, id, path, "CommonEvents.json", effect.dataId);
+                    break;
+                case EffectCode.AddBuff:
+                case EffectCode.AddDebuff:
+                case EffectCode.RemoveBuff:
+                case EffectCode.RemoveDebuff:
+                case EffectCode.Grow:
+                    if (effect.dataId > 7) this.add(file, id, path, `Parameter ${effect.dataId} is out of range (0-7)`);
+                    break;
+            }
+        });
+    }
+
+    /**
+     * Equipment IDs by slot: weapons in weapon slots, armors elsewhere
+     */
+    equips(file: string, id: number | undefined, path: string, actorId: number, equips: number[]): void {
+        const actor = this.databases["Actors.json"]?.[actorId] as RPGActor | null | undefined;
+        const classes = (this.databases["Classes.json"] ?? []) as (RPGClass | null)[];
+        const slots = actor ? equipSlots(actorTraits(actor, classes[actor.classId]), this.system ?? undefined) : [];
+        equips.forEach((itemId, slot) => {
+            const isWeapon = (slots[slot] ?? slot + 1) === WEAPON_ETYPE;
+            this.entry(file, id, `${path}.${slot}`, isWeapon ? "Weapons.json" : "Armors.json", itemId);
+        });
+    }
+
+    commands(file: string, id: number | undefined, path: string, list: RPGEventCommand[]): void {
+        list.forEach((command, index) => {
+            const commandPath = `${path}.${index}`;
+            const context = `${commandNames[command.code] ?? `Command ${command.code}`}: `;
+            const p = command.parameters as number[];
+            const check = (target: string, refId: number) => this.entry(file, id, commandPath, target, refId, context);
+
+            for (const [kind, target] of Object.entries(kindFiles) as [DatabaseKind, string][]) {
+                for (const refId of commandIds(kind, command)) {
+                    check(target, refId);
+                }
+            }
+            for (const switchId of new Set(commandSwitches(command))) {
+                this.switchOrVariable(file, id, commandPath, "switches", switchId, context);
+            }
+            for (const variableId of new Set(commandVariables(command))) {
+                this.switchOrVariable(file, id, commandPath, "variables", variableId, context);
+            }
+
+            switch (command.code) {
+                case 117:
+                    check("CommonEvents.json", p[0]);
+                    break;
+                case 201:
+                    // Designation 0 = direct map ID
+                    if (p[0] === 0) this.map(file, id, commandPath, p[1], context);
+                    break;
+                case 212:
+                    check("Animations.json", p[1]);
+                    break;
+                case 301:
+                    // Designation 0 = direct troop ID
+                    if (p[0] === 0) check("Troops.json", p[1]);
+                    break;
+            }
+        });
+    }
+
+    eventPage(file: string, id: number, path: string, page: RPGEventPage): void {
+        const c = page.conditions;
+        if (c.actorValid) this.entry(file, id, `${path}.conditions.actorId`, "Actors.json", c.actorId);
+        if (c.itemValid) this.entry(file, id, `${path}.conditions.itemId`, "Items.json", c.itemId);
+        if (c.switch1Valid) this.switchOrVariable(file, id, `${path}.conditions.switch1Id`, "switches", c.switch1Id);
+        if (c.switch2Valid) this.switchOrVariable(file, id, `${path}.conditions.switch2Id`, "switches", c.switch2Id);
+        if (c.variableValid) this.switchOrVariable(file, id, `${path}.conditions.variableId`, "variables", c.variableId);
+        this.commands(file, id, `${path}.list`, page.list);
+    }
+}
+
+/**
+ * Validate the structure, value ranges and ID references of every data file
+ */
+export async function validateProject(fileHandler: FileHandler, checkReferences = true): Promise<{ issues: ValidationIssue[]; filesChecked: number }> {
+    const v = new ProjectValidator(fileHandler);
+    let filesChecked = 0;
+
+    for (const [file, schema] of Object.entries(databaseEntrySchemas)) {
+        const data = await v.read<unknown>(file);
+        if (data === null) continue;
+        filesChecked++;
+        v.databases[file] = v.checkArray(file, data, schema);
+    }
+
+    const system = await v.read<unknown>("System.json");
+    if (system !== null) {
+        filesChecked++;
+        const result = rpgSystemSchema.safeParse(system);
+        if (result.success) {
+            v.system = system as RPGSystem;
+        } else {
+            v.addSchemaIssues("System.json", undefined, result.error);
+        }
+    }
+
+    const maps: [number, RPGMap][] = [];
+    const mapInfos = await v.read<unknown>("MapInfos.json");
+    if (mapInfos !== null) {
+        filesChecked++;
+        v.databases["MapInfos.json"] = v.checkArray("MapInfos.json", mapInfos, rpgMapInfoSchema);
+        v.mapInfos = v.databases["MapInfos.json"] as (RPGMapInfo | null)[];
+        for (const info of v.validEntries<RPGMapInfo>("MapInfos.json")) {
+            const file = mapFilename(info.id);
+            const map = await v.read<unknown>(file);
+            if (map === null) continue;
+            filesChecked++;
+            const result = rpgMapSchema.safeParse(map);
+            if (result.success) {
+                maps.push([info.id, map as RPGMap]);
+            } else {
+                v.addSchemaIssues(file, undefined, result.error);
+            }
+        }
+    }
+
+    if (!checkReferences) {
+        return { issues: v.issues, filesChecked };
+    }
+
+    const entries = <T>(file: string) => v.validEntries<T>(file);
+    // Cleared entries keep their defaults and are not checked
+    const named = <T extends { name: string }>(file: string) => entries<T>(file).filter((e) => e.name !== "");
+
+    for (const actor of named<RPGActor>("Actors.json")) {
+        v.entry("Actors.json", actor.id, "classId", "Classes.json", actor.classId);
+        v.equips("Actors.json", actor.id, "equips", actor.id, actor.equips);
+        v.traits("Actors.json", actor.id, actor.traits);
+    }
+    for (const rpgClass of named<RPGClass>("Classes.json")) {
+        rpgClass.learnings.forEach((learning, index) => {
+            v.entry("Classes.json", rpgClass.id, `learnings.${index}.skillId`, "Skills.json", learning.skillId);
+        });
+        v.traits("Classes.json", rpgClass.id, rpgClass.traits);
+    }
+    for (const [file, usables] of [["Items.json", named<RPGItem>("Items.json")], ["Skills.json", named<RPGSkill>("Skills.json")]] as const) {
+        for (const usable of usables) {
+            v.type(file, usable.id, "damage.elementId", "elements", usable.damage.elementId);
+            v.entry(file, usable.id, "animationId", "Animations.json", usable.animationId);
+            v.effects(file, usable.id, usable.effects);
+        }
+    }
+    for (const skill of named<RPGSkill>("Skills.json")) {
+        v.type("Skills.json", skill.id, "stypeId", "skillTypes", skill.stypeId);
+        v.type("Skills.json", skill.id, "requiredWtypeId1", "weaponTypes", skill.requiredWtypeId1);
+        v.type("Skills.json", skill.id, "requiredWtypeId2", "weaponTypes", skill.requiredWtypeId2);
+    }
+    for (const weapon of named<RPGWeapon>("Weapons.json")) {
+        v.type("Weapons.json", weapon.id, "wtypeId", "weaponTypes", weapon.wtypeId);
+        v.type("Weapons.json", weapon.id, "etypeId", "equipTypes", weapon.etypeId);
+        v.entry("Weapons.json", weapon.id, "animationId", "Animations.json", weapon.animationId);
+        v.traits("Weapons.json", weapon.id, weapon.traits);
+    }
+    for (const armor of named<RPGArmor>("Armors.json")) {
+        v.type("Armors.json", armor.id, "atypeId", "armorTypes", armor.atypeId);
+        v.type("Armors.json", armor.id, "etypeId", "equipTypes", armor.etypeId);
+        v.traits("Armors.json", armor.id, armor.traits);
+    }
+    for (const enemy of named<RPGEnemy>("Enemies.json")) {
+        const dropFiles = ["", "Items.json", "Weapons.json", "Armors.json"];
+        enemy.dropItems.forEach((drop, index) => {
+            if (drop.kind > 0) v.entry("Enemies.json", enemy.id, `dropItems.${index}.dataId`, dropFiles[drop.kind], drop.dataId);
+        });
+        enemy.actions.forEach((action, index) => {
+            v.entry("Enemies.json", enemy.id, `actions.${index}.skillId`, "Skills.json", action.skillId);
+            // Condition type 4 = State, 6 = Switch
+            if (action.conditionType === 4) v.entry("Enemies.json", enemy.id, `actions.${index}.conditionParam1`, "States.json", action.conditionParam1);
+            if (action.conditionType === 6) v.switchOrVariable("Enemies.json", enemy.id, `actions.${index}.conditionParam1`, "switches", action.conditionParam1);
+        });
+        v.traits("Enemies.json", enemy.id, enemy.traits);
+    }
+    for (const state of named<RPGState>("States.json")) {
+        v.traits("States.json", state.id, state.traits);
+    }
+    for (const troop of entries<RPGTroop>("Troops.json")) {
+        troop.members.forEach((member, index) => {
+            v.entry("Troops.json", troop.id, `members.${index}.enemyId`, "Enemies.json", member.enemyId);
+        });
+        troop.pages.forEach((page, index) => {
+            const c = page.conditions;
+            if (c.actorValid) v.entry("Troops.json", troop.id, `pages.${index}.conditions.actorId`, "Actors.json", c.actorId);
+            if (c.switchValid) v.switchOrVariable("Troops.json", troop.id, `pages.${index}.conditions.switchId`, "switches", c.switchId);
+            v.commands("Troops.json", troop.id, `pages.${index}.list`, page.list);
+        });
+    }
+    for (const commonEvent of entries<RPGCommonEvent>("CommonEvents.json")) {
+        if (commonEvent.trigger > 0) v.switchOrVariable("CommonEvents.json", commonEvent.id, "switchId", "switches", commonEvent.switchId);
+        v.commands("CommonEvents.json", commonEvent.id, "list", commonEvent.list);
+    }
+
+    if (v.system) {
+        const s = v.system;
+        s.partyMembers.forEach((actorId, index) => v.entry("System.json", undefined, `partyMembers.${index}`, "Actors.json", actorId));
+        s.testBattlers.forEach((battler, index) => {
+            v.entry("System.json", undefined, `testBattlers.${index}.actorId`, "Actors.json", battler.actorId);
+            v.equips("System.json", undefined, `testBattlers.${index}.equips`, battler.actorId, battler.equips);
+        });
+        v.entry("System.json", undefined, "testTroopId", "Troops.json", s.testTroopId);
+        s.magicSkills.forEach((stypeId, index) => v.type("System.json", undefined, `magicSkills.${index}`, "skillTypes", stypeId));
+        v.map("System.json", undefined, "startMapId", s.startMapId);
+        for (const vehicle of ["boat", "ship", "airship"] as const) {
+            v.map("System.json", undefined, `${vehicle}.startMapId`, s[vehicle].startMapId);
+        }
+    }
+
+    for (const info of entries<RPGMapInfo>("MapInfos.json")) {
+        v.map("MapInfos.json", info.id, "parentId", info.parentId);
+    }
+    for (const [mapId, map] of maps) {
+        const file = mapFilename(mapId);
+        v.entry(file, undefined, "tilesetId", "Tilesets.json", map.tilesetId);
+        map.encounterList.forEach((encounter, index) => {
+            v.entry(file, undefined, `encounterList.${index}.troopId`, "Troops.json", encounter.troopId);
+        });
+        map.events.forEach((event, index) => {
+            if (!event) return;
+            event.pages.forEach((page, pageIndex) => v.eventPage(file, event.id, `events.${index}.pages.${pageIndex}`, page));
+        });
+    }
+
+    return { issues: v.issues, filesChecked };
+}